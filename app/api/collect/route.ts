@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { insertUserAgent, recordBotHit, bufferWrite, getSite, getSites, DEFAULT_SITE_ID } from '@/lib/db';
+import { collectItems } from '@/lib/collect';
+import { lookupLocation } from '@/lib/geo';
+import { detectBot, getBotFilterMode } from '@/lib/bots';
+import { getClientIp } from '@/lib/ip';
+import { checkRateLimit, getRateLimitHeaders, rateLimitExceeded } from '@/lib/ratelimit';
+import { checkSiteAccess, accessDenied, getCorsHeaders, getPageHosts, preflight } from '@/lib/access';
+import { readJsonBody, getPayloadSiteId, validateCollectPayload, invalidPayload } from '@/lib/validation';
+import { UAParser } from 'ua-parser-js';
+
+/**
+ * Handle POST requests to /api/collect
+ *
+ * Takes a batch of pageview, vital, event and engagement items, writes them
+ * in one transaction and reports the outcome of every item.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Get client IP from the headers of trusted proxies
+    const ip = getClientIp(req.headers, req.ip);
+
+    // Parse request body
+    const parsed = await readJsonBody(req);
+    const body = 'value' in parsed ? parsed.value : {};
+
+    // Resolve the site the batch belongs to
+    const siteId = getPayloadSiteId(body, DEFAULT_SITE_ID);
+    const site = getSite(siteId);
+
+    // Let pages on the origins the site allows read the response
+    const origin = req.headers.get('origin');
+    const cors = getCorsHeaders(origin, site);
+
+    // Apply the client's rate limit, requests for unknown sites share one limit
+    const rateLimit = checkRateLimit('collect', site ? site.id : '', ip);
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit, cors);
+    }
+    const headers = { ...cors, ...getRateLimitHeaders(rateLimit) };
+
+    // Check the batch, its items are checked one by one
+    if ('errors' in parsed) {
+      return invalidPayload(parsed.errors, headers);
+    }
+    const validated = validateCollectPayload(body);
+    if ('errors' in validated) {
+      return invalidPayload(validated.errors, headers);
+    }
+    const batch = validated.value;
+
+    if (!site) {
+      return NextResponse.json({
+        success: false,
+        error: `Unknown site: ${siteId}`
+      }, { status: 400, headers });
+    }
+
+    // Only accept beacons from the site's own pages
+    const denied = checkSiteAccess(site, { origin, pageHosts: getPageHosts(...batch.items), token: batch.token });
+    if (denied) {
+      return accessDenied(denied, headers);
+    }
+
+    // Parse user agent
+    const userAgent = req.headers.get('user-agent') || '';
+    const parsedUA = new UAParser(userAgent).getResult();
+
+    // Filter bots, crawlers and headless browsers before anything is recorded
+    const botFilterMode = getBotFilterMode();
+    const bot = botFilterMode === 'off' ? null : detectBot(req.headers, parsedUA, batch.webdriver === true);
+    if (bot) {
+      if (botFilterMode === 'count') {
+        // Count every item, like the beacons it replaces
+        const timestamp = Date.now();
+        await bufferWrite(() => batch.items.forEach(() => recordBotHit(siteId, bot, timestamp)));
+      }
+      return NextResponse.json({ success: true, filtered: true }, { status: 200, headers });
+    }
+
+    // The user agent is only stored along with a pageview
+    let userAgentId: number | undefined;
+    const getUserAgentId = () => {
+      if (userAgentId === undefined) {
+        userAgentId = insertUserAgent({
+          browser: parsedUA.browser.name || 'Unknown',
+          browserVersion: parsedUA.browser.version,
+          os: parsedUA.os.name,
+          osVersion: parsedUA.os.version,
+          deviceType: parsedUA.device.type || 'desktop',
+          deviceVendor: parsedUA.device.vendor,
+          deviceModel: parsedUA.device.model
+        });
+      }
+      return userAgentId;
+    };
+
+    const results = await collectItems(batch.items, {
+      siteId,
+      hostname: site.domain,
+      ip,
+      userAgent,
+      // Look up the visitor's location while the IP address is still known, it is only stored hashed
+      location: lookupLocation(ip),
+      getUserAgentId
+    }, batch.sentAt);
+
+    return NextResponse.json({ success: true, results }, { status: 200, headers });
+  } catch (error) {
+    console.error('Error processing batch:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Handle CORS preflight requests to /api/collect
+ */
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req.headers.get('origin'), getSites());
+}
@@ -1,33 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getDashboardData } from '@/lib/db';
-
-// Basic authentication middleware
-function basicAuth(req: NextRequest) {
-  // Get auth header
-  const authHeader = req.headers.get('authorization');
-
-  // Check if auth is required
-  const username = process.env.DASHBOARD_USERNAME;
-  const password = process.env.DASHBOARD_PASSWORD;
-
-  // If credentials are not set, skip auth
-  if (!username || !password) {
-    return true;
-  }
-
-  // Check auth header
-  if (!authHeader || !authHeader.startsWith('Basic ')) {
-    return false;
-  }
-
-  // Decode credentials
-  const base64Credentials = authHeader.split(' ')[1];
-  const credentials = Buffer.from(base64Credentials, 'base64').toString('utf-8');
-  const [providedUsername, providedPassword] = credentials.split(':');
-
-  // Validate credentials
-  return providedUsername === username && providedPassword === password;
-}
+import { getDashboardData, getSite, DEFAULT_SITE_ID } from '@/lib/db';
+import { basicAuth, unauthorized } from '@/lib/auth';
 
 /**
  * GET /api/dashboard/data - Get dashboard data
@@ -36,19 +9,23 @@ export async function GET(request: NextRequest) {
   try {
     // Check authentication
     if (!basicAuth(request)) {
-      return new NextResponse('Unauthorized', {
-        status: 401,
-        headers: {
-          'WWW-Authenticate': 'Basic realm="Lightweight Web Analytics Dashboard"'
-        }
-      });
+      return unauthorized();
     }
 
-    // Parse time range from query parameters
+    // Parse site and time range from query parameters
     const searchParams = request.nextUrl.searchParams;
+    const siteId = searchParams.get('site') || DEFAULT_SITE_ID;
     const startTimeParam = searchParams.get('start');
     const endTimeParam = searchParams.get('end');
 
+    const site = getSite(siteId);
+    if (!site) {
+      return NextResponse.json(
+        { error: `Unknown site: ${siteId}` },
+        { status: 404 }
+      );
+    }
+
     // Default to last 7 days if not specified
     const now = Date.now();
     const oneDay = 24 * 60 * 60 * 1000;
@@ -56,7 +33,7 @@ export async function GET(request: NextRequest) {
     const endTime = endTimeParam ? parseInt(endTimeParam, 10) : now;
 
     // Get dashboard data
-    const data = getDashboardData(startTime, endTime);
+    const data = getDashboardData(site, startTime, endTime);
 
     return NextResponse.json(data);
   } catch (error) {
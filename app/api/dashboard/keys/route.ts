@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiKeys, getSite, insertApiKey, revokeApiKey } from '@/lib/db';
+import { generateApiKey } from '@/lib/apikeys';
+import { basicAuth, hasDashboardCredentials, unauthorized, credentialsRequired } from '@/lib/auth';
+import { readJsonBody, invalidPayload } from '@/lib/validation';
+
+// Longest description of what a key is used for
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * GET /api/dashboard/keys - List the API keys of a site, or of all sites
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Keys record data for a site, so they are never managed without credentials
+    if (!hasDashboardCredentials()) {
+      return credentialsRequired();
+    }
+    if (!basicAuth(request)) {
+      return unauthorized();
+    }
+
+    const siteId = request.nextUrl.searchParams.get('site') || undefined;
+
+    return NextResponse.json({ keys: getApiKeys(siteId) });
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/dashboard/keys - Create an API key, the key is only returned here
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Keys record data for a site, so they are never managed without credentials
+    if (!hasDashboardCredentials()) {
+      return credentialsRequired();
+    }
+    if (!basicAuth(request)) {
+      return unauthorized();
+    }
+
+    const parsed = await readJsonBody(request);
+    if ('errors' in parsed) {
+      return invalidPayload(parsed.errors);
+    }
+    const body = parsed.value;
+
+    if (typeof body.siteId !== 'string' || !getSite(body.siteId)) {
+      return NextResponse.json(
+        { error: `Unknown site: ${body.siteId}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Invalid name: describe what the key is used for in at most ${MAX_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { key, prefix, hash } = generateApiKey();
+    const apiKey = insertApiKey({ siteId: body.siteId, name: body.name.trim(), prefix, hash });
+
+    return NextResponse.json({ key, apiKey }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/dashboard/keys - Revoke an API key
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // Keys record data for a site, so they are never managed without credentials
+    if (!hasDashboardCredentials()) {
+      return credentialsRequired();
+    }
+    if (!basicAuth(request)) {
+      return unauthorized();
+    }
+
+    const parsed = await readJsonBody(request);
+    if ('errors' in parsed) {
+      return invalidPayload(parsed.errors);
+    }
+    const body = parsed.value;
+
+    if (typeof body.id !== 'number' || !Number.isInteger(body.id) || !revokeApiKey(body.id)) {
+      return NextResponse.json(
+        { error: `Unknown or revoked API key: ${body.id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
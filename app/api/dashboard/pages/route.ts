@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoutePageStats, getSite, DEFAULT_SITE_ID } from '@/lib/db';
+import { basicAuth, unauthorized } from '@/lib/auth';
+
+/**
+ * GET /api/dashboard/pages - Get the pages grouped by a route pattern
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    if (!basicAuth(request)) {
+      return unauthorized();
+    }
+
+    // Parse site, time range and route pattern from query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const siteId = searchParams.get('site') || DEFAULT_SITE_ID;
+    const startTimeParam = searchParams.get('start');
+    const endTimeParam = searchParams.get('end');
+    const route = searchParams.get('route');
+
+    const site = getSite(siteId);
+    if (!site) {
+      return NextResponse.json(
+        { error: `Unknown site: ${siteId}` },
+        { status: 404 }
+      );
+    }
+
+    if (!route) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: route' },
+        { status: 400 }
+      );
+    }
+
+    // Default to last 7 days if not specified
+    const now = Date.now();
+    const oneDay = 24 * 60 * 60 * 1000;
+    const startTime = startTimeParam ? parseInt(startTimeParam, 10) : now - (7 * oneDay);
+    const endTime = endTimeParam ? parseInt(endTimeParam, 10) : now;
+
+    return NextResponse.json({
+      route,
+      pages: getRoutePageStats(site.id, route, startTime, endTime)
+    });
+  } catch (error) {
+    console.error('Error fetching route pages:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSites, getSite, insertSite, updateSite } from '@/lib/db';
+import { basicAuth, unauthorized } from '@/lib/auth';
+import { readJsonBody, invalidPayload } from '@/lib/validation';
+import { parseAllowedHosts, generateSiteToken } from '@/lib/access';
+
+// Site identifiers end up in the snippet's data-site attribute
+const SITE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+/**
+ * Read the allowlist and token settings of a request body
+ *
+ * token: true generates a new token, token: false removes it.
+ */
+function readAccessSettings(body: Record<string, unknown>):
+  { value: { allowedHosts?: string[]; token?: string | null } } | { error: string } {
+  const value: { allowedHosts?: string[]; token?: string | null } = {};
+
+  if (body.allowedHosts !== undefined) {
+    const allowedHosts = parseAllowedHosts(body.allowedHosts);
+    if (!allowedHosts) {
+      return { error: 'Invalid allowedHosts: use an array of hostnames such as example.com, *.example.com or *' };
+    }
+    value.allowedHosts = allowedHosts;
+  }
+
+  if (body.token !== undefined) {
+    if (typeof body.token !== 'boolean') {
+      return { error: 'Invalid token: use true to generate a token or false to remove it' };
+    }
+    value.token = body.token ? generateSiteToken() : null;
+  }
+
+  return { value };
+}
+
+/**
+ * GET /api/dashboard/sites - List tracked sites
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!basicAuth(request)) {
+      return unauthorized();
+    }
+
+    return NextResponse.json({ sites: getSites() });
+  } catch (error) {
+    console.error('Error fetching sites:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/dashboard/sites - Register a new site
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!basicAuth(request)) {
+      return unauthorized();
+    }
+
+    const parsed = await readJsonBody(request);
+    if ('errors' in parsed) {
+      return invalidPayload(parsed.errors);
+    }
+    const body = parsed.value;
+
+    if (typeof body.id !== 'string' || !SITE_ID_PATTERN.test(body.id)) {
+      return badRequest('Invalid site id: use lowercase letters, digits and dashes');
+    }
+
+    if (getSite(body.id)) {
+      return NextResponse.json(
+        { error: `Site already exists: ${body.id}` },
+        { status: 409 }
+      );
+    }
+
+    const access = readAccessSettings(body);
+    if ('error' in access) {
+      return badRequest(access.error);
+    }
+
+    const site = insertSite({
+      id: body.id,
+      name: typeof body.name === 'string' && body.name ? body.name : body.id,
+      domain: typeof body.domain === 'string' ? body.domain : undefined,
+      allowedHosts: access.value.allowedHosts,
+      token: access.value.token || undefined
+    });
+
+    return NextResponse.json({ site }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating site:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/dashboard/sites - Change a site's name, domain, allowed hosts or token
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    if (!basicAuth(request)) {
+      return unauthorized();
+    }
+
+    const parsed = await readJsonBody(request);
+    if ('errors' in parsed) {
+      return invalidPayload(parsed.errors);
+    }
+    const body = parsed.value;
+
+    if (typeof body.id !== 'string' || !getSite(body.id)) {
+      return NextResponse.json(
+        { error: `Unknown site: ${body.id}` },
+        { status: 404 }
+      );
+    }
+
+    const access = readAccessSettings(body);
+    if ('error' in access) {
+      return badRequest(access.error);
+    }
+
+    const site = updateSite(body.id, {
+      name: typeof body.name === 'string' && body.name ? body.name : undefined,
+      domain: typeof body.domain === 'string' ? body.domain : undefined,
+      ...access.value
+    });
+
+    return NextResponse.json({ site });
+  } catch (error) {
+    console.error('Error updating site:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
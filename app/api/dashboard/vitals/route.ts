@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWebVitalReport, getSite, DEFAULT_SITE_ID } from '@/lib/db';
+import { basicAuth, unauthorized } from '@/lib/auth';
+import { isWebVitalName } from '@/lib/utils';
+
+/**
+ * GET /api/dashboard/vitals - Get the web vitals breakdown report
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    if (!basicAuth(request)) {
+      return unauthorized();
+    }
+
+    // Parse site, time range and drill-down filters from query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const siteId = searchParams.get('site') || DEFAULT_SITE_ID;
+    const startTimeParam = searchParams.get('start');
+    const endTimeParam = searchParams.get('end');
+    const metric = searchParams.get('metric');
+    const pageUrl = searchParams.get('page');
+
+    const site = getSite(siteId);
+    if (!site) {
+      return NextResponse.json(
+        { error: `Unknown site: ${siteId}` },
+        { status: 404 }
+      );
+    }
+
+    if (metric && !isWebVitalName(metric)) {
+      return NextResponse.json(
+        { error: `Unknown metric: ${metric}` },
+        { status: 400 }
+      );
+    }
+
+    // Default to last 7 days if not specified
+    const now = Date.now();
+    const oneDay = 24 * 60 * 60 * 1000;
+    const startTime = startTimeParam ? parseInt(startTimeParam, 10) : now - (7 * oneDay);
+    const endTime = endTimeParam ? parseInt(endTimeParam, 10) : now;
+
+    const report = getWebVitalReport(site.id, startTime, endTime, {
+      metric: metric && isWebVitalName(metric) ? metric : undefined,
+      pageUrl: pageUrl || undefined
+    });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error fetching web vitals report:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,71 +1,89 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { insertCustomEvent } from '@/lib/db';
-
-// Rate limiting
-const rateLimits = new Map();
-const RATE_LIMIT = 100; // Requests per minute
-const RATE_WINDOW = 60000; // 1 minute in milliseconds
-
-/**
- * Clean up expired rate limits
- */
-function cleanupRateLimits() {
-  const now = Date.now();
-  for (const [ip, limit] of rateLimits.entries()) {
-    if (now - limit.timestamp > RATE_WINDOW) {
-      rateLimits.delete(ip);
-    }
-  }
-}
+import { insertCustomEvent, recordBotHit, bufferWrite, writeOnce, getSite, getSites, DEFAULT_SITE_ID } from '@/lib/db';
+import { detectBot, getBotFilterMode } from '@/lib/bots';
+import { getClientIp } from '@/lib/ip';
+import { checkRateLimit, getRateLimitHeaders, rateLimitExceeded } from '@/lib/ratelimit';
+import { checkSiteAccess, accessDenied, getCorsHeaders, getPageHosts, preflight } from '@/lib/access';
+import { readJsonBody, getPayloadSiteId, validateEvent, invalidPayload } from '@/lib/validation';
+import { UAParser } from 'ua-parser-js';
 
 /**
  * Handle POST requests to /api/events
  */
 export async function POST(req: NextRequest) {
   try {
-    // Get client IP
-    const ip = req.headers.get('x-forwarded-for') || 'unknown';
+    // Get client IP from the headers of trusted proxies
+    const ip = getClientIp(req.headers, req.ip);
 
-    // Apply rate limiting
-    cleanupRateLimits();
+    // Parse request body
+    const parsed = await readJsonBody(req);
+    const body = 'value' in parsed ? parsed.value : {};
 
-    const rateLimit = rateLimits.get(ip) || { count: 0, timestamp: Date.now() };
+    // Resolve the site the event belongs to
+    const siteId = getPayloadSiteId(body, DEFAULT_SITE_ID);
+    const site = getSite(siteId);
 
-    if (rateLimit.count >= RATE_LIMIT) {
-      return NextResponse.json({
-        success: false,
-        error: 'Rate limit exceeded'
-      }, { status: 429 });
-    }
+    // Let pages on the origins the site allows read the response
+    const origin = req.headers.get('origin');
+    const cors = getCorsHeaders(origin, site);
 
-    // Update rate limit
-    rateLimits.set(ip, {
-      count: rateLimit.count + 1,
-      timestamp: rateLimit.timestamp
-    });
+    // Apply the client's rate limit, requests for unknown sites share one limit
+    const rateLimit = checkRateLimit('events', site ? site.id : '', ip);
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit, cors);
+    }
+    const headers = { ...cors, ...getRateLimitHeaders(rateLimit) };
 
-    // Parse request body
-    const body = await req.json();
+    // Check the event
+    if ('errors' in parsed) {
+      return invalidPayload(parsed.errors, headers);
+    }
+    const validated = validateEvent(body);
+    if ('errors' in validated) {
+      return invalidPayload(validated.errors, headers);
+    }
+    const event = validated.value;
 
-    // Check for required fields
-    if (!body.sessionId || !body.pageUrl || !body.eventName) {
+    if (!site) {
       return NextResponse.json({
         success: false,
-        error: 'Missing required fields: sessionId, pageUrl, or eventName'
-      }, { status: 400 });
+        error: `Unknown site: ${siteId}`
+      }, { status: 400, headers });
     }
 
-    // Insert custom event
-    const eventId = insertCustomEvent({
-      sessionId: body.sessionId,
-      pageUrl: body.pageUrl,
+    // Only accept beacons from the site's own pages
+    const denied = checkSiteAccess(site, { origin, pageHosts: getPageHosts(event), token: event.token });
+    if (denied) {
+      return accessDenied(denied, headers);
+    }
+
+    // Filter bots, crawlers and headless browsers before anything is recorded
+    const botFilterMode = getBotFilterMode();
+    const parsedUA = new UAParser(req.headers.get('user-agent') || '').getResult();
+    const bot = botFilterMode === 'off' ? null : detectBot(req.headers, parsedUA, event.webdriver === true);
+    if (bot) {
+      if (botFilterMode === 'count') {
+        const timestamp = Date.now();
+        await bufferWrite(() => recordBotHit(siteId, bot, timestamp));
+      }
+      return NextResponse.json({ success: true, filtered: true }, { status: 200, headers });
+    }
+
+    // Insert custom event with the next batch, unless the beacon was stored before
+    const eventData = {
+      siteId,
+      sessionId: event.sessionId,
+      pageUrl: event.pageUrl,
       timestamp: Date.now(),
-      eventName: body.eventName,
-      eventData: body.eventData
-    });
+      eventName: event.eventName,
+      eventData: event.eventData
+    };
+    const { id: eventId, duplicate } = await bufferWrite(() =>
+      writeOnce(siteId, event.beaconId, () => insertCustomEvent(eventData))
+    );
 
     // Return success response
-    return NextResponse.json({ success: true, eventId }, { status: 200 });
+    return NextResponse.json({ success: true, eventId, duplicate }, { status: 200, headers });
   } catch (error) {
     console.error('Error processing custom event:', error);
     return NextResponse.json({
@@ -74,3 +92,10 @@ export async function POST(req: NextRequest) {
     }, { status: 500 });
   }
 }
+
+/**
+ * Handle CORS preflight requests to /api/events
+ */
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req.headers.get('origin'), getSites());
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { insertUserAgent, touchApiKey, bufferWrite, getSite } from '@/lib/db';
+import { writeItems, CollectContext, PendingItem } from '@/lib/collect';
+import { authenticateApiKey, invalidApiKey } from '@/lib/apikeys';
+import { lookupLocation } from '@/lib/geo';
+import { parseIp, truncateIp } from '@/lib/ip';
+import { checkRateLimit, getRateLimitHeaders, rateLimitExceeded } from '@/lib/ratelimit';
+import { readJsonBody, validateServerPayload, validateServerItem, invalidPayload, Validated } from '@/lib/validation';
+import { ServerItem } from '@/lib/types';
+import { UAParser } from 'ua-parser-js';
+
+/**
+ * Handle POST requests to /api/server/collect
+ *
+ * Takes pageviews and events recorded by a backend on behalf of its
+ * visitors, authenticated with a secret API key of the site. The visitor's
+ * IP address and user agent come from the items, not from the request.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const apiKey = authenticateApiKey(req.headers);
+    if (!apiKey) {
+      return invalidApiKey();
+    }
+
+    // Backends share one address, so the limit applies per key
+    const rateLimit = checkRateLimit('server', apiKey.siteId, `key:${apiKey.id}`);
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit);
+    }
+    const headers = getRateLimitHeaders(rateLimit);
+
+    // Check the request, its items are checked one by one
+    const parsed = await readJsonBody(req);
+    if ('errors' in parsed) {
+      return invalidPayload(parsed.errors, headers);
+    }
+    const validated = validateServerPayload(parsed.value);
+    if ('errors' in validated) {
+      return invalidPayload(validated.errors, headers);
+    }
+
+    const site = getSite(apiKey.siteId);
+    const now = Date.now();
+
+    // Items of the same visitor share their user agent row
+    const userAgentIds = new Map<string, number>();
+    const getContext = (item: ServerItem): CollectContext => {
+      const address = item.ip ? parseIp(item.ip) : null;
+      const ip = address ? truncateIp(address) : 'unknown';
+      const userAgent = item.userAgent || '';
+
+      return {
+        siteId: apiKey.siteId,
+        hostname: site && site.domain,
+        ip,
+        userAgent,
+        // Only pageviews store a location
+        location: item.type === 'pageview' ? lookupLocation(ip) : null,
+        getUserAgentId: () => {
+          let userAgentId = userAgentIds.get(userAgent);
+          if (userAgentId === undefined) {
+            const parsedUA = new UAParser(userAgent).getResult();
+            userAgentId = insertUserAgent({
+              browser: parsedUA.browser.name || 'Unknown',
+              browserVersion: parsedUA.browser.version,
+              os: parsedUA.os.name,
+              osVersion: parsedUA.os.version,
+              deviceType: parsedUA.device.type || 'desktop',
+              deviceVendor: parsedUA.device.vendor,
+              deviceModel: parsedUA.device.model
+            });
+            userAgentIds.set(userAgent, userAgentId);
+          }
+          return userAgentId;
+        }
+      };
+    };
+
+    const items = validated.value.items.map((item, index): Validated<PendingItem> => {
+      const result = validateServerItem(item, index, now);
+      if ('errors' in result) {
+        return result;
+      }
+
+      // Timestamps from the backend's clock are kept, except for ones ahead of ours
+      const timestamp = result.value.timestamp === undefined ? now : Math.min(result.value.timestamp, now);
+      return { value: { item: result.value, context: getContext(result.value), timestamp } };
+    });
+
+    const [results] = await Promise.all([
+      writeItems(items),
+      bufferWrite(() => touchApiKey(apiKey.id, now))
+    ]);
+
+    return NextResponse.json({ success: true, results }, { status: 200, headers });
+  } catch (error) {
+    console.error('Error processing server items:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -1,59 +1,66 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { insertUserAgent, insertPageview, insertWebVitals } from '@/lib/db';
+import { insertUserAgent, insertPageview, insertWebVitals, findPageviewId, recordBotHit, bufferWrite, writeOnce, getSite, getSites, DEFAULT_SITE_ID } from '@/lib/db';
+import { filterWebVitals } from '@/lib/utils';
+import { lookupLocation } from '@/lib/geo';
+import { detectBot, getBotFilterMode } from '@/lib/bots';
+import { getClientIp } from '@/lib/ip';
+import { checkRateLimit, getRateLimitHeaders, rateLimitExceeded } from '@/lib/ratelimit';
+import { checkSiteAccess, accessDenied, getCorsHeaders, getPageHosts, preflight } from '@/lib/access';
+import { readJsonBody, getPayloadSiteId, validatePageview, keepValidWebVitals, invalidPayload } from '@/lib/validation';
 import { UAParser } from 'ua-parser-js';
 
-// Rate limiting
-export const rateLimits = new Map();
-export const RATE_LIMIT = 100; // Requests per minute
-export const RATE_WINDOW = 60000; // 1 minute in milliseconds
-
-/**
- * Clean up expired rate limits
- */
-function cleanupRateLimits() {
-  const now = Date.now();
-  for (const [ip, limit] of rateLimits.entries()) {
-    if (now - limit.timestamp > RATE_WINDOW) {
-      rateLimits.delete(ip);
-    }
-  }
-}
-
 /**
  * Handle POST requests to /api/track
+ *
+ * Older snippets post web vitals here as well, in beacons that carry
+ * measurements in webVitals. Those are stored like /api/vitals stores them,
+ * without recording a pageview.
  */
 export async function POST(req: NextRequest) {
   try {
-    // Get client IP
-    const ip = req.headers.get('x-forwarded-for') || 'unknown';
+    // Get client IP from the headers of trusted proxies
+    const ip = getClientIp(req.headers, req.ip);
 
-    // Apply rate limiting
-    cleanupRateLimits();
+    // Parse request body
+    const parsed = await readJsonBody(req);
+    const body = 'value' in parsed ? parsed.value : {};
 
-    const rateLimit = rateLimits.get(ip) || { count: 0, timestamp: Date.now() };
+    // Resolve the site the beacon belongs to
+    const siteId = getPayloadSiteId(body, DEFAULT_SITE_ID);
+    const site = getSite(siteId);
 
-    if (rateLimit.count >= RATE_LIMIT) {
-      return NextResponse.json({
-        success: false,
-        error: 'Rate limit exceeded'
-      }, { status: 429 });
-    }
+    // Let pages on the origins the site allows read the response
+    const origin = req.headers.get('origin');
+    const cors = getCorsHeaders(origin, site);
 
-    // Update rate limit
-    rateLimits.set(ip, {
-      count: rateLimit.count + 1,
-      timestamp: rateLimit.timestamp
-    });
+    // Apply the client's rate limit, beacons for unknown sites share one limit
+    const rateLimit = checkRateLimit('track', site ? site.id : '', ip);
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit, cors);
+    }
+    const headers = { ...cors, ...getRateLimitHeaders(rateLimit) };
 
-    // Parse request body
-    const body = await req.json();
+    // Check the beacon
+    if ('errors' in parsed) {
+      return invalidPayload(parsed.errors, headers);
+    }
+    const validated = validatePageview(body);
+    if ('errors' in validated) {
+      return invalidPayload(validated.errors, headers);
+    }
+    const beacon = validated.value;
 
-    // Check for required fields
-    if (!body.sessionId || !body.pageUrl) {
+    if (!site) {
       return NextResponse.json({
         success: false,
-        error: 'Missing required fields: sessionId or pageUrl'
-      }, { status: 400 });
+        error: `Unknown site: ${siteId}`
+      }, { status: 400, headers });
+    }
+
+    // Only accept beacons from the site's own pages
+    const denied = checkSiteAccess(site, { origin, pageHosts: getPageHosts(beacon), token: beacon.token });
+    if (denied) {
+      return accessDenied(denied, headers);
     }
 
     // Parse user agent
@@ -61,44 +68,69 @@ export async function POST(req: NextRequest) {
     const parser = new UAParser(userAgent);
     const parsedUA = parser.getResult();
 
-    // Insert user agent
-    const userAgentId = insertUserAgent({
-      browser: parsedUA.browser.name || 'Unknown',
-      browserVersion: parsedUA.browser.version,
-      os: parsedUA.os.name,
-      osVersion: parsedUA.os.version,
-      deviceType: parsedUA.device.type || 'desktop',
-      deviceVendor: parsedUA.device.vendor,
-      deviceModel: parsedUA.device.model
-    });
-
-    // Insert pageview
-    const pageviewId = insertPageview({
-      pageUrl: body.pageUrl,
-      timestamp: Date.now(),
-      sessionId: body.sessionId,
-      referrer: body.referrer
-    }, ip, userAgentId);
-
-    // Process web vitals if provided
-    let validWebVitals = [];
-    if (body.webVitals && Array.isArray(body.webVitals)) {
-      validWebVitals = body.webVitals.filter(metric =>
-        metric &&
-        typeof metric.name === 'string' &&
-        typeof metric.value === 'number'
-      );
-
-      if (validWebVitals.length > 0) {
-        insertWebVitals(validWebVitals, body.sessionId, body.pageUrl);
-      } else {
-        // If webVitals was provided but invalid, still log empty array
-        insertWebVitals([], body.sessionId, body.pageUrl);
+    // Filter bots, crawlers and headless browsers before anything is recorded
+    const botFilterMode = getBotFilterMode();
+    const bot = botFilterMode === 'off' ? null : detectBot(req.headers, parsedUA, beacon.webdriver === true);
+    if (bot) {
+      if (botFilterMode === 'count') {
+        const timestamp = Date.now();
+        await bufferWrite(() => recordBotHit(siteId, bot, timestamp));
       }
+      return NextResponse.json({ success: true, filtered: true }, { status: 200, headers });
     }
 
+    // Web vitals of an older snippet, attached to the pageview they were measured on
+    if (beacon.webVitals && beacon.webVitals.length > 0) {
+      const validWebVitals = filterWebVitals(keepValidWebVitals(beacon.webVitals));
+      const { id: pageviewId, duplicate } = await bufferWrite(() => writeOnce(siteId, beacon.beaconId, () => {
+        const id = findPageviewId(siteId, beacon.sessionId, beacon.pageUrl);
+        insertWebVitals(validWebVitals, beacon.sessionId, beacon.pageUrl, siteId, id);
+        return id;
+      }));
+
+      return NextResponse.json({
+        success: true,
+        pageviewId: pageviewId || null,
+        count: validWebVitals.length,
+        duplicate
+      }, { status: 200, headers });
+    }
+
+    // Look up the visitor's location while the IP address is still known, it is only stored hashed
+    const location = lookupLocation(ip);
+    const timestamp = Date.now();
+
+    // Write the pageview with the next batch, unless the beacon was stored before
+    const { id: pageviewId, duplicate } = await bufferWrite(() => writeOnce(siteId, beacon.beaconId, () => {
+      // Insert user agent
+      const userAgentId = insertUserAgent({
+        browser: parsedUA.browser.name || 'Unknown',
+        browserVersion: parsedUA.browser.version,
+        os: parsedUA.os.name,
+        osVersion: parsedUA.os.version,
+        deviceType: parsedUA.device.type || 'desktop',
+        deviceVendor: parsedUA.device.vendor,
+        deviceModel: parsedUA.device.model
+      });
+
+      // Insert pageview
+      const id = insertPageview({
+        siteId,
+        pageUrl: beacon.pageUrl,
+        timestamp,
+        sessionId: beacon.sessionId,
+        referrer: beacon.referrer,
+        // Older snippets do not send the page host, fall back to the site's domain
+        hostname: beacon.hostname || site.domain,
+        location,
+        userAgent
+      }, ip, userAgentId);
+
+      return id;
+    }));
+
     // Return success response with pageviewId
-    return NextResponse.json({ success: true, pageviewId: pageviewId }, { status: 200 });
+    return NextResponse.json({ success: true, pageviewId: pageviewId, duplicate }, { status: 200, headers });
   } catch (error) {
     console.error('Error processing pageview:', error);
     return NextResponse.json({
@@ -107,3 +139,10 @@ export async function POST(req: NextRequest) {
     }, { status: 500 });
   }
 }
+
+/**
+ * Handle CORS preflight requests to /api/track
+ */
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req.headers.get('origin'), getSites());
+}
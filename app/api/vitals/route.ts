@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { insertWebVitals, findPageviewId, bufferWrite, writeOnce, getSite, getSites, DEFAULT_SITE_ID } from '@/lib/db';
+import { filterWebVitals } from '@/lib/utils';
+import { getClientIp } from '@/lib/ip';
+import { checkRateLimit, getRateLimitHeaders, rateLimitExceeded } from '@/lib/ratelimit';
+import { checkSiteAccess, accessDenied, getCorsHeaders, getPageHosts, preflight } from '@/lib/access';
+import { readJsonBody, getPayloadSiteId, validateVitals, invalidPayload } from '@/lib/validation';
+
+/**
+ * Handle POST requests to /api/vitals
+ *
+ * Web vitals are reported separately from the pageview they were measured
+ * on, so this route only stores measurements and never records a pageview.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Get client IP from the headers of trusted proxies
+    const ip = getClientIp(req.headers, req.ip);
+
+    // Parse request body
+    const parsed = await readJsonBody(req);
+    const body = 'value' in parsed ? parsed.value : {};
+
+    // Resolve the site the measurements belong to
+    const siteId = getPayloadSiteId(body, DEFAULT_SITE_ID);
+    const site = getSite(siteId);
+
+    // Let pages on the origins the site allows read the response
+    const origin = req.headers.get('origin');
+    const cors = getCorsHeaders(origin, site);
+
+    // Apply the client's rate limit, requests for unknown sites share one limit
+    const rateLimit = checkRateLimit('vitals', site ? site.id : '', ip);
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit, cors);
+    }
+    const headers = { ...cors, ...getRateLimitHeaders(rateLimit) };
+
+    // Check the measurements
+    if ('errors' in parsed) {
+      return invalidPayload(parsed.errors, headers);
+    }
+    const validated = validateVitals(body);
+    if ('errors' in validated) {
+      return invalidPayload(validated.errors, headers);
+    }
+    const { sessionId, pageUrl, webVitals, token, beaconId } = validated.value;
+
+    if (!site) {
+      return NextResponse.json({
+        success: false,
+        error: `Unknown site: ${siteId}`
+      }, { status: 400, headers });
+    }
+
+    // Only accept beacons from the site's own pages
+    const denied = checkSiteAccess(site, { origin, pageHosts: getPageHosts({ pageUrl }), token });
+    if (denied) {
+      return accessDenied(denied, headers);
+    }
+
+    const validWebVitals = filterWebVitals(webVitals);
+
+    // Attach the measurements to the pageview they were taken on, which may
+    // still be waiting in the write buffer. A beacon stored before is not stored again.
+    const { id: pageviewId, duplicate } = await bufferWrite(() => writeOnce(siteId, beaconId, () => {
+      const id = findPageviewId(siteId, sessionId, pageUrl);
+      insertWebVitals(validWebVitals, sessionId, pageUrl, siteId, id);
+      return id;
+    }));
+
+    return NextResponse.json({
+      success: true,
+      pageviewId: pageviewId || null,
+      count: validWebVitals.length,
+      duplicate
+    }, { status: 200, headers });
+  } catch (error) {
+    console.error('Error processing web vitals:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Handle CORS preflight requests to /api/vitals
+ */
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req.headers.get('origin'), getSites());
+}
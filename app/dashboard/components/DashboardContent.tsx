@@ -15,7 +15,9 @@ import {
   Filler
 } from 'chart.js';
 import { Line, Bar, Doughnut } from 'react-chartjs-2';
-import { DashboardData } from '@/lib/types';
+import { BotReason, CampaignBreakdown, DashboardData } from '@/lib/types';
+import { formatDuration } from '@/lib/utils';
+import DashboardFilters, { getRangeStart, useSites } from './DashboardFilters';
 
 // Register ChartJS components
 ChartJS.register(
@@ -31,20 +33,230 @@ ChartJS.register(
   Filler
 );
 
-// Time range options
-const timeRanges = [
-  { label: 'Last 24 hours', value: '1d' },
-  { label: 'Last 7 days', value: '7d' },
-  { label: 'Last 30 days', value: '30d' },
-  { label: 'Last 90 days', value: '90d' }
-];
+interface CampaignTableProps {
+  title: string;
+  rows: CampaignBreakdown[];
+}
+
+function CampaignTable({ title, rows }: CampaignTableProps) {
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">{title}</h3>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {title}
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Sessions
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Conversions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rows.length > 0 ? (
+              rows.map((row) => (
+                <tr key={row.name}>
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900 max-w-xs truncate">
+                    {row.name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {row.sessions.toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {row.conversions.toLocaleString()} ({(row.conversions / row.sessions * 100).toFixed(1)}%)
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={3} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No campaign traffic recorded
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+const BOT_REASON_LABELS: Record<BotReason, string> = {
+  'user-agent': 'Bot user agent',
+  headless: 'Headless browser',
+  headers: 'Request headers'
+};
+
+// Country names from ISO codes, in the visitor's language
+const countryNames = new Intl.DisplayNames(undefined, { type: 'region' });
+
+function countryName(code: string): string {
+  try {
+    return countryNames.of(code) || code;
+  } catch {
+    return code;
+  }
+}
+
+interface LocationTableProps {
+  title: string;
+  rows: Array<{ name: string; count: number }>;
+}
+
+function LocationTable({ title, rows }: LocationTableProps) {
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">{title}</h3>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Location
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Sessions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rows.length > 0 ? (
+              rows.map((row) => (
+                <tr key={row.name}>
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900 max-w-xs truncate">
+                    {row.name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {row.count.toLocaleString()}
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={2} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No locations recorded
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+interface RoutePagesProps {
+  siteId: string;
+  timeRange: string;
+  route: string;
+  onClose: () => void;
+}
+
+function RoutePages({ siteId, timeRange, route, onClose }: RoutePagesProps) {
+  const [pages, setPages] = useState<Array<{ page: string; count: number }> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchPages() {
+      try {
+        setPages(null);
+        setError(null);
+
+        const now = Date.now();
+        const params = new URLSearchParams({
+          site: siteId,
+          start: getRangeStart(timeRange, now).toString(),
+          end: now.toString(),
+          route
+        });
+
+        const response = await fetch(`/api/dashboard/pages?${params.toString()}`);
+
+        if (!response.ok) {
+          throw new Error(`Error fetching data: ${response.statusText}`);
+        }
+
+        const result = await response.json();
+        setPages(result.pages);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+        console.error('Error fetching route pages:', err);
+      }
+    }
+
+    fetchPages();
+  }, [siteId, timeRange, route]);
+
+  return (
+    <div className="mt-6 bg-white p-6 rounded-lg shadow">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium text-gray-900">Pages matching {route}</h3>
+        <button type="button" onClick={onClose} className="text-sm text-indigo-600 hover:underline">
+          Close
+        </button>
+      </div>
+      {error ? (
+        <p className="text-sm text-red-700">Error loading pages: {error}</p>
+      ) : !pages ? (
+        <p className="text-sm text-gray-500">Loading pages...</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Page
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Pageviews
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {pages.length > 0 ? (
+                pages.map((row) => (
+                  <tr key={row.page}>
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900 max-w-xs truncate">
+                      {row.page}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {row.count.toLocaleString()}
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={2} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No pageviews recorded
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
 
 export default function DashboardContent() {
   const [data, setData] = useState<DashboardData | null>(null);
   const [loading, setLoading] = useState(true);
   const [timeRange, setTimeRange] = useState('7d');
+  const [siteId, setSiteId] = useState('default');
   const [error, setError] = useState<string | null>(null);
-  const [sessionCount, setSessionCount] = useState<number>(0);
+  const [route, setRoute] = useState<string | null>(null);
+  const sites = useSites();
+
+  // Route patterns belong to a site
+  useEffect(() => {
+    setRoute(null);
+  }, [siteId]);
 
   useEffect(() => {
     async function fetchData() {
@@ -53,28 +265,10 @@ export default function DashboardContent() {
 
         // Calculate time range
         const now = Date.now();
-        const oneDay = 24 * 60 * 60 * 1000;
-        let startTime: number;
-
-        switch (timeRange) {
-          case '1d':
-            startTime = now - oneDay;
-            break;
-          case '7d':
-            startTime = now - (7 * oneDay);
-            break;
-          case '30d':
-            startTime = now - (30 * oneDay);
-            break;
-          case '90d':
-            startTime = now - (90 * oneDay);
-            break;
-          default:
-            startTime = now - (7 * oneDay);
-        }
+        const startTime = getRangeStart(timeRange, now);
 
         // Fetch dashboard data
-        const response = await fetch(`/api/dashboard/data?start=${startTime}&end=${now}`);
+        const response = await fetch(`/api/dashboard/data?site=${encodeURIComponent(siteId)}&start=${startTime}&end=${now}`);
 
         if (!response.ok) {
           throw new Error(`Error fetching data: ${response.statusText}`);
@@ -82,10 +276,6 @@ export default function DashboardContent() {
 
         const dashboardData = await response.json();
         setData(dashboardData);
-
-        // Calculate unique sessions (this would normally come from the API)
-        // For now, we'll just use a placeholder value
-        setSessionCount(Math.floor(dashboardData.pageviews.total * 0.7));
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Unknown error');
         console.error('Error fetching dashboard data:', err);
@@ -95,7 +285,7 @@ export default function DashboardContent() {
     }
 
     fetchData();
-  }, [timeRange]);
+  }, [timeRange, siteId]);
 
   if (loading) {
     return <div className="flex justify-center py-12">Loading dashboard data...</div>;
@@ -158,6 +348,26 @@ export default function DashboardContent() {
     ]
   };
 
+  // Prepare channels chart data
+  const channelsData = {
+    labels: data.referrers.byChannel.map(item => item.channel),
+    datasets: [
+      {
+        label: 'Visits',
+        data: data.referrers.byChannel.map(item => item.count),
+        backgroundColor: [
+          'rgba(255, 99, 132, 0.6)',
+          'rgba(54, 162, 235, 0.6)',
+          'rgba(255, 206, 86, 0.6)',
+          'rgba(75, 192, 192, 0.6)',
+          'rgba(153, 102, 255, 0.6)',
+          'rgba(255, 159, 64, 0.6)'
+        ],
+        borderWidth: 1
+      }
+    ]
+  };
+
   // Prepare devices chart data
   const devicesData = {
     labels: data.devices.byDeviceType.map(item => item.deviceType),
@@ -231,6 +441,17 @@ export default function DashboardContent() {
     },
   };
 
+  // Route pattern bars open the pages they group
+  const topPagesOptions = {
+    ...barOptions,
+    onClick: (_event: unknown, elements: Array<{ index: number }>) => {
+      const page = elements.length > 0 ? data.pageviews.byPage[elements[0].index] : undefined;
+      if (page && page.isRoute) {
+        setRoute(page.page);
+      }
+    }
+  };
+
   const doughnutOptions = {
     responsive: true,
     plugins: {
@@ -242,26 +463,16 @@ export default function DashboardContent() {
 
   return (
     <div>
-      {/* Time range selector */}
+      {/* Site and time range selectors */}
       <div className="mb-6 flex justify-between items-center">
         <h1 className="text-2xl font-bold text-gray-900">Dashboard</h1>
-        <div className="flex items-center">
-          <label htmlFor="timeRange" className="mr-2 text-sm font-medium text-gray-700">
-            Time Range:
-          </label>
-          <select
-            id="timeRange"
-            value={timeRange}
-            onChange={(e) => setTimeRange(e.target.value)}
-            className="block w-40 pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
-          >
-            {timeRanges.map((range) => (
-              <option key={range.value} value={range.value}>
-                {range.label}
-              </option>
-            ))}
-          </select>
-        </div>
+        <DashboardFilters
+          sites={sites}
+          siteId={siteId}
+          timeRange={timeRange}
+          onSiteChange={setSiteId}
+          onTimeRangeChange={setTimeRange}
+        />
       </div>
 
       {/* Stats summary */}
@@ -283,7 +494,7 @@ export default function DashboardContent() {
               Unique Sessions
             </dt>
             <dd className="mt-1 text-3xl font-semibold text-gray-900">
-              {sessionCount.toLocaleString()}
+              {data.sessions.uniqueSessions.toLocaleString()}
             </dd>
           </div>
         </div>
@@ -311,6 +522,52 @@ export default function DashboardContent() {
         </div>
       </div>
 
+      <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4 mb-6">
+        <div className="bg-white overflow-hidden shadow rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <dt className="text-sm font-medium text-gray-500 truncate">
+              Unique Visitors
+            </dt>
+            <dd className="mt-1 text-3xl font-semibold text-gray-900">
+              {data.sessions.uniqueVisitors.toLocaleString()}
+            </dd>
+          </div>
+        </div>
+
+        <div className="bg-white overflow-hidden shadow rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <dt className="text-sm font-medium text-gray-500 truncate">
+              Bounce Rate
+            </dt>
+            <dd className="mt-1 text-3xl font-semibold text-gray-900">
+              {(data.sessions.bounceRate * 100).toFixed(1)}%
+            </dd>
+          </div>
+        </div>
+
+        <div className="bg-white overflow-hidden shadow rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <dt className="text-sm font-medium text-gray-500 truncate">
+              Pages / Session
+            </dt>
+            <dd className="mt-1 text-3xl font-semibold text-gray-900">
+              {data.sessions.pagesPerSession.toFixed(2)}
+            </dd>
+          </div>
+        </div>
+
+        <div className="bg-white overflow-hidden shadow rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <dt className="text-sm font-medium text-gray-500 truncate">
+              Avg. Session Duration
+            </dt>
+            <dd className="mt-1 text-3xl font-semibold text-gray-900">
+              {formatDuration(data.sessions.avgSessionDuration)}
+            </dd>
+          </div>
+        </div>
+      </div>
+
       {/* Charts */}
       <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
         {/* Pageviews over time */}
@@ -321,7 +578,10 @@ export default function DashboardContent() {
         {/* Top pages */}
         <div className="bg-white p-6 rounded-lg shadow">
           <h3 className="text-lg font-medium text-gray-900 mb-4">Top Pages</h3>
-          <Bar data={topPagesData} options={barOptions} />
+          <Bar data={topPagesData} options={topPagesOptions} />
+          {data.pageviews.byPage.some(item => item.isRoute) && (
+            <p className="mt-2 text-sm text-gray-500">Click a route pattern to see its pages.</p>
+          )}
         </div>
 
         {/* Referrers */}
@@ -330,6 +590,12 @@ export default function DashboardContent() {
           <Bar data={referrersData} options={barOptions} />
         </div>
 
+        {/* Channels */}
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Channels</h3>
+          <Doughnut data={channelsData} options={doughnutOptions} />
+        </div>
+
         {/* Devices */}
         <div className="bg-white p-6 rounded-lg shadow">
           <h3 className="text-lg font-medium text-gray-900 mb-4">Device Types</h3>
@@ -399,6 +665,92 @@ export default function DashboardContent() {
         </div>
       </div>
 
+      {/* Pages grouped by the selected route pattern */}
+      {route && (
+        <RoutePages siteId={siteId} timeRange={timeRange} route={route} onClose={() => setRoute(null)} />
+      )}
+
+      {/* Campaigns from UTM parameters of landing pages */}
+      <div className="mt-6 grid grid-cols-1 gap-6 lg:grid-cols-3">
+        <CampaignTable title="Campaign" rows={data.campaigns.byCampaign} />
+        <CampaignTable title="Source" rows={data.campaigns.bySource} />
+        <CampaignTable title="Medium" rows={data.campaigns.byMedium} />
+      </div>
+
+      {/* Locations of landing pageviews, cities only with GEOIP_PRECISION=city */}
+      <div className={`mt-6 grid grid-cols-1 gap-6 ${data.locations.byCity.length > 0 ? 'lg:grid-cols-2' : ''}`}>
+        <LocationTable
+          title="Countries"
+          rows={data.locations.byCountry.map((row) => ({ name: countryName(row.country), count: row.count }))}
+        />
+        {data.locations.byCity.length > 0 && (
+          <LocationTable
+            title="Cities"
+            rows={data.locations.byCity.map((row) => ({
+              name: [row.city, row.region, countryName(row.country)].filter(Boolean).join(', '),
+              count: row.count
+            }))}
+          />
+        )}
+      </div>
+
+      {/* Slowest pages with web-vitals attribution */}
+      <div className="mt-6 bg-white p-6 rounded-lg shadow">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Slowest Pages</h3>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Metric
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Page
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Element
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Average
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Samples
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {data.webVitals.worstPages.length > 0 ? (
+                data.webVitals.worstPages.map((page) => (
+                  <tr key={`${page.name}-${page.pageUrl}-${page.attribution}`}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {page.name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {page.pageUrl}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate font-mono">
+                      {page.attribution}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {page.average.toFixed(page.name === 'CLS' ? 3 : 2)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {page.count.toLocaleString()}
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No attribution data recorded
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
       {/* Recent Custom Events */}
       <div className="mt-6 bg-white p-6 rounded-lg shadow">
         <h3 className="text-lg font-medium text-gray-900 mb-4">Recent Custom Events</h3>
@@ -449,6 +801,54 @@ export default function DashboardContent() {
           </table>
         </div>
       </div>
+
+      {/* Beacons filtered as bot traffic */}
+      <div className="mt-6 bg-white p-6 rounded-lg shadow">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Blocked Bot Traffic</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          {data.bots.total.toLocaleString()} beacons from bots, crawlers and headless browsers were not recorded
+        </p>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Agent
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Detected By
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Hits
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {data.bots.byAgent.length > 0 ? (
+                data.bots.byAgent.map((bot) => (
+                  <tr key={`${bot.agent}-${bot.reason}`}>
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900 max-w-xs truncate">
+                      {bot.agent}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {BOT_REASON_LABELS[bot.reason]}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {bot.count.toLocaleString()}
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={3} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No bot traffic blocked
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,115 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { SiteData } from '@/lib/types';
+
+// Time range options
+export const timeRanges = [
+  { label: 'Last 24 hours', value: '1d' },
+  { label: 'Last 7 days', value: '7d' },
+  { label: 'Last 30 days', value: '30d' },
+  { label: 'Last 90 days', value: '90d' }
+];
+
+/**
+ * Calculate the start timestamp of a time range option
+ */
+export function getRangeStart(timeRange: string, now: number): number {
+  const oneDay = 24 * 60 * 60 * 1000;
+
+  switch (timeRange) {
+    case '1d':
+      return now - oneDay;
+    case '7d':
+      return now - (7 * oneDay);
+    case '30d':
+      return now - (30 * oneDay);
+    case '90d':
+      return now - (90 * oneDay);
+    default:
+      return now - (7 * oneDay);
+  }
+}
+
+/**
+ * Load the list of tracked sites for the site switcher
+ */
+export function useSites(): SiteData[] {
+  const [sites, setSites] = useState<SiteData[]>([]);
+
+  useEffect(() => {
+    async function fetchSites() {
+      try {
+        const response = await fetch('/api/dashboard/sites');
+
+        if (!response.ok) {
+          throw new Error(`Error fetching sites: ${response.statusText}`);
+        }
+
+        const { sites: siteList } = await response.json();
+        setSites(siteList);
+      } catch (err) {
+        console.error('Error fetching sites:', err);
+      }
+    }
+
+    fetchSites();
+  }, []);
+
+  return sites;
+}
+
+interface DashboardFiltersProps {
+  sites: SiteData[];
+  siteId: string;
+  timeRange: string;
+  onSiteChange: (siteId: string) => void;
+  onTimeRangeChange: (timeRange: string) => void;
+}
+
+export default function DashboardFilters({
+  sites,
+  siteId,
+  timeRange,
+  onSiteChange,
+  onTimeRangeChange
+}: DashboardFiltersProps) {
+  return (
+    <div className="flex items-center">
+      <label htmlFor="site" className="mr-2 text-sm font-medium text-gray-700">
+        Site:
+      </label>
+      <select
+        id="site"
+        value={siteId}
+        onChange={(e) => onSiteChange(e.target.value)}
+        className="block w-40 mr-4 pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+      >
+        {sites.length > 0 ? (
+          sites.map((site) => (
+            <option key={site.id} value={site.id}>
+              {site.name}
+            </option>
+          ))
+        ) : (
+          <option value={siteId}>{siteId}</option>
+        )}
+      </select>
+      <label htmlFor="timeRange" className="mr-2 text-sm font-medium text-gray-700">
+        Time Range:
+      </label>
+      <select
+        id="timeRange"
+        value={timeRange}
+        onChange={(e) => onTimeRangeChange(e.target.value)}
+        className="block w-40 pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+      >
+        {timeRanges.map((range) => (
+          <option key={range.value} value={range.value}>
+            {range.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { ReactNode } from 'react';
+import Link from 'next/link';
+
+interface DashboardShellProps {
+  authenticated: boolean;
+  children: ReactNode;
+}
+
+export default function DashboardShell({ authenticated, children }: DashboardShellProps) {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 py-4 sm:px-6 lg:px-8 flex justify-between items-center">
+          <h1 className="text-xl font-bold text-gray-900">
+            Lightweight Web Analytics
+          </h1>
+          {authenticated && (
+            <div className="flex space-x-4">
+              <Link 
+                href="/dashboard" 
+                className="px-3 py-2 rounded-md text-sm font-medium text-gray-900 hover:bg-gray-100"
+              >
+                Dashboard
+              </Link>
+              <Link 
+                href="/dashboard/vitals" 
+                className="px-3 py-2 rounded-md text-sm font-medium text-gray-900 hover:bg-gray-100"
+              >
+                Web Vitals
+              </Link>
+              <Link 
+                href="/dashboard/settings" 
+                className="px-3 py-2 rounded-md text-sm font-medium text-gray-900 hover:bg-gray-100"
+              >
+                Settings
+              </Link>
+            </div>
+          )}
+        </div>
+      </header>
+      
+      <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
+        {children}
+      </main>
+      
+      <footer className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8 border-t border-gray-200">
+        <p className="text-center text-sm text-gray-500">
+          Lightweight Web Analytics - A privacy-focused, self-hosted analytics solution
+        </p>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { WebVitalName, WebVitalPercentile, WebVitalRating, WebVitalReport } from '@/lib/types';
+import DashboardFilters, { getRangeStart, useSites } from './DashboardFilters';
+
+// Register ChartJS components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+// Metrics shown as tabs, in order of importance
+const metrics: WebVitalName[] = ['LCP', 'INP', 'CLS', 'FCP', 'TTFB'];
+
+const ratingClasses: Record<WebVitalRating, string> = {
+  'good': 'bg-green-100 text-green-800',
+  'needs-improvement': 'bg-yellow-100 text-yellow-800',
+  'poor': 'bg-red-100 text-red-800'
+};
+
+/**
+ * Format a metric value in its unit
+ */
+function formatMetric(name: WebVitalName, value: number): string {
+  return name === 'CLS' ? value.toFixed(3) : `${Math.round(value).toLocaleString()} ms`;
+}
+
+interface BreakdownTableProps {
+  title: string;
+  label: string;
+  rows: Array<WebVitalPercentile & { key: string }>;
+  onSelect?: (key: string) => void;
+}
+
+function BreakdownTable({ title, label, rows, onSelect }: BreakdownTableProps) {
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">{title}</h3>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {label}
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                p75
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Samples
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Rating
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rows.length > 0 ? (
+              rows.map((row) => (
+                <tr
+                  key={row.key}
+                  onClick={onSelect ? () => onSelect(row.key) : undefined}
+                  className={onSelect ? 'cursor-pointer hover:bg-gray-50' : undefined}
+                >
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900 max-w-xs truncate">
+                    {row.key}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatMetric(row.name, row.p75)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {row.count.toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${ratingClasses[row.rating]}`}>
+                      {row.rating}
+                    </span>
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No samples recorded
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default function VitalsContent() {
+  const [report, setReport] = useState<WebVitalReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [timeRange, setTimeRange] = useState('7d');
+  const [siteId, setSiteId] = useState('default');
+  const [metric, setMetric] = useState<WebVitalName>('LCP');
+  const [pageUrl, setPageUrl] = useState<string | null>(null);
+  const sites = useSites();
+
+  useEffect(() => {
+    async function fetchReport() {
+      try {
+        setLoading(true);
+
+        // Calculate time range
+        const now = Date.now();
+        const startTime = getRangeStart(timeRange, now);
+
+        const params = new URLSearchParams({
+          site: siteId,
+          start: startTime.toString(),
+          end: now.toString(),
+          metric
+        });
+        if (pageUrl) {
+          params.set('page', pageUrl);
+        }
+
+        const response = await fetch(`/api/dashboard/vitals?${params.toString()}`);
+
+        if (!response.ok) {
+          throw new Error(`Error fetching data: ${response.statusText}`);
+        }
+
+        setReport(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+        console.error('Error fetching web vitals report:', err);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchReport();
+  }, [timeRange, siteId, metric, pageUrl]);
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border-l-4 border-red-400 p-4 my-4">
+        <div className="flex">
+          <div className="ml-3">
+            <p className="text-sm text-red-700">
+              Error loading web vitals data: {error}
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const distribution = report?.distribution.find(item => item.name === metric);
+
+  // Prepare p75 trend chart data
+  const trendData = {
+    labels: report ? report.trend.map(item => item.date) : [],
+    datasets: [
+      {
+        label: `${metric} p75`,
+        data: report ? report.trend.map(item => item.p75) : [],
+        borderColor: 'rgb(53, 162, 235)',
+        backgroundColor: 'rgba(53, 162, 235, 0.5)',
+        tension: 0.4
+      }
+    ]
+  };
+
+  const trendOptions = {
+    responsive: true,
+    plugins: {
+      legend: {
+        position: 'top' as const,
+      },
+      title: {
+        display: true,
+        text: `Daily ${metric} p75`,
+      },
+    },
+    scales: {
+      y: {
+        beginAtZero: true,
+      },
+    },
+  };
+
+  return (
+    <div>
+      {/* Site and time range selectors */}
+      <div className="mb-6 flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">Web Vitals</h1>
+        <DashboardFilters
+          sites={sites}
+          siteId={siteId}
+          timeRange={timeRange}
+          onSiteChange={setSiteId}
+          onTimeRangeChange={setTimeRange}
+        />
+      </div>
+
+      {/* Metric tabs */}
+      <div className="mb-6 flex space-x-2">
+        {metrics.map((name) => (
+          <button
+            key={name}
+            type="button"
+            onClick={() => setMetric(name)}
+            className={`px-3 py-2 rounded-md text-sm font-medium ${name === metric
+                ? 'bg-indigo-600 text-white'
+                : 'bg-white text-gray-900 shadow hover:bg-gray-100'
+              }`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+
+      {/* Drill-down breadcrumb */}
+      <div className="mb-6 text-sm text-gray-700">
+        <button
+          type="button"
+          onClick={() => setPageUrl(null)}
+          className={pageUrl ? 'text-indigo-600 hover:underline' : 'font-medium'}
+        >
+          All pages
+        </button>
+        {pageUrl && (
+          <span>
+            {' / '}
+            <span className="font-medium">{pageUrl}</span>
+          </span>
+        )}
+      </div>
+
+      {loading || !report ? (
+        <div className="flex justify-center py-12">Loading web vitals data...</div>
+      ) : (
+        <div>
+          {/* Rating distribution */}
+          <div className="mb-6 bg-white p-6 rounded-lg shadow">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              {metric} Rating Distribution
+            </h3>
+            {distribution ? (
+              <div>
+                <div className="flex h-6 w-full overflow-hidden rounded-md">
+                  <div className="bg-green-500" style={{ width: `${distribution.good * 100}%` }} />
+                  <div className="bg-yellow-400" style={{ width: `${distribution.needsImprovement * 100}%` }} />
+                  <div className="bg-red-500" style={{ width: `${distribution.poor * 100}%` }} />
+                </div>
+                <div className="mt-2 flex justify-between text-sm text-gray-500">
+                  <span>Good {(distribution.good * 100).toFixed(1)}%</span>
+                  <span>Needs improvement {(distribution.needsImprovement * 100).toFixed(1)}%</span>
+                  <span>Poor {(distribution.poor * 100).toFixed(1)}%</span>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No samples recorded</p>
+            )}
+          </div>
+
+          {/* p75 over time */}
+          <div className="mb-6 bg-white p-6 rounded-lg shadow">
+            <Line data={trendData} options={trendOptions} />
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            {!pageUrl && (
+              <div className="lg:col-span-2">
+                <BreakdownTable
+                  title="Pages"
+                  label="Page"
+                  rows={report.byPage.map(({ pageUrl: key, ...stats }) => ({ ...stats, key }))}
+                  onSelect={setPageUrl}
+                />
+              </div>
+            )}
+
+            <BreakdownTable
+              title="Browsers"
+              label="Browser"
+              rows={report.byBrowser.map(({ browser: key, ...stats }) => ({ ...stats, key }))}
+            />
+
+            <BreakdownTable
+              title="Device Types"
+              label="Device"
+              rows={report.byDeviceType.map(({ deviceType: key, ...stats }) => ({ ...stats, key }))}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { Suspense } from 'react';
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import DashboardShell from '../components/DashboardShell';
+import VitalsContent from '../components/VitalsContent';
+
+// Check if user is authenticated
+function isAuthenticated() {
+  const cookieStore = cookies();
+  return !!cookieStore.get('lwa_auth');
+}
+
+export default function VitalsPage() {
+  const authenticated = isAuthenticated();
+
+  // The login form lives on the main dashboard page
+  if (!authenticated) {
+    redirect('/dashboard');
+  }
+  
+  return (
+    <DashboardShell authenticated={authenticated}>
+      <Suspense fallback={<div>Loading web vitals data...</div>}>
+        <VitalsContent />
+      </Suspense>
+    </DashboardShell>
+  );
+}
@@ -0,0 +1,227 @@
+/**
+ * Origin, page host and site token checks for the ingestion routes
+ *
+ * A site may list the hostnames its beacons come from and may require a
+ * public token in every beacon. Neither is a secret, anyone can read them
+ * from a page's snippet, but together they stop beacons sent from other
+ * websites and casual fake traffic. The routes only answer CORS requests
+ * from origins on a site's allowlist, so the snippet can run on a different
+ * domain than the analytics server once the site names its hosts, or '*' for
+ * any host.
+ */
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+import { SiteData } from '../types';
+
+// Allowlist entry matching any host
+const ANY_HOST = '*';
+
+// Hostnames and wildcards accepted in an allowlist, e.g. example.com or *.example.com
+const HOST_PATTERN = /^(\*\.)?[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/;
+
+// How long browsers may cache a preflight response
+const PREFLIGHT_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+export interface BeaconSource {
+  origin: string | null;      // Origin header, sent by browsers
+  pageHosts: string[];        // Hosts of the beacon's pages
+  token?: string;             // Site token sent by the snippet
+}
+
+/**
+ * Normalize an allowlist entry
+ * @returns The lowercase hostname or wildcard, null when it is not one
+ */
+export function parseAllowedHost(value: string): string | null {
+  const host = value.trim().toLowerCase().replace(/\.$/, '');
+  return host === ANY_HOST || HOST_PATTERN.test(host) ? host : null;
+}
+
+/**
+ * Normalize an allowlist sent to the sites API
+ * @returns The entries without duplicates, null when one is not a hostname
+ */
+export function parseAllowedHosts(value: unknown): string[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const hosts = new Set<string>();
+  for (const entry of value) {
+    const host = typeof entry === 'string' ? parseAllowedHost(entry) : null;
+    if (!host) {
+      return null;
+    }
+    hosts.add(host);
+  }
+
+  return [...hosts];
+}
+
+/**
+ * Whether a hostname is on an allowlist
+ *
+ * Entries match exactly, *.example.com matches the subdomains of example.com
+ * and * matches any host.
+ */
+export function isHostAllowed(host: string, allowedHosts: string[]): boolean {
+  const hostname = host.toLowerCase().replace(/\.$/, '');
+
+  return allowedHosts.some(allowed => allowed === ANY_HOST || allowed.startsWith('*.')
+    ? hostname.endsWith(allowed.slice(1))
+    : hostname === allowed);
+}
+
+/**
+ * Hostname of an Origin header, null for opaque origins such as 'null'
+ */
+function getOriginHost(origin: string): string | null {
+  try {
+    return new URL(origin).hostname || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Page hosts of beacons or batch items: their hostname field and the host
+ * of an absolute pageUrl, page URLs sent as paths have none
+ */
+export function getPageHosts(...payloads: unknown[]): string[] {
+  const hosts = new Set<string>();
+
+  for (const payload of payloads) {
+    if (!payload || typeof payload !== 'object') {
+      continue;
+    }
+
+    const { hostname, pageUrl } = payload as Record<string, unknown>;
+    if (typeof hostname === 'string' && hostname) {
+      hosts.add(hostname.toLowerCase());
+    }
+    if (typeof pageUrl === 'string' && /^https?:\/\//i.test(pageUrl)) {
+      try {
+        hosts.add(new URL(pageUrl).hostname);
+      } catch {
+        // Rejected by the validation
+      }
+    }
+  }
+
+  return [...hosts];
+}
+
+/**
+ * Compare tokens in constant time
+ */
+function tokensMatch(expected: string, actual: unknown): boolean {
+  if (typeof actual !== 'string') {
+    return false;
+  }
+
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Check where a beacon comes from
+ * @returns Why the beacon is rejected, null when it is accepted
+ */
+export function checkSiteAccess(site: SiteData, source: BeaconSource): string | null {
+  if (site.token && !tokensMatch(site.token, source.token)) {
+    return 'Missing or invalid site token';
+  }
+
+  const allowedHosts = site.allowedHosts || [];
+  if (allowedHosts.length === 0) {
+    return null;
+  }
+
+  if (source.origin !== null) {
+    const originHost = getOriginHost(source.origin);
+    if (!originHost || !isHostAllowed(originHost, allowedHosts)) {
+      return `Origin not allowed: ${source.origin}`;
+    }
+  }
+
+  const pageHost = source.pageHosts.find(host => !isHostAllowed(host, allowedHosts));
+  if (pageHost) {
+    return `Page host not allowed: ${pageHost}`;
+  }
+
+  return null;
+}
+
+/**
+ * Response to a beacon from a source the site does not accept
+ */
+export function accessDenied(reason: string, headers?: Record<string, string>): NextResponse {
+  return NextResponse.json({ success: false, error: reason }, { status: 403, headers });
+}
+
+/**
+ * Whether a site lets pages at an origin send it beacons across origins
+ *
+ * Sites without an allowlist only receive beacons from pages on the
+ * analytics server's own origin, which need no CORS headers.
+ */
+export function isCorsAllowed(origin: string, site: SiteData): boolean {
+  const allowedHosts = site.allowedHosts || [];
+  const originHost = getOriginHost(origin);
+
+  return allowedHosts.length > 0 && !!originHost && isHostAllowed(originHost, allowedHosts);
+}
+
+/**
+ * Whether any site lets pages at an origin send it beacons across origins
+ */
+export function isOriginAllowed(origin: string, sites: SiteData[]): boolean {
+  return sites.some(site => isCorsAllowed(origin, site));
+}
+
+/**
+ * CORS headers letting the page at origin read the response, none unless
+ * the site allows the origin
+ */
+export function getCorsHeaders(origin: string | null, site: SiteData | undefined): Record<string, string> {
+  if (!origin || !site || !isCorsAllowed(origin, site)) {
+    return {};
+  }
+
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Vary': 'Origin'
+  };
+}
+
+/**
+ * Answer a CORS preflight request
+ *
+ * The site of a beacon is only known from its body, so the preflight only
+ * checks that the allowlist of some site names the origin and the beacon
+ * itself is checked against its site.
+ */
+export function preflight(origin: string | null, sites: SiteData[]): NextResponse {
+  if (!origin || !isOriginAllowed(origin, sites)) {
+    return new NextResponse(null, { status: 403 });
+  }
+
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': origin,
+      'Vary': 'Origin',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Max-Age': String(PREFLIGHT_MAX_AGE_SECONDS)
+    }
+  });
+}
+
+/**
+ * Generate a site token
+ */
+export function generateSiteToken(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
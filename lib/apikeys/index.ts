@@ -0,0 +1,65 @@
+/**
+ * Secret keys of the server-side tracking API
+ *
+ * Backends authenticate with a key in the Authorization header. Keys are
+ * shown once when they are created and only their SHA-256 hash is stored:
+ * they are long random strings, so an unsalted fast hash is enough to keep
+ * a leaked database from revealing them.
+ */
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+import { findApiKey } from '../db';
+import { ApiKeyData } from '../types';
+
+// Marks a string as a secret key of this service, e.g. for secret scanners
+const KEY_PREFIX = 'lwa_sk_';
+
+// Characters of a key kept as its prefix, enough to tell keys apart
+const SHOWN_KEY_LENGTH = KEY_PREFIX.length + 6;
+
+/**
+ * Hash a key the way it is stored
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Generate a new key
+ * @returns The key, to be shown once, with the prefix and hash to store
+ */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = KEY_PREFIX + crypto.randomBytes(24).toString('hex');
+  return { key, prefix: key.slice(0, SHOWN_KEY_LENGTH), hash: hashApiKey(key) };
+}
+
+/**
+ * Key sent as 'Authorization: Bearer <key>'
+ */
+export function getBearerKey(headers: Headers): string | null {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(headers.get('authorization') || '');
+  return match ? match[1] : null;
+}
+
+/**
+ * Look up the key a request is authenticated with
+ * @returns The key, null when it is missing, unknown or revoked
+ */
+export function authenticateApiKey(headers: Headers): ApiKeyData | null {
+  const key = getBearerKey(headers);
+  if (!key || !key.startsWith(KEY_PREFIX)) {
+    return null;
+  }
+
+  return findApiKey(hashApiKey(key)) || null;
+}
+
+/**
+ * Response to a request without a valid key
+ */
+export function invalidApiKey(): NextResponse {
+  return NextResponse.json({
+    success: false,
+    error: 'Missing or invalid API key'
+  }, { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+}
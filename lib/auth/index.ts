@@ -0,0 +1,63 @@
+/**
+ * Dashboard authentication helpers
+ */
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Whether dashboard credentials are set, without them the dashboard is open to anyone
+ */
+export function hasDashboardCredentials(): boolean {
+  return !!process.env.DASHBOARD_USERNAME && !!process.env.DASHBOARD_PASSWORD;
+}
+
+/**
+ * Check basic authentication credentials against the dashboard environment variables
+ */
+export function basicAuth(req: NextRequest): boolean {
+  // Get auth header
+  const authHeader = req.headers.get('authorization');
+
+  // If credentials are not set, skip auth
+  if (!hasDashboardCredentials()) {
+    return true;
+  }
+
+  const username = process.env.DASHBOARD_USERNAME;
+  const password = process.env.DASHBOARD_PASSWORD;
+
+  // Check auth header
+  if (!authHeader || !authHeader.startsWith('Basic ')) {
+    return false;
+  }
+
+  // Decode credentials
+  const base64Credentials = authHeader.split(' ')[1];
+  const credentials = Buffer.from(base64Credentials, 'base64').toString('utf-8');
+  const [providedUsername, providedPassword] = credentials.split(':');
+
+  // Validate credentials
+  return providedUsername === username && providedPassword === password;
+}
+
+/**
+ * Response asking for the dashboard credentials
+ */
+export function unauthorized(): NextResponse {
+  return new NextResponse('Unauthorized', {
+    status: 401,
+    headers: {
+      'WWW-Authenticate': 'Basic realm="Lightweight Web Analytics Dashboard"'
+    }
+  });
+}
+
+/**
+ * Response for endpoints that are never open, such as API key management,
+ * while no dashboard credentials are set
+ */
+export function credentialsRequired(): NextResponse {
+  return NextResponse.json(
+    { error: 'Set DASHBOARD_USERNAME and DASHBOARD_PASSWORD to use this endpoint' },
+    { status: 403 }
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * Bot and crawler detection for incoming beacons
+ *
+ * Beacons are checked against the maintained bot user-agent patterns of the
+ * isbot package, headless-browser signals and request-header heuristics.
+ * Detected bots are not recorded as traffic, only counted in bot_hits.
+ */
+import { isbot } from 'isbot';
+import { UAParser } from 'ua-parser-js';
+import { BotDetection } from '../types';
+
+// What happens to bot beacons: counted in bot_hits, dropped, or recorded as traffic
+export type BotFilterMode = 'count' | 'drop' | 'off';
+
+const BOT_FILTER_MODES: BotFilterMode[] = ['count', 'drop', 'off'];
+
+// Headless browsers and automation tools announcing themselves in the user agent
+const HEADLESS_PATTERN = /headless|phantomjs|slimerjs|puppeteer|playwright|selenium|webdriver/i;
+
+// Product token naming a crawler, e.g. Googlebot/2.1 or UptimeRobot/2.0
+const BOT_NAME_PATTERN = /[a-z][\w.-]*(?:bot|crawler|spider|scraper|fetcher|monitor|checker|preview)\b/i;
+
+/**
+ * Bot filter mode from BOT_FILTERING, count by default
+ */
+export function getBotFilterMode(): BotFilterMode {
+  const mode = (process.env.BOT_FILTERING || '').trim().toLowerCase() as BotFilterMode;
+  return BOT_FILTER_MODES.includes(mode) ? mode : 'count';
+}
+
+/**
+ * Name of the agent sending a bot beacon, for the bot traffic report
+ */
+function getAgentName(userAgent: string, parsedUA: UAParser.IResult): string {
+  const botName = userAgent.match(BOT_NAME_PATTERN);
+  if (botName) {
+    return botName[0];
+  }
+
+  if (parsedUA.browser.name) {
+    return parsedUA.browser.name;
+  }
+
+  // First product token, e.g. curl/8.4.0 or python-requests/2.31
+  return userAgent.trim().split(/[\s/;()]/)[0] || 'Unknown';
+}
+
+/**
+ * Check whether a beacon was sent by a bot
+ * @param headers Request headers
+ * @param parsedUA Parsed user agent of the request
+ * @param webdriver Whether the snippet reported navigator.webdriver
+ * @returns null for beacons from regular browsers
+ */
+export function detectBot(headers: Headers, parsedUA: UAParser.IResult, webdriver = false): BotDetection | null {
+  const userAgent = parsedUA.ua || '';
+
+  // Browsers always send a user agent
+  if (!userAgent.trim()) {
+    return { agent: 'Unknown', reason: 'headers' };
+  }
+
+  const agent = getAgentName(userAgent, parsedUA);
+
+  // Automated browsers: headless user agents and client hints, or navigator.webdriver
+  if (webdriver || HEADLESS_PATTERN.test(userAgent) || /headless/i.test(headers.get('sec-ch-ua') || '')) {
+    return { agent, reason: 'headless' };
+  }
+
+  if (isbot(userAgent)) {
+    return { agent, reason: 'user-agent' };
+  }
+
+  // Crawlers identify their operator with a From header, browsers never send one
+  if (headers.has('from')) {
+    return { agent, reason: 'headers' };
+  }
+
+  // Clients without a browser engine, e.g. HTTP libraries with a custom user agent
+  if (!parsedUA.browser.name && !parsedUA.engine.name && !userAgent.startsWith('Mozilla/')) {
+    return { agent, reason: 'user-agent' };
+  }
+
+  return null;
+}
@@ -0,0 +1,107 @@
+/**
+ * Client of the server-side tracking API
+ *
+ * Records pageviews and events from a backend, e.g. a payment webhook,
+ * on behalf of the visitor who caused them. It only depends on fetch, so it
+ * can be copied into any Node.js 18+ service:
+ *
+ *   const analytics = createServerClient({ host: 'https://analytics.example.com', apiKey });
+ *   await analytics.trackEvent({ sessionId, pageUrl: '/checkout', eventName: 'purchase', ip, userAgent });
+ */
+import { CollectItemResult, FieldError, ServerItem } from '../types';
+
+// Items per request accepted by /api/server/collect
+const MAX_BATCH_ITEMS = 50;
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export type ServerPageview = Omit<Extract<ServerItem, { type: 'pageview' }>, 'type'>;
+export type ServerEvent = Omit<Extract<ServerItem, { type: 'event' }>, 'type'>;
+
+export interface ServerClientOptions {
+  host: string;               // Analytics server, e.g. https://analytics.example.com or https://example.com/analytics
+  apiKey: string;             // Secret key created through /api/dashboard/keys
+  timeoutMs?: number;         // Per request, 10 seconds by default
+  fetch?: typeof fetch;       // The global fetch by default
+}
+
+export interface ServerClient {
+  trackPageview(pageview: ServerPageview): Promise<number | undefined>;
+  trackEvent(event: ServerEvent): Promise<number | undefined>;
+  send(items: ServerItem[]): Promise<CollectItemResult[]>;
+}
+
+/**
+ * Request or item rejected by the server
+ */
+export class TrackingError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,            // HTTP status, 0 when the server was not reached
+    readonly errors: FieldError[] = []  // Failing fields of an invalid request or item
+  ) {
+    super(message);
+    this.name = 'TrackingError';
+  }
+}
+
+/**
+ * Create a client for one API key
+ */
+export function createServerClient(options: ServerClientOptions): ServerClient {
+  // The server may live under a path, e.g. https://example.com/analytics
+  const endpoint = new URL('api/server/collect', options.host.replace(/\/?$/, '/')).href;
+  const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+  const fetchImpl = options.fetch || fetch;
+
+  const post = async (items: ServerItem[]): Promise<CollectItemResult[]> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetchImpl(endpoint, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${options.apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ items }),
+        signal: controller.signal
+      });
+    } catch (error) {
+      throw new TrackingError(`Analytics server not reachable: ${(error as Error).message}`, 0);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new TrackingError(body.error || `Request failed with status ${response.status}`, response.status, body.errors);
+    }
+    return body.results;
+  };
+
+  // Record one item, a rejected item is an error
+  const track = async (item: ServerItem): Promise<number | undefined> => {
+    const [result] = await post([item]);
+    if (!result.success) {
+      throw new TrackingError(result.error || 'Item rejected', 400, result.errors);
+    }
+    return result.id;
+  };
+
+  return {
+    trackPageview: pageview => track({ ...pageview, type: 'pageview' }),
+    trackEvent: event => track({ ...event, type: 'event' }),
+
+    // Send items in as many requests as needed, results are in the order of the items
+    async send(items) {
+      const results: CollectItemResult[] = [];
+      for (let start = 0; start < items.length; start += MAX_BATCH_ITEMS) {
+        results.push(...await post(items.slice(start, start + MAX_BATCH_ITEMS)));
+      }
+      return results;
+    }
+  };
+}
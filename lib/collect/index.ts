@@ -0,0 +1,147 @@
+/**
+ * Batched ingestion of pageviews, web vitals, custom events and engagement
+ *
+ * The snippet queues its beacons and sends them to /api/collect in batches.
+ * All items of a batch are written in one transaction, together with the
+ * other buffered writes, and every item gets its own result so one invalid
+ * item does not cost the rest of the batch. Items with the beaconId of a
+ * stored item are reported as duplicates instead of being stored again.
+ */
+import {
+  insertPageview,
+  insertWebVitals,
+  insertCustomEvent,
+  addEngagementTime,
+  findPageviewId,
+  runBatch,
+  bufferWrite,
+  writeOnce
+} from '../db';
+import { filterWebVitals } from '../utils';
+import { LIMITS, Validated, validateCollectItem } from '../validation';
+import { CollectItem, CollectItemResult, GeoLocation } from '../types';
+
+// Item that cannot be written, reported back to the client
+class ItemError extends Error {}
+
+// Request context shared by the items of a batch
+export interface CollectContext {
+  siteId: string;
+  hostname?: string;          // Fallback for pageviews without a page host
+  ip: string;
+  userAgent: string;
+  location: GeoLocation | null;
+  getUserAgentId: () => number;
+}
+
+// Valid item waiting to be written
+export interface PendingItem {
+  item: CollectItem;
+  context: CollectContext;
+  timestamp: number;    // Server time of the item
+}
+
+/**
+ * Server time of an item
+ *
+ * Client clocks can be off, so only the age of an item relative to the
+ * batch's sentAt is trusted.
+ */
+export function getItemTimestamp(timestamp: unknown, sentAt: unknown, now: number): number {
+  if (typeof timestamp !== 'number' || typeof sentAt !== 'number' || !Number.isFinite(sentAt - timestamp)) {
+    return now;
+  }
+
+  return now - Math.min(Math.max(sentAt - timestamp, 0), LIMITS.itemAgeMs);
+}
+
+/**
+ * Write one item
+ * @returns The row of the pageview, event or engaged pageview
+ */
+function writeItem(item: CollectItem, context: CollectContext, timestamp: number): number | undefined {
+  const { siteId } = context;
+
+  switch (item.type) {
+    case 'pageview':
+      return insertPageview({
+        siteId,
+        pageUrl: item.pageUrl,
+        timestamp,
+        sessionId: item.sessionId,
+        referrer: item.referrer,
+        hostname: item.hostname || context.hostname,
+        location: context.location,
+        userAgent: context.userAgent
+      }, context.ip, context.getUserAgentId());
+
+    case 'vital': {
+      // The pageview may be an earlier item of the same batch
+      const pageviewId = findPageviewId(siteId, item.sessionId, item.pageUrl);
+      insertWebVitals(filterWebVitals([item]), item.sessionId, item.pageUrl, siteId, pageviewId, timestamp);
+      return pageviewId;
+    }
+
+    case 'event':
+      return insertCustomEvent({
+        siteId,
+        sessionId: item.sessionId,
+        pageUrl: item.pageUrl,
+        timestamp,
+        eventName: item.eventName,
+        eventData: item.eventData
+      });
+
+    case 'engagement': {
+      const pageviewId = addEngagementTime(siteId, item.sessionId, item.pageUrl, item.engagedMs);
+      if (!pageviewId) {
+        throw new ItemError('No pageview of the page in this session');
+      }
+      return pageviewId;
+    }
+  }
+}
+
+/**
+ * Validate and write the items of a batch in one transaction
+ */
+export async function collectItems(items: unknown[], context: CollectContext, sentAt?: number): Promise<CollectItemResult[]> {
+  const now = Date.now();
+
+  return writeItems(items.map((item, index) => {
+    const validated = validateCollectItem(item, index, sentAt, now);
+    return 'errors' in validated ? validated : {
+      value: { item: validated.value, context, timestamp: getItemTimestamp(validated.value.timestamp, sentAt, now) }
+    };
+  }));
+}
+
+/**
+ * Write validated items in one transaction, each with its own request
+ * context and server time
+ * @returns The outcome of every item, invalid items included
+ */
+export async function writeItems(items: Array<Validated<PendingItem>>): Promise<CollectItemResult[]> {
+  const valid = items.flatMap(result => 'value' in result ? [result.value] : []);
+  const written = await bufferWrite(() => runBatch(valid.map(({ item, context, timestamp }) => () =>
+    writeOnce(context.siteId, item.beaconId, () => writeItem(item, context, timestamp))
+  )));
+
+  let next = 0;
+  return items.map(item => {
+    if ('errors' in item) {
+      return { success: false, error: 'Invalid item', errors: item.errors };
+    }
+
+    const result = written[next++];
+    if ('error' in result) {
+      if (result.error instanceof ItemError) {
+        return { success: false, error: result.error.message };
+      }
+      console.error('Error writing collected item:', result.error);
+      return { success: false, error: 'Internal server error' };
+    }
+    const { id, duplicate } = result.value;
+    return id === undefined ? { success: true, duplicate } : { success: true, id, duplicate };
+  });
+}
@@ -0,0 +1,132 @@
+/**
+ * In-process write buffer for the ingestion routes
+ *
+ * Routes hand their writes to the buffer instead of committing them one by
+ * one. Queued writes run together in one transaction as soon as
+ * WRITE_BUFFER_SIZE writes are waiting or WRITE_BUFFER_FLUSH_MS have passed,
+ * so a traffic spike costs a few commits instead of one per beacon. Every
+ * write still gets its own result, a failing write only rejects its caller.
+ */
+
+export interface WriteBufferConfig {
+  maxSize: number;    // Writes that trigger an immediate flush, 1 disables buffering
+  flushMs: number;    // Longest time a write waits in the buffer
+}
+
+// Runs writes in one transaction, see runBatch
+export type BatchRunner = <T>(writes: Array<() => T>) => Array<{ value: T } | { error: unknown }>;
+
+export interface WriteBuffer {
+  write<T>(write: () => T): Promise<T>;
+  flush(): void;
+  readonly size: number;
+}
+
+interface PendingWrite {
+  write: () => unknown;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+const DEFAULTS: WriteBufferConfig = {
+  maxSize: 200,
+  flushMs: 50
+};
+
+/**
+ * Parse a non-negative integer setting, falling back to the default
+ */
+function parseSetting(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Buffer settings from WRITE_BUFFER_SIZE and WRITE_BUFFER_FLUSH_MS
+ */
+export function getWriteBufferConfig(): WriteBufferConfig {
+  return {
+    maxSize: Math.max(1, parseSetting(process.env.WRITE_BUFFER_SIZE, DEFAULTS.maxSize)),
+    flushMs: parseSetting(process.env.WRITE_BUFFER_FLUSH_MS, DEFAULTS.flushMs)
+  };
+}
+
+/**
+ * Create a write buffer
+ * @param runBatch Runs the writes of a flush in one transaction
+ * @param config Buffer settings
+ */
+export function createWriteBuffer(runBatch: BatchRunner, config: WriteBufferConfig): WriteBuffer {
+  let pending: PendingWrite[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  function flush(): void {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+
+    // Writes queued while a batch runs go into the next batch
+    while (pending.length > 0) {
+      const batch = pending;
+      pending = [];
+
+      let results: Array<{ value: unknown } | { error: unknown }>;
+      try {
+        results = runBatch(batch.map(entry => entry.write));
+      } catch (error) {
+        // The transaction itself failed, e.g. the database is locked
+        batch.forEach(entry => entry.reject(error));
+        continue;
+      }
+
+      results.forEach((result, index) => {
+        if ('error' in result) {
+          batch[index].reject(result.error);
+        } else {
+          batch[index].resolve(result.value);
+        }
+      });
+    }
+  }
+
+  function write<T>(write: () => T): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      pending.push({ write, resolve: resolve as (value: unknown) => void, reject });
+
+      if (pending.length >= config.maxSize) {
+        flush();
+      } else if (!timer) {
+        timer = setTimeout(flush, config.flushMs);
+      }
+    });
+  }
+
+  return {
+    write,
+    flush,
+    get size() {
+      return pending.length;
+    }
+  };
+}
+
+/**
+ * Flush the buffer when the process shuts down
+ *
+ * Writes are synchronous, so flushing in the exit handler still reaches the
+ * database. Signals are raised again after the flush unless another handler,
+ * such as the server's own graceful shutdown, takes care of them.
+ */
+export function flushOnShutdown(buffer: WriteBuffer): void {
+  process.once('exit', () => buffer.flush());
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      buffer.flush();
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal);
+      }
+    });
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Deduplication of beacons by their client-generated id
+ *
+ * The snippet gives every beacon a random id and sends it again unchanged
+ * when it retries, or when sendBeacon fails and it falls back to fetch. The
+ * ids stored in the last DEDUPE_WINDOW_MINUTES say whether a beacon was
+ * already stored and as which row, so a beacon is only stored once however
+ * often it arrives.
+ */
+import Database from 'better-sqlite3';
+import { prepareCached } from './statements';
+
+export interface DedupeConfig {
+  windowMs: number;   // How long ids are remembered, 0 disables deduplication
+}
+
+// Outcome of a write that may be a duplicate
+export interface WriteOnceResult<T> {
+  id: T | undefined;    // Row of the beacon, the earlier one for a duplicate
+  duplicate: boolean;
+}
+
+type ReceivedBeaconRow = { rowId: number | null };
+
+const DEFAULT_WINDOW_MINUTES = 24 * 60;
+
+let lastCleanup = 0;
+
+/**
+ * Deduplication window from DEDUPE_WINDOW_MINUTES, a day by default
+ */
+export function getDedupeConfig(): DedupeConfig {
+  const minutes = parseInt(process.env.DEDUPE_WINDOW_MINUTES || '', 10);
+  return { windowMs: (Number.isNaN(minutes) || minutes < 0 ? DEFAULT_WINDOW_MINUTES : minutes) * 60 * 1000 };
+}
+
+/**
+ * Run a write unless a beacon with the same id was stored within the window
+ *
+ * The id is claimed before the write, so with a write that runs in its own
+ * savepoint (see runBatch) a failing write releases it again and concurrent
+ * workers cannot both store the beacon.
+ */
+export function writeBeaconOnce<T extends number | undefined>(
+  db: Database.Database,
+  config: DedupeConfig,
+  siteId: string,
+  beaconId: string | undefined,
+  write: () => T,
+  now: number = Date.now()
+): WriteOnceResult<T> {
+  if (!beaconId || config.windowMs === 0) {
+    return { id: write(), duplicate: false };
+  }
+
+  const cutoff = now - config.windowMs;
+  if (now - lastCleanup > config.windowMs) {
+    lastCleanup = now;
+    prepareCached(db, 'DELETE FROM received_beacons WHERE received_at < ?').run(cutoff);
+  }
+
+  // Claims new ids and ids that are past the window
+  const claimed = prepareCached(db, `
+    INSERT INTO received_beacons (site_id, beacon_id, row_id, received_at) VALUES (?, ?, NULL, ?)
+    ON CONFLICT (site_id, beacon_id) DO UPDATE SET row_id = NULL, received_at = excluded.received_at
+    WHERE received_at < ?
+  `).run(siteId, beaconId, now, cutoff).changes > 0;
+
+  if (!claimed) {
+    const row = prepareCached(db, `
+      SELECT row_id as rowId FROM received_beacons WHERE site_id = ? AND beacon_id = ?
+    `).get(siteId, beaconId) as ReceivedBeaconRow;
+    return { id: (row.rowId === null ? undefined : row.rowId) as T | undefined, duplicate: true };
+  }
+
+  const id = write();
+  if (id !== undefined) {
+    prepareCached(db, `
+      UPDATE received_beacons SET row_id = ? WHERE site_id = ? AND beacon_id = ?
+    `).run(id, siteId, beaconId);
+  }
+
+  return { id, duplicate: false };
+}
@@ -0,0 +1,22 @@
+/**
+ * Web vital histogram buckets of the daily_vitals rollup
+ *
+ * Shared by lib/db/rollups.ts, which updates the rollup as web vitals are
+ * recorded, and by lib/db/rebuild.js, so it is plain CommonJS.
+ */
+
+// Width of a daily_vitals histogram bucket per metric. Every threshold in
+// METRIC_THRESHOLDS is a multiple of its bucket size, so ratings computed
+// from bucket upper bounds match ratings computed from exact values.
+const HISTOGRAM_BUCKET_SIZES = {
+  LCP: 10,
+  FID: 10,
+  INP: 10,
+  CLS: 0.005,
+  FCP: 10,
+  TTFB: 10
+};
+
+module.exports = {
+  HISTOGRAM_BUCKET_SIZES
+};
@@ -5,16 +5,75 @@ import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
 import {
+  SiteData,
+  ApiKeyData,
   PageviewData,
   WebVitalMetric,
   UserAgentData,
-  CustomEventData
+  CustomEventData,
+  PageviewStats,
+  ReferrerStats,
+  CampaignStats,
+  CampaignBreakdown,
+  LocationStats,
+  BotDetection,
+  BotReason,
+  BotStats,
+  Channel,
+  WebVitalName,
+  WebVitalRating,
+  WebVitalPercentile,
+  WebVitalReport
 } from '../types';
+import { ATTRIBUTED_METRICS, METRIC_THRESHOLDS } from './types';
+import { getWebVitalRating, extractUtmParams } from '../utils';
+import { classifyVisit } from '../referrers';
+import {
+  toRollupDate,
+  shouldUseRollups,
+  recordPageviewRollups,
+  recordWebVitalRollups,
+  recordEventRollups,
+  getRollupPageviewStats,
+  getRollupRoutePageStats,
+  getRollupSessionStats,
+  getRollupReferrerStats,
+  getRollupCampaignStats,
+  getRollupLocationStats,
+  getRollupDeviceStats,
+  getRollupWebVitalMetrics,
+  getRollupEventCounts
+} from './rollups';
+import { getRetentionConfig, startRetentionJob } from './retention';
+import { migrate } from './migrate';
+import { getPageUrlConfig, classifyPageUrl } from './pages';
+import { prepareCached } from './statements';
+import { createWriteBuffer, getWriteBufferConfig, flushOnShutdown } from './buffer';
+import { getDedupeConfig, writeBeaconOnce, WriteOnceResult } from './dedupe';
 
 // Get database path from environment or use default
 const DB_PATH = process.env.DB_PATH || path.join(process.cwd(), 'data', 'analytics.db');
 const IP_HASH_SALT = process.env.IP_HASH_SALT || 'default-salt-change-me';
 
+// Custom events counted as campaign conversions, all events when empty
+const CONVERSION_EVENTS = (process.env.CONVERSION_EVENTS || '')
+  .split(',')
+  .map(name => name.trim())
+  .filter(Boolean);
+
+// Retention periods, also used to decide when queries need the daily rollups
+const RETENTION = getRetentionConfig();
+
+// Page URL normalization and route patterns
+const PAGE_URLS = getPageUrlConfig();
+
+// Site used when a beacon does not carry a site identifier
+export const DEFAULT_SITE_ID = 'default';
+
+// Ids of seen user agents, keyed by their parsed fields
+const USER_AGENT_CACHE_SIZE = 10000;
+const userAgentIds = new Map<string, number>();
+
 // Ensure data directory exists
 const dataDir = path.dirname(DB_PATH);
 if (!fs.existsSync(dataDir)) {
@@ -28,13 +87,44 @@ let db: Database.Database;
 type CountResult = { count: number };
 type DateCountResult = { date: string; count: number };
 type PageCountResult = { page: string; count: number };
+type PageRouteCountResult = { page: string; isRoute: number; count: number };
 type ReferrerCountResult = { referrer: string; count: number };
+type ChannelCountResult = { channel: Channel; count: number };
+type BotAgentCountResult = { agent: string; reason: BotReason; count: number };
+type BotReasonCountResult = { reason: BotReason; count: number };
+type CountryCountResult = { country: string; count: number };
+type RegionCountResult = { country: string; region: string; count: number };
+type CityCountResult = { country: string; region: string | null; city: string; count: number };
 type BrowserCountResult = { browser: string; count: number };
 type OSCountResult = { os: string; count: number };
 type DeviceTypeCountResult = { deviceType: string; count: number };
-type MetricNameResult = { metric_name: string };
-type MetricValueResult = { metric_value: number };
-type AverageResult = { average: number };
+type MetricPercentileResult = {
+  name: WebVitalName;
+  average: number;
+  median: number;
+  p75: number;
+  p95: number;
+};
+type GroupPercentileResult = {
+  name: WebVitalName;
+  groupKey: string;
+  p75: number;
+  count: number;
+};
+type RatingDistributionResult = {
+  name: WebVitalName;
+  good: number;
+  needsImprovement: number;
+  poor: number;
+  count: number;
+};
+type WorstPageResult = {
+  name: WebVitalName;
+  pageUrl: string;
+  attribution: string;
+  average: number;
+  count: number;
+};
 type EventNameCountResult = { eventName: string; count: number };
 type RecentEventResult = {
   eventName: string;
@@ -42,7 +132,31 @@ type RecentEventResult = {
   pageUrl: string;
   eventData: string | null;
 };
+type SessionAggregateResult = {
+  sessions: number;
+  bounces: number | null;
+  pagesPerSession: number | null;
+  avgDuration: number | null;
+};
 type UserAgentResult = { id: number };
+type PageviewIdResult = { id: number };
+type SiteResult = {
+  id: string;
+  name: string;
+  domain: string | null;
+  allowedHosts: string | null;
+  token: string | null;
+  createdAt: number;
+};
+type ApiKeyResult = {
+  id: number;
+  siteId: string;
+  name: string;
+  prefix: string;
+  createdAt: number;
+  lastUsedAt: number | null;
+  revokedAt: number | null;
+};
 
 /**
  * Initialize database connection and schema
@@ -57,15 +171,14 @@ export function getDb(): Database.Database {
     // Enable foreign keys
     db.pragma('foreign_keys = ON');
 
-    // Check if tables exist, if not create them
-    const tableExists = db.prepare(
-      "SELECT name FROM sqlite_master WHERE type='table' AND name='pageviews'"
-    ).get() as { name: string } | undefined;
-
-    if (!tableExists) {
-      const schema = fs.readFileSync(path.join(process.cwd(), 'schema.sql'), 'utf8');
-      db.exec(schema);
+    // Create or upgrade the schema
+    const { from, to, applied } = migrate(db);
+    if (from > 0 && applied.length > 0) {
+      console.log(`Upgraded database schema from version ${from} to ${to}: ${applied.join(', ')}`);
     }
+
+    // Purge expired data periodically
+    startRetentionJob(db);
   }
 
   return db;
@@ -82,23 +195,228 @@ export function hashIp(ip: string): string {
     .digest('hex');
 }
 
+/**
+ * Map a site row to its public shape
+ */
+function toSiteData(row: SiteResult): SiteData {
+  return {
+    id: row.id,
+    name: row.name,
+    domain: row.domain || undefined,
+    allowedHosts: row.allowedHosts ? JSON.parse(row.allowedHosts) : [],
+    token: row.token || undefined,
+    createdAt: row.createdAt
+  };
+}
+
+/**
+ * Get a site by its identifier
+ */
+export function getSite(siteId: string): SiteData | undefined {
+  const db = getDb();
+
+  const row = db.prepare(`
+    SELECT id, name, domain, allowed_hosts as allowedHosts, token, created_at as createdAt
+    FROM sites
+    WHERE id = ?
+  `).get(siteId) as SiteResult | undefined;
+
+  return row ? toSiteData(row) : undefined;
+}
+
+/**
+ * Get all sites
+ */
+export function getSites(): SiteData[] {
+  const db = getDb();
+
+  const rows = db.prepare(`
+    SELECT id, name, domain, allowed_hosts as allowedHosts, token, created_at as createdAt
+    FROM sites
+    ORDER BY name
+  `).all() as SiteResult[];
+
+  return rows.map(toSiteData);
+}
+
+/**
+ * Insert site record
+ */
+export function insertSite(site: {
+  id: string;
+  name: string;
+  domain?: string;
+  allowedHosts?: string[];
+  token?: string;
+}): SiteData {
+  const db = getDb();
+  const createdAt = Date.now();
+  const allowedHosts = site.allowedHosts || [];
+
+  db.prepare(`
+    INSERT INTO sites (
+      id,
+      name,
+      domain,
+      allowed_hosts,
+      token,
+      created_at
+    ) VALUES (?, ?, ?, ?, ?, ?)
+  `).run(
+    site.id,
+    site.name,
+    site.domain || null,
+    allowedHosts.length > 0 ? JSON.stringify(allowedHosts) : null,
+    site.token || null,
+    createdAt
+  );
+
+  return {
+    id: site.id,
+    name: site.name,
+    domain: site.domain,
+    allowedHosts,
+    token: site.token,
+    createdAt
+  };
+}
+
+/**
+ * Update the settings of a site, fields left undefined are kept and null clears them
+ * @returns The updated site, undefined when it does not exist
+ */
+export function updateSite(siteId: string, changes: {
+  name?: string;
+  domain?: string | null;
+  allowedHosts?: string[];
+  token?: string | null;
+}): SiteData | undefined {
+  const db = getDb();
+
+  const columns: string[] = [];
+  const values: Array<string | null> = [];
+  const set = (column: string, value: string | null) => {
+    columns.push(`${column} = ?`);
+    values.push(value);
+  };
+
+  if (changes.name !== undefined) {
+    set('name', changes.name);
+  }
+  if (changes.domain !== undefined) {
+    set('domain', changes.domain || null);
+  }
+  if (changes.allowedHosts !== undefined) {
+    set('allowed_hosts', changes.allowedHosts.length > 0 ? JSON.stringify(changes.allowedHosts) : null);
+  }
+  if (changes.token !== undefined) {
+    set('token', changes.token || null);
+  }
+
+  if (columns.length > 0) {
+    db.prepare(`UPDATE sites SET ${columns.join(', ')} WHERE id = ?`).run(...values, siteId);
+  }
+
+  return getSite(siteId);
+}
+
+// Columns of an API key in its public shape
+const API_KEY_COLUMNS = `
+  id, site_id as siteId, name, key_prefix as prefix,
+  created_at as createdAt, last_used_at as lastUsedAt, revoked_at as revokedAt
+`;
+
+/**
+ * Map an API key row to its public shape
+ */
+function toApiKeyData(row: ApiKeyResult): ApiKeyData {
+  return {
+    id: row.id,
+    siteId: row.siteId,
+    name: row.name,
+    prefix: row.prefix,
+    createdAt: row.createdAt,
+    lastUsedAt: row.lastUsedAt || undefined,
+    revokedAt: row.revokedAt || undefined
+  };
+}
+
+/**
+ * Store a new API key by its hash
+ */
+export function insertApiKey(apiKey: { siteId: string; name: string; prefix: string; hash: string }): ApiKeyData {
+  const db = getDb();
+  const createdAt = Date.now();
+
+  const result = db.prepare(`
+    INSERT INTO api_keys (site_id, name, key_prefix, key_hash, created_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(apiKey.siteId, apiKey.name, apiKey.prefix, apiKey.hash, createdAt);
+
+  return {
+    id: result.lastInsertRowid as number,
+    siteId: apiKey.siteId,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    createdAt
+  };
+}
+
+/**
+ * Get the API keys of a site, or of all sites, revoked keys included
+ */
+export function getApiKeys(siteId?: string): ApiKeyData[] {
+  const db = getDb();
+
+  const rows = (siteId
+    ? db.prepare(`SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE site_id = ? ORDER BY id`).all(siteId)
+    : db.prepare(`SELECT ${API_KEY_COLUMNS} FROM api_keys ORDER BY id`).all()) as ApiKeyResult[];
+
+  return rows.map(toApiKeyData);
+}
+
+/**
+ * Find the API key with a hash, undefined when there is none or it was revoked
+ */
+export function findApiKey(hash: string): ApiKeyData | undefined {
+  const db = getDb();
+
+  const row = prepareCached(db, `
+    SELECT ${API_KEY_COLUMNS}
+    FROM api_keys
+    WHERE key_hash = ? AND revoked_at IS NULL
+  `).get(hash) as ApiKeyResult | undefined;
+
+  return row ? toApiKeyData(row) : undefined;
+}
+
+/**
+ * Record when an API key was last used
+ */
+export function touchApiKey(id: number, timestamp: number): void {
+  prepareCached(getDb(), 'UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(timestamp, id);
+}
+
+/**
+ * Revoke an API key, it is kept to show when it was used
+ * @returns Whether an active key was revoked
+ */
+export function revokeApiKey(id: number): boolean {
+  const db = getDb();
+
+  const result = db.prepare('UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL').run(Date.now(), id);
+  return result.changes > 0;
+}
+
 /**
  * Insert or get user agent record
+ *
+ * Ids of known user agents are cached. A cached id is still looked up by
+ * its primary key, since the retention purge removes unused user agents.
  */
 export function insertUserAgent(userAgentData: UserAgentData): number {
   const db = getDb();
-
-  // Check if user agent already exists
-  const existingUserAgent = db.prepare(`
-    SELECT id FROM user_agents 
-    WHERE browser = ? 
-    AND browser_version = ? 
-    AND os = ? 
-    AND os_version = ? 
-    AND device_type = ? 
-    AND device_vendor = ? 
-    AND device_model = ?
-  `).get(
+  const values = [
     userAgentData.browser,
     userAgentData.browserVersion || null,
     userAgentData.os || null,
@@ -106,139 +424,333 @@ export function insertUserAgent(userAgentData: UserAgentData): number {
     userAgentData.deviceType || null,
     userAgentData.deviceVendor || null,
     userAgentData.deviceModel || null
-  ) as UserAgentResult | undefined;
+  ];
+
+  const key = JSON.stringify(values);
+  const cachedId = userAgentIds.get(key);
+  if (cachedId !== undefined && prepareCached(db, 'SELECT 1 FROM user_agents WHERE id = ?').get(cachedId)) {
+    return cachedId;
+  }
 
+  // Check if user agent already exists
+  const existingUserAgent = prepareCached(db, `
+    SELECT id FROM user_agents 
+    WHERE browser = ? 
+    AND browser_version IS ? 
+    AND os IS ? 
+    AND os_version IS ? 
+    AND device_type IS ? 
+    AND device_vendor IS ? 
+    AND device_model IS ?
+  `).get(...values) as UserAgentResult | undefined;
+
+  let id: number;
   if (existingUserAgent && typeof existingUserAgent.id === 'number') {
-    return existingUserAgent.id;
+    id = existingUserAgent.id;
+  } else {
+    // Insert new user agent
+    const result = prepareCached(db, `
+      INSERT INTO user_agents (
+        browser, 
+        browser_version, 
+        os, 
+        os_version, 
+        device_type, 
+        device_vendor, 
+        device_model
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(...values);
+    id = result.lastInsertRowid as number;
   }
 
-  // Insert new user agent
-  const result = db.prepare(`
-    INSERT INTO user_agents (
-      browser, 
-      browser_version, 
-      os, 
-      os_version, 
-      device_type, 
-      device_vendor, 
-      device_model
-    ) VALUES (?, ?, ?, ?, ?, ?, ?)
-  `).run(
-    userAgentData.browser,
-    userAgentData.browserVersion || null,
-    userAgentData.os || null,
-    userAgentData.osVersion || null,
-    userAgentData.deviceType || null,
-    userAgentData.deviceVendor || null,
-    userAgentData.deviceModel || null
-  );
+  if (userAgentIds.size >= USER_AGENT_CACHE_SIZE) {
+    userAgentIds.clear();
+  }
+  userAgentIds.set(key, id);
 
-  return result.lastInsertRowid as number;
+  return id;
 }
 
 /**
- * Insert pageview record
+ * Insert pageview record and update the daily rollups
+ *
+ * UTM campaign parameters are extracted from the page URL into their own
+ * columns; the URL itself is stored unchanged, next to its normalized path
+ * and route pattern. The referrer is classified into a source and channel,
+ * see classifyVisit.
  */
 export function insertPageview(pageviewData: PageviewData, ipAddress: string, userAgentId: number): number {
   const db = getDb();
+  const ipHash = hashIp(ipAddress);
+  const utm = extractUtmParams(pageviewData.pageUrl);
+  const page = classifyPageUrl(pageviewData.pageUrl, PAGE_URLS);
 
-  const result = db.prepare(`
-    INSERT INTO pageviews (
-      page_url, 
-      timestamp, 
-      session_id, 
-      referrer, 
-      ip_hash, 
-      user_agent_id
-    ) VALUES (?, ?, ?, ?, ?, ?)
-  `).run(
-    pageviewData.pageUrl,
-    pageviewData.timestamp,
-    pageviewData.sessionId,
-    pageviewData.referrer || null,
-    hashIp(ipAddress),
-    userAgentId
-  );
+  const insert = db.transaction(() => {
+    const previous = prepareCached(db, `
+      SELECT id FROM pageviews WHERE site_id = ? AND session_id = ? LIMIT 1
+    `).get(pageviewData.siteId, pageviewData.sessionId) as PageviewIdResult | undefined;
+
+    const visit = classifyVisit({
+      referrer: pageviewData.referrer,
+      pageUrl: pageviewData.pageUrl,
+      hostname: pageviewData.hostname,
+      isLanding: !previous
+    }, utm);
+
+    recordPageviewRollups(db, pageviewData, ipHash, userAgentId, utm, visit, page);
+
+    return prepareCached(db, `
+      INSERT INTO pageviews (
+        site_id, 
+        page_url, 
+        page_path, 
+        page_route, 
+        timestamp, 
+        session_id, 
+        referrer, 
+        referrer_source, 
+        channel, 
+        ip_hash, 
+        user_agent_id, 
+        utm_source, 
+        utm_medium, 
+        utm_campaign, 
+        utm_term, 
+        utm_content, 
+        country, 
+        region, 
+        city
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      pageviewData.siteId,
+      pageviewData.pageUrl,
+      page.path,
+      page.route,
+      pageviewData.timestamp,
+      pageviewData.sessionId,
+      pageviewData.referrer || null,
+      visit.source,
+      visit.channel,
+      ipHash,
+      userAgentId,
+      utm.source || null,
+      utm.medium || null,
+      utm.campaign || null,
+      utm.term || null,
+      utm.content || null,
+      pageviewData.location?.country || null,
+      pageviewData.location?.region || null,
+      pageviewData.location?.city || null
+    );
+  });
 
-  return result.lastInsertRowid as number;
+  return insert().lastInsertRowid as number;
+}
+
+/**
+ * Find the most recent pageview of a page within a session
+ */
+export function findPageviewId(siteId: string, sessionId: string, pageUrl: string): number | undefined {
+  const db = getDb();
+
+  const row = prepareCached(db, `
+    SELECT id FROM pageviews 
+    WHERE site_id = ? AND session_id = ? AND page_url = ? 
+    ORDER BY timestamp DESC 
+    LIMIT 1
+  `).get(siteId, sessionId, pageUrl) as PageviewIdResult | undefined;
+
+  return row ? row.id : undefined;
 }
 
 /**
  * Insert web vital metrics
  */
-export function insertWebVitals(webVitals: WebVitalMetric[], sessionId: string, pageUrl: string): void {
+export function insertWebVitals(
+  webVitals: WebVitalMetric[],
+  sessionId: string,
+  pageUrl: string,
+  siteId: string = DEFAULT_SITE_ID,
+  pageviewId?: number,
+  timestamp: number = Date.now()
+): void {
   const db = getDb();
 
-  const stmt = db.prepare(`
+  const stmt = prepareCached(db, `
     INSERT INTO web_vitals (
+      site_id, 
+      pageview_id, 
       session_id, 
       page_url, 
       timestamp, 
       metric_name, 
       metric_value, 
-      metric_rating
-    ) VALUES (?, ?, ?, ?, ?, ?)
+      metric_rating, 
+      attribution
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
-  const timestamp = Date.now();
-
   // Use transaction for better performance
   const insertMany = db.transaction((items: WebVitalMetric[]) => {
     for (const item of items) {
       stmt.run(
+        siteId,
+        pageviewId || null,
         sessionId,
         pageUrl,
         timestamp,
         item.name,
         item.value,
-        item.rating || null
+        item.rating || null,
+        item.attribution || null
       );
     }
+
+    recordWebVitalRollups(db, siteId, timestamp, items);
   });
 
   insertMany(webVitals);
 }
 
 /**
- * Insert custom event
+ * Insert custom event and update the daily rollup
  */
 export function insertCustomEvent(eventData: CustomEventData): number {
   const db = getDb();
 
-  const result = db.prepare(`
-    INSERT INTO custom_events (
-      session_id, 
-      page_url, 
-      timestamp, 
-      event_name, 
-      event_data
-    ) VALUES (?, ?, ?, ?, ?)
-  `).run(
-    eventData.sessionId,
-    eventData.pageUrl,
-    eventData.timestamp,
-    eventData.eventName,
-    eventData.eventData ? JSON.stringify(eventData.eventData) : null
-  );
+  const insert = db.transaction(() => {
+    recordEventRollups(db, eventData, CONVERSION_EVENTS);
+
+    return prepareCached(db, `
+      INSERT INTO custom_events (
+        site_id, 
+        session_id, 
+        page_url, 
+        timestamp, 
+        event_name, 
+        event_data
+      ) VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      eventData.siteId,
+      eventData.sessionId,
+      eventData.pageUrl,
+      eventData.timestamp,
+      eventData.eventName,
+      eventData.eventData ? JSON.stringify(eventData.eventData) : null
+    );
+  });
 
-  return result.lastInsertRowid as number;
+  return insert().lastInsertRowid as number;
+}
+
+/**
+ * Add time a page was visible to its most recent pageview in the session
+ * @returns The pageview, undefined when the session has no pageview of the page
+ */
+export function addEngagementTime(siteId: string, sessionId: string, pageUrl: string, engagedMs: number): number | undefined {
+  const db = getDb();
+
+  const pageviewId = findPageviewId(siteId, sessionId, pageUrl);
+  if (pageviewId) {
+    prepareCached(db, `
+      UPDATE pageviews SET engaged_ms = COALESCE(engaged_ms, 0) + ? WHERE id = ?
+    `).run(Math.round(engagedMs), pageviewId);
+  }
+
+  return pageviewId;
+}
+
+/**
+ * Run writes in a single transaction
+ *
+ * Every write runs in its own savepoint, so a failing write is rolled back
+ * and reported on its own while the others are committed together.
+ */
+export function runBatch<T>(writes: Array<() => T>): Array<{ value: T } | { error: unknown }> {
+  const db = getDb();
+
+  const run = db.transaction(() => writes.map(write => {
+    try {
+      return { value: db.transaction(write)() };
+    } catch (error) {
+      return { error };
+    }
+  }));
+
+  return run();
+}
+
+// How long beacon ids are remembered
+const DEDUPE = getDedupeConfig();
+
+/**
+ * Store a beacon unless one with the same id was stored recently
+ *
+ * Runs the write, or reports the row of the earlier beacon as a duplicate.
+ * Beacons without an id, e.g. from older snippets, are always stored.
+ */
+export function writeOnce<T extends number | undefined>(
+  siteId: string,
+  beaconId: string | undefined,
+  write: () => T
+): WriteOnceResult<T> {
+  return writeBeaconOnce(getDb(), DEDUPE, siteId, beaconId, write);
+}
+
+// Buffer of the ingestion writes, flushed with runBatch
+const writeBuffer = createWriteBuffer(runBatch, getWriteBufferConfig());
+flushOnShutdown(writeBuffer);
+
+/**
+ * Queue a write for the next batched transaction
+ *
+ * The returned promise settles with the write's result once the batch is
+ * committed. Writes run in the order they were queued, so a write can rely
+ * on an earlier one, e.g. a web vital on its pageview.
+ */
+export function bufferWrite<T>(write: () => T): Promise<T> {
+  return writeBuffer.write(write);
+}
+
+/**
+ * Commit all buffered writes now
+ */
+export function flushWrites(): void {
+  writeBuffer.flush();
+}
+
+/**
+ * Count a beacon filtered as bot traffic
+ */
+export function recordBotHit(siteId: string, bot: BotDetection, timestamp: number): void {
+  const db = getDb();
+
+  prepareCached(db, `
+    INSERT INTO bot_hits (site_id, date, agent, reason, count) 
+    VALUES (?, ?, ?, ?, 1) 
+    ON CONFLICT (site_id, date, agent, reason) DO UPDATE SET count = count + 1
+  `).run(siteId, toRollupDate(timestamp), bot.agent, bot.reason);
 }
 
 /**
  * Get pageview statistics
+ *
+ * Pages are grouped on their normalized path, or on their route pattern
+ * when they match one of PAGE_ROUTES.
  */
-export function getPageviewStats(startTime: number, endTime: number): {
-  total: number;
-  byDay: Array<{ date: string; count: number }>;
-  byPage: Array<{ page: string; count: number }>;
-} {
+export function getPageviewStats(siteId: string, startTime: number, endTime: number): PageviewStats {
   const db = getDb();
 
+  // Raw rows before the retention window are gone, so use the daily rollups
+  if (shouldUseRollups(startTime, RETENTION.pageviews)) {
+    return getRollupPageviewStats(db, siteId, startTime, endTime);
+  }
+
   // Get total pageviews
   const totalResult = db.prepare(`
     SELECT COUNT(*) as count FROM pageviews 
-    WHERE timestamp >= ? AND timestamp <= ?
-  `).get(startTime, endTime) as CountResult;
+    WHERE site_id = ? AND timestamp >= ? AND timestamp <= ?
+  `).get(siteId, startTime, endTime) as CountResult;
 
   const total = totalResult.count;
 
@@ -248,65 +760,279 @@ export function getPageviewStats(startTime: number, endTime: number): {
       date(timestamp/1000, 'unixepoch') as date, 
       COUNT(*) as count 
     FROM pageviews 
-    WHERE timestamp >= ? AND timestamp <= ? 
+    WHERE site_id = ? AND timestamp >= ? AND timestamp <= ? 
     GROUP BY date 
     ORDER BY date
-  `).all(startTime, endTime) as DateCountResult[];
+  `).all(siteId, startTime, endTime) as DateCountResult[];
 
-  // Get pageviews by page
+  // Get pageviews by page or route pattern
   const byPage = db.prepare(`
     SELECT 
-      page_url as page, 
+      COALESCE(page_route, page_path) as page, 
+      MAX(page_route IS NOT NULL) as isRoute, 
       COUNT(*) as count 
     FROM pageviews 
-    WHERE timestamp >= ? AND timestamp <= ? 
-    GROUP BY page_url 
+    WHERE site_id = ? AND timestamp >= ? AND timestamp <= ? 
+    GROUP BY 1 
     ORDER BY count DESC 
     LIMIT 10
-  `).all(startTime, endTime) as PageCountResult[];
+  `).all(siteId, startTime, endTime) as PageRouteCountResult[];
 
   return {
     total,
     byDay,
-    byPage
+    byPage: byPage.map(row => ({ page: row.page, count: row.count, isRoute: row.isRoute === 1 }))
   };
 }
 
 /**
- * Get referrer statistics
+ * Get pageviews of the pages grouped by a route pattern
+ */
+export function getRoutePageStats(siteId: string, route: string, startTime: number, endTime: number): Array<{ page: string; count: number }> {
+  const db = getDb();
+
+  // Raw rows before the retention window are gone, so use the daily rollups
+  if (shouldUseRollups(startTime, RETENTION.pageviews)) {
+    return getRollupRoutePageStats(db, siteId, route, startTime, endTime);
+  }
+
+  return db.prepare(`
+    SELECT 
+      page_path as page, 
+      COUNT(*) as count 
+    FROM pageviews 
+    WHERE site_id = ? AND timestamp >= ? AND timestamp <= ? AND page_route = ? 
+    GROUP BY page_path 
+    ORDER BY count DESC 
+    LIMIT 50
+  `).all(siteId, startTime, endTime, route) as PageCountResult[];
+}
+
+/**
+ * Get session statistics
+ *
+ * Sessions are derived from pageviews.session_id at query time. A session
+ * with a single pageview counts as a bounce, and its duration is the time
+ * between its first and last pageview. Unique visitors are counted per day
+ * from the anonymized IP hash plus user agent, then summed over the range.
+ * Ranges older than the raw data use the daily_sessions rollup instead.
  */
-export function getReferrerStats(startTime: number, endTime: number): {
-  byReferrer: Array<{ referrer: string; count: number }>;
+export function getSessionStats(siteId: string, startTime: number, endTime: number): {
+  uniqueSessions: number;
+  uniqueVisitors: number;
+  bounceRate: number;
+  pagesPerSession: number;
+  avgSessionDuration: number;
 } {
   const db = getDb();
 
-  // Get referrers
+  // Raw rows before the retention window are gone, so use the daily rollups
+  if (shouldUseRollups(startTime, RETENTION.pageviews)) {
+    return getRollupSessionStats(db, siteId, startTime, endTime);
+  }
+
+  // Aggregate pageviews per session
+  const sessionResult = db.prepare(`
+    SELECT 
+      COUNT(*) as sessions, 
+      SUM(CASE WHEN pageviews = 1 THEN 1 ELSE 0 END) as bounces, 
+      AVG(pageviews) as pagesPerSession, 
+      AVG(duration) as avgDuration 
+    FROM (
+      SELECT 
+        COUNT(*) as pageviews, 
+        MAX(timestamp) - MIN(timestamp) as duration 
+      FROM pageviews 
+      WHERE site_id = ? AND timestamp >= ? AND timestamp <= ? 
+      GROUP BY session_id
+    )
+  `).get(siteId, startTime, endTime) as SessionAggregateResult;
+
+  // Count distinct visitors per day
+  const visitorResult = db.prepare(`
+    SELECT COUNT(*) as count FROM (
+      SELECT DISTINCT 
+        date(timestamp/1000, 'unixepoch'), 
+        ip_hash, 
+        user_agent_id 
+      FROM pageviews 
+      WHERE site_id = ? AND timestamp >= ? AND timestamp <= ?
+    )
+  `).get(siteId, startTime, endTime) as CountResult;
+
+  const sessions = sessionResult.sessions;
+
+  return {
+    uniqueSessions: sessions,
+    uniqueVisitors: visitorResult.count,
+    bounceRate: sessions > 0 ? (sessionResult.bounces || 0) / sessions : 0,
+    pagesPerSession: sessionResult.pagesPerSession || 0,
+    avgSessionDuration: sessionResult.avgDuration || 0
+  };
+}
+
+/**
+ * Get referrer and channel statistics
+ *
+ * Counts visits, i.e. pageviews that have a channel; internal navigations
+ * are left out.
+ */
+export function getReferrerStats(siteId: string, startTime: number, endTime: number): ReferrerStats {
+  const db = getDb();
+
+  // Raw rows before the retention window are gone, so use the daily rollups
+  if (shouldUseRollups(startTime, RETENTION.pageviews)) {
+    return getRollupReferrerStats(db, siteId, startTime, endTime);
+  }
+
+  // Get referrer sources
   const byReferrer = db.prepare(`
     SELECT 
-      COALESCE(referrer, 'Direct') as referrer, 
+      COALESCE(referrer_source, 'Direct') as referrer, 
       COUNT(*) as count 
     FROM pageviews 
-    WHERE timestamp >= ? AND timestamp <= ? 
-    GROUP BY referrer 
+    WHERE site_id = ? AND timestamp >= ? AND timestamp <= ? AND channel IS NOT NULL 
+    GROUP BY 1 
     ORDER BY count DESC 
     LIMIT 10
-  `).all(startTime, endTime) as ReferrerCountResult[];
+  `).all(siteId, startTime, endTime) as ReferrerCountResult[];
+
+  // Get channels
+  const byChannel = db.prepare(`
+    SELECT 
+      channel, 
+      COUNT(*) as count 
+    FROM pageviews 
+    WHERE site_id = ? AND timestamp >= ? AND timestamp <= ? AND channel IS NOT NULL 
+    GROUP BY channel 
+    ORDER BY count DESC
+  `).all(siteId, startTime, endTime) as ChannelCountResult[];
 
   return {
-    byReferrer
+    byReferrer,
+    byChannel
+  };
+}
+
+/**
+ * Get campaign statistics
+ *
+ * Sessions are attributed to the UTM parameters of their landing pageview,
+ * and sessions without utm_source, utm_medium or utm_campaign are left out.
+ * A session converts when it has a custom event listed in CONVERSION_EVENTS,
+ * or any custom event when none are configured.
+ */
+export function getCampaignStats(siteId: string, startTime: number, endTime: number): CampaignStats {
+  const db = getDb();
+
+  // Raw rows before the retention window are gone, so use the daily rollups
+  if (shouldUseRollups(startTime, RETENTION.pageviews)) {
+    return getRollupCampaignStats(db, siteId, startTime, endTime);
+  }
+
+  const eventFilter = CONVERSION_EVENTS.length > 0
+    ? `AND event_name IN (${CONVERSION_EVENTS.map(() => '?').join(', ')})`
+    : '';
+
+  // Top 10 values of one UTM parameter of the landing pageviews
+  const topBy = (column: string) => db.prepare(`
+    WITH landings AS (
+      SELECT session_id, utm_source, utm_medium, utm_campaign FROM (
+        SELECT 
+          session_id, 
+          utm_source, 
+          utm_medium, 
+          utm_campaign, 
+          ROW_NUMBER() OVER (PARTITION BY session_id ORDER BY timestamp) as rn 
+        FROM pageviews 
+        WHERE site_id = ? AND timestamp >= ? AND timestamp <= ?
+      )
+      WHERE rn = 1 AND COALESCE(utm_source, utm_medium, utm_campaign) IS NOT NULL
+    ), conversions AS (
+      SELECT DISTINCT session_id FROM custom_events 
+      WHERE site_id = ? AND timestamp >= ? AND timestamp <= ? ${eventFilter}
+    )
+    SELECT 
+      COALESCE(l.${column}, '(not set)') as name, 
+      COUNT(*) as sessions, 
+      COUNT(c.session_id) as conversions 
+    FROM landings l
+    LEFT JOIN conversions c ON c.session_id = l.session_id
+    GROUP BY name 
+    ORDER BY sessions DESC, name 
+    LIMIT 10
+  `).all(siteId, startTime, endTime, siteId, startTime, endTime, ...CONVERSION_EVENTS) as CampaignBreakdown[];
+
+  return {
+    byCampaign: topBy('utm_campaign'),
+    bySource: topBy('utm_source'),
+    byMedium: topBy('utm_medium')
+  };
+}
+
+/**
+ * Get location statistics
+ *
+ * Sessions are located by their landing pageview, and sessions without a
+ * known country are left out. The map lists every country.
+ */
+export function getLocationStats(siteId: string, startTime: number, endTime: number): LocationStats {
+  const db = getDb();
+
+  // Raw rows before the retention window are gone, so use the daily rollups
+  if (shouldUseRollups(startTime, RETENTION.pageviews)) {
+    return getRollupLocationStats(db, siteId, startTime, endTime);
+  }
+
+  // Sessions per location of the landing pageviews
+  const groupBy = (columns: string[], limit: number) => db.prepare(`
+    WITH landings AS (
+      SELECT country, region, city FROM (
+        SELECT 
+          country, 
+          region, 
+          city, 
+          ROW_NUMBER() OVER (PARTITION BY session_id ORDER BY timestamp) as rn 
+        FROM pageviews 
+        WHERE site_id = ? AND timestamp >= ? AND timestamp <= ?
+      )
+      WHERE rn = 1 AND country IS NOT NULL
+    )
+    SELECT 
+      ${columns.join(', ')}, 
+      COUNT(*) as count 
+    FROM landings 
+    WHERE ${columns[columns.length - 1]} IS NOT NULL 
+    GROUP BY ${columns.join(', ')} 
+    ORDER BY count DESC, ${columns.join(', ')} 
+    ${limit > 0 ? `LIMIT ${limit}` : ''}
+  `).all(siteId, startTime, endTime);
+
+  const map = groupBy(['country'], 0) as CountryCountResult[];
+
+  return {
+    byCountry: map.slice(0, 10),
+    byRegion: groupBy(['country', 'region'], 10) as RegionCountResult[],
+    byCity: groupBy(['country', 'region', 'city'], 10) as CityCountResult[],
+    map
   };
 }
 
 /**
  * Get device statistics
  */
-export function getDeviceStats(startTime: number, endTime: number): {
+export function getDeviceStats(siteId: string, startTime: number, endTime: number): {
   byBrowser: Array<{ browser: string; count: number }>;
   byOS: Array<{ os: string; count: number }>;
   byDeviceType: Array<{ deviceType: string; count: number }>;
 } {
   const db = getDb();
 
+  // Raw rows before the retention window are gone, so use the daily rollups
+  if (shouldUseRollups(startTime, RETENTION.pageviews)) {
+    return getRollupDeviceStats(db, siteId, startTime, endTime);
+  }
+
   // Get browsers
   const byBrowser = db.prepare(`
     SELECT 
@@ -314,11 +1040,11 @@ export function getDeviceStats(startTime: number, endTime: number): {
       COUNT(*) as count 
     FROM pageviews p
     JOIN user_agents ua ON p.user_agent_id = ua.id
-    WHERE p.timestamp >= ? AND p.timestamp <= ? 
+    WHERE p.site_id = ? AND p.timestamp >= ? AND p.timestamp <= ? 
     GROUP BY ua.browser 
     ORDER BY count DESC 
     LIMIT 10
-  `).all(startTime, endTime) as BrowserCountResult[];
+  `).all(siteId, startTime, endTime) as BrowserCountResult[];
 
   // Get operating systems
   const byOS = db.prepare(`
@@ -327,11 +1053,11 @@ export function getDeviceStats(startTime: number, endTime: number): {
       COUNT(*) as count 
     FROM pageviews p
     JOIN user_agents ua ON p.user_agent_id = ua.id
-    WHERE p.timestamp >= ? AND p.timestamp <= ? 
+    WHERE p.site_id = ? AND p.timestamp >= ? AND p.timestamp <= ? 
     GROUP BY ua.os 
     ORDER BY count DESC 
     LIMIT 10
-  `).all(startTime, endTime) as OSCountResult[];
+  `).all(siteId, startTime, endTime) as OSCountResult[];
 
   // Get device types
   const byDeviceType = db.prepare(`
@@ -340,11 +1066,11 @@ export function getDeviceStats(startTime: number, endTime: number): {
       COUNT(*) as count 
     FROM pageviews p
     JOIN user_agents ua ON p.user_agent_id = ua.id
-    WHERE p.timestamp >= ? AND p.timestamp <= ? 
+    WHERE p.site_id = ? AND p.timestamp >= ? AND p.timestamp <= ? 
     GROUP BY ua.device_type 
     ORDER BY count DESC 
     LIMIT 10
-  `).all(startTime, endTime) as DeviceTypeCountResult[];
+  `).all(siteId, startTime, endTime) as DeviceTypeCountResult[];
 
   return {
     byBrowser,
@@ -356,81 +1082,210 @@ export function getDeviceStats(startTime: number, endTime: number): {
 /**
  * Get web vitals statistics
  */
-export function getWebVitalStats(startTime: number, endTime: number): {
+export function getWebVitalStats(siteId: string, startTime: number, endTime: number): {
   byMetric: Array<{
-    name: string;
+    name: WebVitalName;
     average: number;
     median: number;
     p75: number;
     p95: number;
-    rating: string;
+    rating: WebVitalRating;
+  }>;
+  worstPages: Array<{
+    name: WebVitalName;
+    pageUrl: string;
+    attribution: string;
+    average: number;
+    count: number;
   }>;
 } {
   const db = getDb();
 
-  // Get metrics
-  const metrics = db.prepare(`
-    SELECT DISTINCT metric_name FROM web_vitals
-    WHERE timestamp >= ? AND timestamp <= ?
-  `).all(startTime, endTime) as MetricNameResult[];
-
-  const byMetric = [];
-
-  for (const metric of metrics) {
-    const name = metric.metric_name;
-
-    // Get average
-    const avgResult = db.prepare(`
-      SELECT AVG(metric_value) as average FROM web_vitals
-      WHERE metric_name = ? AND timestamp >= ? AND timestamp <= ?
-    `).get(name, startTime, endTime) as AverageResult;
-
-    // Get all values for percentile calculations
-    const values = db.prepare(`
-      SELECT metric_value FROM web_vitals
-      WHERE metric_name = ? AND timestamp >= ? AND timestamp <= ?
-      ORDER BY metric_value
-    `).all(name, startTime, endTime) as MetricValueResult[];
-
-    // Calculate percentiles
-    const sortedValues = values.map(v => v.metric_value);
-    const median = calculatePercentile(sortedValues, 50);
-    const p75 = calculatePercentile(sortedValues, 75);
-    const p95 = calculatePercentile(sortedValues, 95);
-
-    // Determine rating based on metric
-    let rating = 'needs-improvement';
-    if (name === 'LCP') {
-      rating = median <= 2500 ? 'good' : (median <= 4000 ? 'needs-improvement' : 'poor');
-    } else if (name === 'FID') {
-      rating = median <= 100 ? 'good' : (median <= 300 ? 'needs-improvement' : 'poor');
-    } else if (name === 'CLS') {
-      rating = median <= 0.1 ? 'good' : (median <= 0.25 ? 'needs-improvement' : 'poor');
-    } else if (name === 'FCP') {
-      rating = median <= 1800 ? 'good' : (median <= 3000 ? 'needs-improvement' : 'poor');
-    } else if (name === 'TTFB') {
-      rating = median <= 800 ? 'good' : (median <= 1800 ? 'needs-improvement' : 'poor');
-    }
+  // Get average and percentiles of every metric in a single pass, from the
+  // daily histograms once the range starts before the retained raw data
+  const byMetric = shouldUseRollups(startTime, RETENTION.webVitals) ? getRollupWebVitalMetrics(db, siteId, startTime, endTime) : (db.prepare(`
+    ${rankedValuesCte('w.metric_name', "''", 'w.site_id = ? AND w.timestamp >= ? AND w.timestamp <= ?')}
+    SELECT 
+      name, 
+      AVG(value) as average, 
+      ${percentileSelect(50, 'median')}, 
+      ${percentileSelect(75, 'p75')}, 
+      ${percentileSelect(95, 'p95')} 
+    FROM ranked 
+    GROUP BY name
+  `).all(siteId, startTime, endTime) as MetricPercentileResult[]).map(metric => ({
+    // Determine rating based on metric thresholds
+    ...metric,
+    rating: getWebVitalRating(metric.name, metric.median)
+  }));
 
-    byMetric.push({
-      name,
-      average: avgResult.average,
-      median,
-      p75,
-      p95,
-      rating
-    });
+  // Get the slowest page/element combinations for attributed metrics
+  const worstPages = db.prepare(`
+    SELECT name, pageUrl, attribution, average, count FROM (
+      SELECT 
+        metric_name as name, 
+        page_url as pageUrl, 
+        attribution, 
+        AVG(metric_value) as average, 
+        COUNT(*) as count, 
+        ROW_NUMBER() OVER (PARTITION BY metric_name ORDER BY AVG(metric_value) DESC) as rank 
+      FROM web_vitals 
+      WHERE site_id = ? AND timestamp >= ? AND timestamp <= ? 
+      AND attribution IS NOT NULL 
+      AND metric_name IN (${ATTRIBUTED_METRICS.map(() => '?').join(', ')}) 
+      GROUP BY metric_name, page_url, attribution
+    )
+    WHERE rank <= 5
+    ORDER BY name, average DESC
+  `).all(siteId, startTime, endTime, ...ATTRIBUTED_METRICS) as WorstPageResult[];
+
+  return {
+    byMetric,
+    worstPages
+  };
+}
+
+/**
+ * SQL expression rating web_vitals.metric_value against METRIC_THRESHOLDS
+ */
+function ratingExpression(nameColumn: string, valueColumn: string): string {
+  const cases = Object.entries(METRIC_THRESHOLDS).map(([name, threshold]) =>
+    `WHEN '${name}' THEN CASE WHEN ${valueColumn} <= ${threshold.good} THEN 'good' ` +
+    `WHEN ${valueColumn} <= ${threshold.needsImprovement} THEN 'needs-improvement' ELSE 'poor' END`
+  );
+
+  return `CASE ${nameColumn} ${cases.join(' ')} ELSE 'needs-improvement' END`;
+}
+
+/**
+ * CTE ranking web vital values within each (metric, group) partition
+ *
+ * Percentiles are computed inside SQLite with window functions, so only one
+ * row per group is returned to Node instead of every measurement.
+ */
+function rankedValuesCte(nameColumn: string, groupExpression: string, where: string, joinUserAgents = false): string {
+  return `
+    WITH ranked AS (
+      SELECT 
+        ${nameColumn} as name, 
+        ${groupExpression} as groupKey, 
+        w.metric_value as value, 
+        ROW_NUMBER() OVER (PARTITION BY ${nameColumn}, ${groupExpression} ORDER BY w.metric_value) as rn, 
+        COUNT(*) OVER (PARTITION BY ${nameColumn}, ${groupExpression}) as n 
+      FROM web_vitals w
+      ${joinUserAgents ? `LEFT JOIN pageviews p ON p.id = w.pageview_id
+      LEFT JOIN user_agents ua ON ua.id = p.user_agent_id` : ''}
+      WHERE ${where}
+    )`;
+}
+
+/**
+ * Aggregate selecting the nearest-rank percentile from the ranked CTE
+ *
+ * The rank ceil(percentile * n / 100) is computed with integer arithmetic.
+ */
+function percentileSelect(percentile: number, alias: string): string {
+  return `MAX(CASE WHEN rn = (${percentile} * n + 99) / 100 THEN value END) as ${alias}`;
+}
+
+/**
+ * Get web vitals broken down by page, browser, device type and day
+ *
+ * Breakdowns are sorted by p75, slowest first, and can be narrowed to a
+ * single metric and/or page for drill-down.
+ */
+export function getWebVitalReport(
+  siteId: string,
+  startTime: number,
+  endTime: number,
+  filters: { metric?: WebVitalName; pageUrl?: string } = {}
+): WebVitalReport {
+  const db = getDb();
+
+  // Shared WHERE clause for the web_vitals table aliased as w
+  const conditions = ['w.site_id = ?', 'w.timestamp >= ?', 'w.timestamp <= ?'];
+  const params: Array<string | number> = [siteId, startTime, endTime];
+  if (filters.metric) {
+    conditions.push('w.metric_name = ?');
+    params.push(filters.metric);
   }
+  if (filters.pageUrl) {
+    conditions.push('w.page_url = ?');
+    params.push(filters.pageUrl);
+  }
+  const where = conditions.join(' AND ');
+
+  // p75 of each metric grouped by the given expression
+  const groupP75 = (groupExpression: string, joinUserAgents = false) => (db.prepare(`
+    ${rankedValuesCte('w.metric_name', groupExpression, where, joinUserAgents)}
+    SELECT 
+      name, 
+      groupKey, 
+      ${percentileSelect(75, 'p75')}, 
+      COUNT(*) as count 
+    FROM ranked 
+    GROUP BY name, groupKey 
+    ORDER BY name, groupKey
+  `).all(...params) as GroupPercentileResult[]).map(row => ({
+    ...row,
+    rating: getWebVitalRating(row.name, row.p75)
+  }));
+
+  const bySlowest = (a: WebVitalPercentile, b: WebVitalPercentile) =>
+    a.name === b.name ? b.p75 - a.p75 : a.name.localeCompare(b.name);
+
+  const byPage = groupP75('w.page_url')
+    .sort(bySlowest)
+    .map(({ groupKey, ...stats }) => ({ ...stats, pageUrl: groupKey }));
+
+  const byBrowser = groupP75("COALESCE(ua.browser, 'Unknown')", true)
+    .sort(bySlowest)
+    .map(({ groupKey, ...stats }) => ({ ...stats, browser: groupKey }));
+
+  const byDeviceType = groupP75("COALESCE(ua.device_type, 'Unknown')", true)
+    .sort(bySlowest)
+    .map(({ groupKey, ...stats }) => ({ ...stats, deviceType: groupKey }));
+
+  // Daily p75 per metric, oldest first
+  const trend = groupP75("date(w.timestamp/1000, 'unixepoch')")
+    .map(({ groupKey, ...stats }) => ({ ...stats, date: groupKey }));
+
+  // Share of good / needs-improvement / poor samples per metric
+  const distribution = (db.prepare(`
+    SELECT 
+      name, 
+      SUM(CASE WHEN rating = 'good' THEN 1 ELSE 0 END) as good, 
+      SUM(CASE WHEN rating = 'needs-improvement' THEN 1 ELSE 0 END) as needsImprovement, 
+      SUM(CASE WHEN rating = 'poor' THEN 1 ELSE 0 END) as poor, 
+      COUNT(*) as count 
+    FROM (
+      SELECT w.metric_name as name, ${ratingExpression('w.metric_name', 'w.metric_value')} as rating 
+      FROM web_vitals w 
+      WHERE ${where}
+    )
+    GROUP BY name 
+    ORDER BY name
+  `).all(...params) as RatingDistributionResult[]).map(row => ({
+    name: row.name,
+    good: row.good / row.count,
+    needsImprovement: row.needsImprovement / row.count,
+    poor: row.poor / row.count,
+    count: row.count
+  }));
 
   return {
-    byMetric
+    byPage,
+    byBrowser,
+    byDeviceType,
+    trend,
+    distribution
   };
 }
 
 /**
  * Get custom event statistics
  */
-export function getCustomEventStats(startTime: number, endTime: number): {
+export function getCustomEventStats(siteId: string, startTime: number, endTime: number): {
   byEvent: Array<{ eventName: string; count: number }>;
   recent: Array<{
     eventName: string;
@@ -442,16 +1297,16 @@ export function getCustomEventStats(startTime: number, endTime: number): {
   const db = getDb();
 
   // Get event counts
-  const byEvent = db.prepare(`
+  const byEvent = shouldUseRollups(startTime, RETENTION.customEvents) ? getRollupEventCounts(db, siteId, startTime, endTime) : db.prepare(`
     SELECT 
       event_name as eventName, 
       COUNT(*) as count 
     FROM custom_events 
-    WHERE timestamp >= ? AND timestamp <= ? 
+    WHERE site_id = ? AND timestamp >= ? AND timestamp <= ? 
     GROUP BY event_name 
     ORDER BY count DESC 
     LIMIT 10
-  `).all(startTime, endTime) as EventNameCountResult[];
+  `).all(siteId, startTime, endTime) as EventNameCountResult[];
 
   // Get recent events
   const recentEvents = db.prepare(`
@@ -461,10 +1316,10 @@ export function getCustomEventStats(startTime: number, endTime: number): {
       page_url as pageUrl, 
       event_data as eventData
     FROM custom_events 
-    WHERE timestamp >= ? AND timestamp <= ? 
+    WHERE site_id = ? AND timestamp >= ? AND timestamp <= ? 
     ORDER BY timestamp DESC 
     LIMIT 20
-  `).all(startTime, endTime) as RecentEventResult[];
+  `).all(siteId, startTime, endTime) as RecentEventResult[];
 
   // Parse JSON event data
   const recent = recentEvents.map(event => ({
@@ -479,25 +1334,58 @@ export function getCustomEventStats(startTime: number, endTime: number): {
 }
 
 /**
- * Calculate percentile from sorted array
+ * Get statistics of the beacons filtered as bot traffic
+ *
+ * Bot hits are only counted per day, so whole days are reported.
  */
-function calculatePercentile(sortedArray: number[], percentile: number): number {
-  if (sortedArray.length === 0) return 0;
+export function getBotStats(siteId: string, startTime: number, endTime: number): BotStats {
+  const db = getDb();
+  const params = [siteId, toRollupDate(startTime), toRollupDate(endTime)];
+
+  const byAgent = db.prepare(`
+    SELECT 
+      agent, 
+      reason, 
+      SUM(count) as count 
+    FROM bot_hits 
+    WHERE site_id = ? AND date >= ? AND date <= ? 
+    GROUP BY agent, reason 
+    ORDER BY count DESC, agent 
+    LIMIT 10
+  `).all(...params) as BotAgentCountResult[];
 
-  const index = Math.ceil((percentile / 100) * sortedArray.length) - 1;
-  return sortedArray[Math.max(0, Math.min(sortedArray.length - 1, index))];
+  const byReason = db.prepare(`
+    SELECT 
+      reason, 
+      SUM(count) as count 
+    FROM bot_hits 
+    WHERE site_id = ? AND date >= ? AND date <= ? 
+    GROUP BY reason 
+    ORDER BY count DESC, reason
+  `).all(...params) as BotReasonCountResult[];
+
+  return {
+    total: byReason.reduce((total, row) => total + row.count, 0),
+    byAgent,
+    byReason
+  };
 }
 
 /**
  * Get all dashboard data
  */
-export function getDashboardData(startTime: number, endTime: number) {
+export function getDashboardData(site: SiteData, startTime: number, endTime: number) {
   return {
-    pageviews: getPageviewStats(startTime, endTime),
-    referrers: getReferrerStats(startTime, endTime),
-    devices: getDeviceStats(startTime, endTime),
-    webVitals: getWebVitalStats(startTime, endTime),
-    customEvents: getCustomEventStats(startTime, endTime),
+    site,
+    pageviews: getPageviewStats(site.id, startTime, endTime),
+    sessions: getSessionStats(site.id, startTime, endTime),
+    referrers: getReferrerStats(site.id, startTime, endTime),
+    campaigns: getCampaignStats(site.id, startTime, endTime),
+    locations: getLocationStats(site.id, startTime, endTime),
+    devices: getDeviceStats(site.id, startTime, endTime),
+    webVitals: getWebVitalStats(site.id, startTime, endTime),
+    customEvents: getCustomEventStats(site.id, startTime, endTime),
+    bots: getBotStats(site.id, startTime, endTime),
     timeRange: {
       start: startTime,
       end: endTime
@@ -0,0 +1,175 @@
+/**
+ * Versioned schema migrations
+ *
+ * Shared by getDb() and scripts/setup-db.js, so it is plain CommonJS.
+ *
+ * Migrations are the numbered SQL files in the migrations directory
+ * (e.g. 002_sites.sql). The number of the last applied migration is stored
+ * in PRAGMA user_version, and every pending migration is applied in its own
+ * transaction together with the version bump.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+// Directory holding the migration files
+const MIGRATIONS_DIR = path.join(process.cwd(), 'migrations');
+
+// Migration file names: version number, underscore, description
+const MIGRATION_FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+
+const hasTable = (db, name) =>
+  !!db.prepare("SELECT name FROM sqlite_master WHERE type='table' AND name=?").get(name);
+const hasIndex = (db, name) =>
+  !!db.prepare("SELECT name FROM sqlite_master WHERE type='index' AND name=?").get(name);
+const hasColumn = (db, table, name) =>
+  db.prepare(`PRAGMA table_info(${table})`).all().some(column => column.name === name);
+
+// Before migrations existed, the changes of migrations 2 to 6 were made to
+// schema.sql, so databases created from it have user_version 0 but may
+// already contain them. Newest first, the first match is the version of such
+// a database; repair adds what schema.sql did not have at the time.
+const LEGACY_SCHEMAS = [
+  { version: 6, matches: db => hasIndex(db, 'idx_pageviews_user_agent_id') },
+  { version: 5, matches: db => hasTable(db, 'daily_pages') },
+  {
+    version: 4,
+    matches: db => hasColumn(db, 'web_vitals', 'attribution'),
+    repair: 'CREATE INDEX IF NOT EXISTS idx_web_vitals_site_metric_timestamp ON web_vitals(site_id, metric_name, timestamp);'
+  },
+  { version: 3, matches: db => hasColumn(db, 'web_vitals', 'pageview_id') },
+  { version: 2, matches: db => hasTable(db, 'sites') },
+  { version: 1, matches: db => hasTable(db, 'pageviews') }
+];
+
+/**
+ * Read the migration files of a directory, ordered by version
+ * @param {string} dir Migrations directory
+ * @returns {Array<{ version: number, name: string, sql: string }>}
+ */
+function loadMigrations(dir = MIGRATIONS_DIR) {
+  const migrations = fs.readdirSync(dir)
+    .map(file => ({ file, match: MIGRATION_FILE_PATTERN.exec(file) }))
+    .filter(({ match }) => match)
+    .map(({ file, match }) => ({
+      version: parseInt(match[1], 10),
+      name: file.replace(/\.sql$/, ''),
+      sql: fs.readFileSync(path.join(dir, file), 'utf8')
+    }))
+    .sort((a, b) => a.version - b.version);
+
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(`Migration ${migration.name} is out of sequence, expected version ${index + 1}`);
+    }
+  });
+
+  return migrations;
+}
+
+/**
+ * Schema of a database created from schema.sql before migrations existed
+ * @param {import('better-sqlite3').Database} db Database connection
+ * @returns {{ version: number, repair?: string } | undefined}
+ */
+function getLegacySchema(db) {
+  if (db.pragma('user_version', { simple: true }) !== 0) {
+    return undefined;
+  }
+
+  return LEGACY_SCHEMAS.find(schema => schema.matches(db));
+}
+
+/**
+ * Schema version of a database
+ *
+ * Databases created from schema.sql before migrations existed have
+ * user_version 0 but already contain the initial schema, and possibly later
+ * changes, so they are reported as the version they match.
+ * @param {import('better-sqlite3').Database} db Database connection
+ * @returns {number}
+ */
+function getSchemaVersion(db) {
+  const version = db.pragma('user_version', { simple: true });
+  if (version !== 0) {
+    return version;
+  }
+
+  const legacy = getLegacySchema(db);
+  return legacy ? legacy.version : 0;
+}
+
+/**
+ * Apply pending migrations
+ *
+ * Foreign keys are disabled while migrating so columns referencing other
+ * tables can be added, and checked before each migration is committed.
+ * A dry run applies the pending migrations in a transaction that is rolled
+ * back, so the SQL is validated without changing the database.
+ * @param {import('better-sqlite3').Database} db Database connection
+ * @param {{ dryRun?: boolean, dir?: string }} options
+ * @returns {{ from: number, to: number, applied: string[] }} Versions and names of the applied migrations
+ */
+function migrate(db, options = {}) {
+  const migrations = loadMigrations(options.dir);
+  const from = getSchemaVersion(db);
+  const pending = migrations.filter(migration => migration.version > from);
+  const to = pending.length > 0 ? pending[pending.length - 1].version : from;
+
+  if (pending.length === 0) {
+    return { from, to, applied: [] };
+  }
+
+  // Complete a schema.sql database before the migrations after its version
+  const legacy = getLegacySchema(db);
+  const repair = () => {
+    if (legacy && legacy.repair) {
+      db.exec(legacy.repair);
+    }
+  };
+
+  const apply = migration => {
+    db.exec(migration.sql);
+
+    const violations = db.pragma('foreign_key_check');
+    if (violations.length > 0) {
+      throw new Error(`Migration ${migration.name} violates foreign key constraints`);
+    }
+
+    db.pragma(`user_version = ${migration.version}`);
+  };
+
+  const foreignKeys = db.pragma('foreign_keys', { simple: true });
+  db.pragma('foreign_keys = OFF');
+
+  try {
+    if (options.dryRun) {
+      const rollback = new Error('Dry run');
+      try {
+        db.transaction(() => {
+          repair();
+          pending.forEach(apply);
+          throw rollback;
+        })();
+      } catch (error) {
+        if (error !== rollback) {
+          throw error;
+        }
+      }
+    } else {
+      db.transaction(repair)();
+      pending.forEach(migration => db.transaction(apply)(migration));
+    }
+  } finally {
+    db.pragma(`foreign_keys = ${foreignKeys ? 'ON' : 'OFF'}`);
+  }
+
+  return { from, to, applied: pending.map(migration => migration.name) };
+}
+
+module.exports = {
+  MIGRATIONS_DIR,
+  loadMigrations,
+  getSchemaVersion,
+  migrate
+};
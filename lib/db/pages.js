@@ -0,0 +1,237 @@
+/**
+ * Page URL normalization and route patterns
+ *
+ * Shared by insertPageview() and scripts/rebuild-rollups.js, so it is plain
+ * CommonJS. Pageviews keep their raw page_url; page reports group on the
+ * normalized page_path, or on page_route when the path matches a pattern.
+ */
+
+// Hash fragments kept as part of the page, used by hash-based routers
+const HASH_ROUTE_PATTERN = /^#!?\//;
+
+/**
+ * Read a boolean setting from the environment
+ * @param {string} name Environment variable name
+ * @param {boolean} fallback Value used when the variable is unset
+ * @returns {boolean}
+ */
+function readFlag(name, fallback) {
+  const value = (process.env[name] || '').trim().toLowerCase();
+  if (!value) {
+    return fallback;
+  }
+  return !['false', '0', 'no', 'off'].includes(value);
+}
+
+/**
+ * Read a comma-separated list setting from the environment
+ * @param {string} name Environment variable name
+ * @returns {string[]}
+ */
+function readList(name) {
+  return (process.env[name] || '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Compile a route pattern such as /product/[id] or /docs/[...slug]
+ *
+ * [name] matches a single path segment and [...name] one or more segments.
+ * @param {string} pattern Route pattern
+ * @param {boolean} ignoreCase Match regardless of case
+ * @returns {{ pattern: string, regex: RegExp }}
+ */
+function compileRoutePattern(pattern, ignoreCase) {
+  const source = pattern
+    .split(/(\[(?:\.\.\.)?[^\]/]+\])/)
+    .map(part => {
+      if (/^\[\.\.\.[^\]/]+\]$/.test(part)) {
+        return '.+';
+      }
+      if (/^\[[^\]/]+\]$/.test(part)) {
+        return '[^/]+';
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return { pattern, regex: new RegExp(`^${source}$`, ignoreCase ? 'i' : '') };
+}
+
+/**
+ * Page URL settings from environment variables
+ *
+ * PAGE_QUERY_PARAMS lists the query parameters kept in page URLs; all are
+ * stripped when it is empty and all are kept when it is "*".
+ * @returns {{
+ *   queryParams: string[] | '*',
+ *   stripTrailingSlash: boolean,
+ *   lowercase: boolean,
+ *   routes: Array<{ pattern: string, regex: RegExp }>
+ * }}
+ */
+function getPageUrlConfig() {
+  const queryParams = readList('PAGE_QUERY_PARAMS');
+  const lowercase = readFlag('PAGE_LOWERCASE', true);
+
+  return {
+    queryParams: queryParams.includes('*') ? '*' : queryParams,
+    stripTrailingSlash: readFlag('PAGE_STRIP_TRAILING_SLASH', true),
+    lowercase,
+    routes: readList('PAGE_ROUTES').map(pattern => compileRoutePattern(pattern, lowercase))
+  };
+}
+
+/**
+ * Normalize a page URL: path and allowed query parameters, plus hash routes
+ * @param {string} pageUrl Page URL as sent by the tracking snippet
+ * @param {ReturnType<typeof getPageUrlConfig>} config Page URL settings
+ * @returns {string}
+ */
+function normalizePageUrl(pageUrl, config) {
+  let url;
+  try {
+    url = new URL(pageUrl, 'http://localhost');
+  } catch {
+    return pageUrl;
+  }
+
+  let pathname = url.pathname;
+  if (config.lowercase) {
+    pathname = pathname.toLowerCase();
+  }
+  if (config.stripTrailingSlash && pathname.length > 1) {
+    pathname = pathname.replace(/\/+$/, '') || '/';
+  }
+
+  let query = '';
+  if (config.queryParams === '*') {
+    query = url.search;
+  } else if (config.queryParams.length > 0) {
+    const params = new URLSearchParams();
+    url.searchParams.forEach((value, key) => {
+      if (config.queryParams.includes(key)) {
+        params.append(key, value);
+      }
+    });
+    query = params.toString() ? `?${params.toString()}` : '';
+  }
+
+  // Hash routes are normalized like the path, other fragments are dropped
+  let hash = '';
+  if (HASH_ROUTE_PATTERN.test(url.hash)) {
+    const prefix = url.hash.startsWith('#!') ? '#!' : '#';
+    hash = prefix + normalizePageUrl(url.hash.slice(prefix.length), config);
+  }
+
+  return pathname + query + hash;
+}
+
+/**
+ * First route pattern matching a normalized page URL, ignoring its query string
+ * @param {string} pagePath Normalized page URL
+ * @param {ReturnType<typeof getPageUrlConfig>} config Page URL settings
+ * @returns {string | null}
+ */
+function matchRoutePattern(pagePath, config) {
+  const queryStart = pagePath.indexOf('?');
+  const hashStart = pagePath.indexOf('#');
+  const routePath = queryStart === -1
+    ? pagePath
+    : pagePath.slice(0, queryStart) + (hashStart > queryStart ? pagePath.slice(hashStart) : '');
+
+  const route = config.routes.find(({ regex }) => regex.test(routePath));
+  return route ? route.pattern : null;
+}
+
+/**
+ * Normalized path and route pattern of a page URL
+ * @param {string} pageUrl Page URL as sent by the tracking snippet
+ * @param {ReturnType<typeof getPageUrlConfig>} config Page URL settings
+ * @returns {{ path: string, route: string | null }}
+ */
+function classifyPageUrl(pageUrl, config) {
+  const path = normalizePageUrl(pageUrl, config);
+  return { path, route: matchRoutePattern(path, config) };
+}
+
+/**
+ * Re-apply the page URL settings to stored pageviews and page rollups
+ *
+ * Raw pageviews are updated in chunks of batchSize rows. Page rollups are
+ * regrouped on the newly normalized paths, including days that no longer
+ * have raw data.
+ * @param {import('better-sqlite3').Database} db Database connection
+ * @param {ReturnType<typeof getPageUrlConfig>} config Page URL settings
+ * @param {{ batchSize?: number }} options
+ * @returns {{ pageviews: number, dailyPages: number }} Number of updated pageviews and rollup rows
+ */
+function normalizeStoredPages(db, config, options = {}) {
+  const batchSize = options.batchSize || 1000;
+  const cache = new Map();
+  const classify = pageUrl => {
+    if (!cache.has(pageUrl)) {
+      cache.set(pageUrl, classifyPageUrl(pageUrl, config));
+    }
+    return cache.get(pageUrl);
+  };
+
+  const select = db.prepare(`
+    SELECT id, page_url as pageUrl, page_path as pagePath, page_route as pageRoute
+    FROM pageviews
+    WHERE id > ?
+    ORDER BY id
+    LIMIT ?
+  `);
+  const update = db.prepare('UPDATE pageviews SET page_path = ?, page_route = ? WHERE id = ?');
+
+  let pageviews = 0;
+  let lastId = 0;
+  let rows;
+  do {
+    rows = select.all(lastId, batchSize);
+    db.transaction(() => {
+      rows.forEach(row => {
+        const { path, route } = classify(row.pageUrl);
+        if (path !== row.pagePath || route !== row.pageRoute) {
+          update.run(path, route, row.id);
+          pageviews++;
+        }
+      });
+    })();
+    lastId = rows.length > 0 ? rows[rows.length - 1].id : lastId;
+  } while (rows.length === batchSize);
+
+  // Rollup rows only know their page, so they are regrouped in one go
+  const dailyPages = db.transaction(() => {
+    const totals = new Map();
+    db.prepare('SELECT site_id as siteId, date, page_url as pageUrl, count FROM daily_pages').all().forEach(row => {
+      const { path, route } = classify(row.pageUrl);
+      const key = JSON.stringify([row.siteId, row.date, path]);
+      const total = totals.get(key) || { siteId: row.siteId, date: row.date, path, route, count: 0 };
+      total.count += row.count;
+      totals.set(key, total);
+    });
+
+    db.prepare('DELETE FROM daily_pages').run();
+    const insert = db.prepare('INSERT INTO daily_pages (site_id, date, page_url, route, count) VALUES (?, ?, ?, ?, ?)');
+    totals.forEach(total => {
+      insert.run(total.siteId, total.date, total.path, total.route, total.count);
+    });
+
+    return totals.size;
+  })();
+
+  return { pageviews, dailyPages };
+}
+
+module.exports = {
+  getPageUrlConfig,
+  compileRoutePattern,
+  normalizePageUrl,
+  matchRoutePattern,
+  classifyPageUrl,
+  normalizeStoredPages
+};
@@ -0,0 +1,250 @@
+/**
+ * Rebuild of the daily rollup tables from raw data
+ *
+ * Used by scripts/rebuild-rollups.js and scripts/remove-vitals-pageviews.js,
+ * so it is plain CommonJS.
+ *
+ * Every rollup table is recomputed from its own raw table only: pageview
+ * rollups from pageviews, daily_vitals from web_vitals and daily_events
+ * from custom_events. The retention purge deletes raw rows in chunks, so the
+ * day its cutoff falls on keeps only part of its raw rows. Only days that
+ * start at or after the raw table's retention cutoff are rebuilt; older days
+ * only exist completely as rollups and are never touched.
+ */
+
+const { HISTOGRAM_BUCKET_SIZES } = require('./histogram');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// UTC day of a raw row
+const DAY = "date(timestamp / 1000, 'unixepoch')";
+
+// Days being rebuilt, filled for one raw table at a time
+const REBUILD_DAYS = 'SELECT site_id, date FROM temp.rebuild_days';
+
+/**
+ * Custom events counted as campaign conversions, all events when empty
+ * @returns {string[]}
+ */
+function getConversionEvents() {
+  return (process.env.CONVERSION_EVENTS || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+}
+
+/**
+ * First UTC day whose raw rows are all within retention
+ * @param {number} retentionDays Retention period of the raw table, 0 keeps rows forever
+ * @param {number} now Current time
+ * @returns {string | null} Day as YYYY-MM-DD, null when every day is complete
+ */
+function getFirstCompleteDay(retentionDays, now) {
+  if (!retentionDays) {
+    return null;
+  }
+
+  const cutoff = now - retentionDays * DAY_MS;
+  return new Date(Math.ceil(cutoff / DAY_MS) * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Recompute the rollups of pageviews
+ */
+function rebuildPageviewRollups(db, conversionEvents) {
+  db.prepare(`
+    INSERT INTO daily_pages (site_id, date, page_url, route, count)
+    SELECT site_id, ${DAY}, page_path, MAX(page_route), COUNT(*)
+    FROM pageviews
+    WHERE (site_id, ${DAY}) IN (${REBUILD_DAYS})
+    GROUP BY 1, 2, 3
+  `).run();
+
+  // Internal navigations have no channel and are not visits
+  db.prepare(`
+    INSERT INTO daily_referrers (site_id, date, referrer, count)
+    SELECT site_id, ${DAY}, COALESCE(referrer_source, ''), COUNT(*)
+    FROM pageviews
+    WHERE channel IS NOT NULL AND (site_id, ${DAY}) IN (${REBUILD_DAYS})
+    GROUP BY 1, 2, 3
+  `).run();
+
+  db.prepare(`
+    INSERT INTO daily_channels (site_id, date, channel, count)
+    SELECT site_id, ${DAY}, channel, COUNT(*)
+    FROM pageviews
+    WHERE channel IS NOT NULL AND (site_id, ${DAY}) IN (${REBUILD_DAYS})
+    GROUP BY 1, 2, 3
+  `).run();
+
+  db.prepare(`
+    INSERT INTO daily_devices (site_id, date, browser, os, device_type, count)
+    SELECT p.site_id, date(p.timestamp / 1000, 'unixepoch'), ua.browser,
+      COALESCE(ua.os, 'Unknown'), COALESCE(ua.device_type, 'Unknown'), COUNT(*)
+    FROM pageviews p
+    JOIN user_agents ua ON ua.id = p.user_agent_id
+    WHERE (p.site_id, date(p.timestamp / 1000, 'unixepoch')) IN (${REBUILD_DAYS})
+    GROUP BY 1, 2, 3, 4, 5
+  `).run();
+
+  // Sessions belong to the day of their first pageview, visitors to every day they were seen
+  db.prepare(`
+    INSERT INTO daily_sessions (site_id, date, sessions, bounces, pageviews, duration_sum, visitors)
+    SELECT site_id, date, SUM(sessions), SUM(bounces), SUM(pageviews), SUM(duration_sum), SUM(visitors)
+    FROM (
+      SELECT
+        site_id,
+        date(MIN(timestamp) / 1000, 'unixepoch') as date,
+        1 as sessions,
+        CASE WHEN COUNT(*) = 1 THEN 1 ELSE 0 END as bounces,
+        COUNT(*) as pageviews,
+        MAX(timestamp) - MIN(timestamp) as duration_sum,
+        0 as visitors
+      FROM pageviews
+      GROUP BY site_id, session_id
+      UNION ALL
+      SELECT site_id, ${DAY}, 0, 0, 0, 0, COUNT(DISTINCT ip_hash || '|' || COALESCE(user_agent_id, ''))
+      FROM pageviews
+      GROUP BY 1, 2
+    )
+    WHERE (site_id, date) IN (${REBUILD_DAYS})
+    GROUP BY site_id, date
+  `).run();
+
+  // Sessions are attributed to the UTM parameters of their landing pageview
+  db.prepare(`
+    INSERT INTO daily_campaigns (site_id, date, source, medium, campaign, sessions, conversions)
+    SELECT l.site_id, date(l.timestamp / 1000, 'unixepoch'),
+      COALESCE(l.utm_source, ''), COALESCE(l.utm_medium, ''), COALESCE(l.utm_campaign, ''),
+      COUNT(*), COUNT(c.session_id)
+    FROM (
+      SELECT site_id, session_id, timestamp, utm_source, utm_medium, utm_campaign,
+        ROW_NUMBER() OVER (PARTITION BY site_id, session_id ORDER BY timestamp) as rn
+      FROM pageviews
+    ) l
+    LEFT JOIN (
+      SELECT DISTINCT site_id, session_id FROM custom_events
+      ${conversionEvents.length > 0 ? `WHERE event_name IN (${conversionEvents.map(() => '?').join(', ')})` : ''}
+    ) c ON c.site_id = l.site_id AND c.session_id = l.session_id
+    WHERE l.rn = 1 AND COALESCE(l.utm_source, l.utm_medium, l.utm_campaign) IS NOT NULL
+    AND (l.site_id, date(l.timestamp / 1000, 'unixepoch')) IN (${REBUILD_DAYS})
+    GROUP BY 1, 2, 3, 4, 5
+  `).run(...conversionEvents);
+
+  // Sessions are located by their landing pageview
+  db.prepare(`
+    INSERT INTO daily_locations (site_id, date, country, region, city, sessions)
+    SELECT site_id, date(timestamp / 1000, 'unixepoch'), country, COALESCE(region, ''), COALESCE(city, ''), COUNT(*)
+    FROM (
+      SELECT site_id, timestamp, country, region, city,
+        ROW_NUMBER() OVER (PARTITION BY site_id, session_id ORDER BY timestamp) as rn
+      FROM pageviews
+    )
+    WHERE rn = 1 AND country IS NOT NULL AND (site_id, ${DAY}) IN (${REBUILD_DAYS})
+    GROUP BY 1, 2, 3, 4, 5
+  `).run();
+}
+
+/**
+ * Recompute the histograms of web vitals
+ */
+function rebuildVitalRollups(db) {
+  const bucketCases = Object.entries(HISTOGRAM_BUCKET_SIZES)
+    .map(([name, size]) => `WHEN '${name}' THEN CAST(CEIL(metric_value / ${size} - 1e-9) AS INTEGER)`)
+    .join(' ');
+
+  db.prepare(`
+    INSERT INTO daily_vitals (site_id, date, metric_name, bucket, count, value_sum)
+    SELECT site_id, ${DAY}, metric_name, MAX(0, CASE metric_name ${bucketCases} END), COUNT(*), SUM(metric_value)
+    FROM web_vitals
+    WHERE metric_name IN (${Object.keys(HISTOGRAM_BUCKET_SIZES).map(name => `'${name}'`).join(', ')})
+    AND (site_id, ${DAY}) IN (${REBUILD_DAYS})
+    GROUP BY 1, 2, 3, 4
+  `).run();
+}
+
+/**
+ * Recompute the counts of custom events
+ */
+function rebuildEventRollups(db) {
+  db.prepare(`
+    INSERT INTO daily_events (site_id, date, event_name, count)
+    SELECT site_id, ${DAY}, event_name, COUNT(*)
+    FROM custom_events
+    WHERE (site_id, ${DAY}) IN (${REBUILD_DAYS})
+    GROUP BY 1, 2, 3
+  `).run();
+}
+
+// Rollup tables per raw table, with the retention setting of the raw table
+const REBUILD_SOURCES = [
+  {
+    table: 'pageviews',
+    setting: 'pageviews',
+    rollups: ['daily_pages', 'daily_referrers', 'daily_channels', 'daily_devices', 'daily_sessions', 'daily_campaigns', 'daily_locations'],
+    rebuild: rebuildPageviewRollups
+  },
+  { table: 'web_vitals', setting: 'webVitals', rollups: ['daily_vitals'], rebuild: rebuildVitalRollups },
+  { table: 'custom_events', setting: 'customEvents', rollups: ['daily_events'], rebuild: rebuildEventRollups }
+];
+
+/**
+ * Recompute the daily rollups of the days raw data fully covers
+ *
+ * Without options.days, every day that still has raw rows is rebuilt. With
+ * it, only the listed days are rebuilt, including days whose raw rows were
+ * all deleted. Days before the retention cutoff of a raw table are skipped
+ * either way.
+ * @param {import('better-sqlite3').Database} db Database connection
+ * @param {{ pageviews: number, webVitals: number, customEvents: number }} retention
+ *   Retention periods of the raw tables in days, see getRetentionConfig()
+ * @param {{ now?: number, days?: Array<{ siteId: string, date: string }> }} options
+ *   Current time, days to rebuild
+ * @returns {Array<{ table: string, firstDay: string | null, days: number }>}
+ *   Number of site days rebuilt per raw table, from its first complete day
+ */
+function rebuildRollups(db, retention, options = {}) {
+  const now = options.now || Date.now();
+  const conversionEvents = getConversionEvents();
+  const report = [];
+
+  db.exec('CREATE TEMP TABLE IF NOT EXISTS rebuild_days (site_id TEXT NOT NULL, date TEXT NOT NULL, PRIMARY KEY (site_id, date))');
+
+  const rebuild = db.transaction(() => {
+    for (const { table, setting, rollups, rebuild: rebuildTable } of REBUILD_SOURCES) {
+      const firstDay = getFirstCompleteDay(retention[setting], now);
+
+      db.exec('DELETE FROM temp.rebuild_days');
+      if (options.days) {
+        const insertDay = db.prepare('INSERT OR IGNORE INTO temp.rebuild_days (site_id, date) VALUES (?, ?)');
+        options.days
+          .filter(({ date }) => firstDay === null || date >= firstDay)
+          .forEach(({ siteId, date }) => insertDay.run(siteId, date));
+      } else {
+        db.prepare(`
+          INSERT INTO temp.rebuild_days (site_id, date)
+          SELECT DISTINCT site_id, ${DAY} FROM ${table}
+          WHERE timestamp >= ?
+        `).run(firstDay === null ? 0 : Date.parse(firstDay));
+      }
+
+      // Clear the rollup days that raw data recomputes
+      rollups.forEach(rollup => {
+        db.prepare(`DELETE FROM ${rollup} WHERE (site_id, date) IN (${REBUILD_DAYS})`).run();
+      });
+      rebuildTable(db, conversionEvents);
+
+      report.push({ table, firstDay, days: db.prepare('SELECT COUNT(*) as count FROM temp.rebuild_days').get().count });
+    }
+
+    db.exec('DELETE FROM temp.rebuild_days');
+  });
+
+  rebuild();
+  return report;
+}
+
+module.exports = {
+  getFirstCompleteDay,
+  rebuildRollups
+};
@@ -0,0 +1,190 @@
+/**
+ * Data retention for Lightweight Web Analytics
+ *
+ * Shared by the in-process retention job started from getDb() and by
+ * scripts/purge-data.js, so it is plain CommonJS.
+ *
+ * Expired rows are deleted in chunks of RETENTION_BATCH_SIZE rows. Every
+ * chunk is its own short write transaction, so tracking requests are never
+ * blocked for the duration of a whole purge.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Tables purged by age: raw tables by timestamp, rollups by UTC day
+const RETENTION_TABLES = [
+  { table: 'web_vitals', setting: 'webVitals', column: 'timestamp' },
+  { table: 'custom_events', setting: 'customEvents', column: 'timestamp' },
+  { table: 'pageviews', setting: 'pageviews', column: 'timestamp' },
+  { table: 'daily_pages', setting: 'rollups', column: 'date' },
+  { table: 'daily_referrers', setting: 'rollups', column: 'date' },
+  { table: 'daily_channels', setting: 'rollups', column: 'date' },
+  { table: 'daily_devices', setting: 'rollups', column: 'date' },
+  { table: 'daily_sessions', setting: 'rollups', column: 'date' },
+  { table: 'daily_events', setting: 'rollups', column: 'date' },
+  { table: 'daily_vitals', setting: 'rollups', column: 'date' },
+  { table: 'daily_campaigns', setting: 'rollups', column: 'date' },
+  { table: 'daily_locations', setting: 'rollups', column: 'date' },
+  { table: 'bot_hits', setting: 'rollups', column: 'date' }
+];
+
+/**
+ * Read a non-negative integer setting from the environment
+ * @param {string} name Environment variable name
+ * @param {number} fallback Value used when the variable is unset or invalid
+ * @returns {number}
+ */
+function readSetting(name, fallback) {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) || value < 0 ? fallback : value;
+}
+
+/**
+ * Retention settings from environment variables
+ *
+ * A retention period of 0 days keeps the data forever.
+ * @returns {{
+ *   pageviews: number,
+ *   webVitals: number,
+ *   customEvents: number,
+ *   rollups: number,
+ *   batchSize: number,
+ *   intervalMinutes: number
+ * }}
+ */
+function getRetentionConfig() {
+  const rawDays = readSetting('DATA_RETENTION_DAYS', 30);
+
+  return {
+    pageviews: readSetting('PAGEVIEWS_RETENTION_DAYS', rawDays),
+    webVitals: readSetting('WEB_VITALS_RETENTION_DAYS', rawDays),
+    customEvents: readSetting('CUSTOM_EVENTS_RETENTION_DAYS', rawDays),
+    rollups: readSetting('ROLLUPS_RETENTION_DAYS', 0),
+    batchSize: readSetting('RETENTION_BATCH_SIZE', 0) || 1000,
+    intervalMinutes: readSetting('RETENTION_INTERVAL_MINUTES', 60)
+  };
+}
+
+/**
+ * Delete rows matching a condition, batchSize rows at a time
+ * @returns {number} Number of deleted rows
+ */
+function deleteInChunks(db, table, condition, params, batchSize) {
+  const stmt = db.prepare(`
+    DELETE FROM ${table}
+    WHERE rowid IN (SELECT rowid FROM ${table} WHERE ${condition} LIMIT ?)
+  `);
+
+  let deleted = 0;
+  let changes;
+  do {
+    changes = stmt.run(...params, batchSize).changes;
+    deleted += changes;
+  } while (changes === batchSize);
+
+  return deleted;
+}
+
+/**
+ * Delete data older than its retention period
+ * @param {import('better-sqlite3').Database} db Database connection
+ * @param {ReturnType<typeof getRetentionConfig>} config Retention settings
+ * @param {{ dryRun?: boolean, now?: number }} options Count instead of deleting, current time
+ * @returns {Array<{ table: string, retentionDays: number, cutoff: string | null, deleted: number }>}
+ *   One entry per table; cutoff is null when the table is kept forever
+ */
+function purgeExpiredData(db, config, options = {}) {
+  const now = options.now || Date.now();
+  const report = [];
+
+  for (const { table, setting, column } of RETENTION_TABLES) {
+    const retentionDays = config[setting];
+    if (!retentionDays) {
+      report.push({ table, retentionDays, cutoff: null, deleted: 0 });
+      continue;
+    }
+
+    const cutoff = new Date(now - retentionDays * DAY_MS);
+    const cutoffValue = column === 'date' ? cutoff.toISOString().slice(0, 10) : cutoff.getTime();
+    const condition = `${column} < ?`;
+
+    const deleted = options.dryRun
+      ? db.prepare(`SELECT COUNT(*) as count FROM ${table} WHERE ${condition}`).get(cutoffValue).count
+      : deleteInChunks(db, table, condition, [cutoffValue], config.batchSize);
+
+    report.push({ table, retentionDays, cutoff: cutoff.toISOString(), deleted });
+  }
+
+  // User agents are shared between pageviews, so only unreferenced ones are removed
+  const unusedUserAgents = 'NOT EXISTS (SELECT 1 FROM pageviews p WHERE p.user_agent_id = user_agents.id)';
+  report.push({
+    table: 'user_agents',
+    retentionDays: 0,
+    cutoff: null,
+    deleted: options.dryRun
+      ? db.prepare(`SELECT COUNT(*) as count FROM user_agents WHERE ${unusedUserAgents}`).get().count
+      : deleteInChunks(db, 'user_agents', unusedUserAgents, [], config.batchSize)
+  });
+
+  return report;
+}
+
+/**
+ * Format a purge report as an aligned text table
+ * @param {ReturnType<typeof purgeExpiredData>} report
+ * @returns {string}
+ */
+function formatRetentionReport(report) {
+  const rows = report.map(entry => [
+    entry.table,
+    entry.retentionDays ? `${entry.retentionDays} days` : (entry.table === 'user_agents' ? 'unused' : 'forever'),
+    entry.cutoff || '-',
+    String(entry.deleted)
+  ]);
+  const header = ['Table', 'Retention', 'Cutoff', 'Deleted'];
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map(row => row[i].length)));
+
+  return [header, ...rows]
+    .map(row => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd())
+    .join('\n');
+}
+
+// Timer of the in-process retention job
+let retentionTimer = null;
+
+/**
+ * Run the purge on an interval inside the application process
+ *
+ * Disabled with RETENTION_INTERVAL_MINUTES=0, for example when the CLI
+ * command is scheduled with cron instead.
+ * @param {import('better-sqlite3').Database} db Database connection
+ */
+function startRetentionJob(db) {
+  const config = getRetentionConfig();
+  if (retentionTimer || !config.intervalMinutes) {
+    return;
+  }
+
+  retentionTimer = setInterval(() => {
+    try {
+      const report = purgeExpiredData(db, config);
+      if (report.some(entry => entry.deleted > 0)) {
+        console.log(`Data retention purge:\n${formatRetentionReport(report)}`);
+      }
+    } catch (error) {
+      console.error('Data retention purge failed:', error);
+    }
+  }, config.intervalMinutes * 60 * 1000);
+
+  // Do not keep the process alive just for the retention job
+  if (typeof retentionTimer.unref === 'function') {
+    retentionTimer.unref();
+  }
+}
+
+module.exports = {
+  getRetentionConfig,
+  purgeExpiredData,
+  formatRetentionReport,
+  startRetentionJob
+};
@@ -0,0 +1,586 @@
+/**
+ * Daily rollup tables
+ *
+ * Aggregates are updated in the same transaction as the raw row they count,
+ * so they never need a separate batch job. They are not subject to raw data
+ * retention, which lets dashboards show ranges longer than the raw window.
+ */
+import Database from 'better-sqlite3';
+import {
+  PageviewData,
+  CustomEventData,
+  PageviewStats,
+  UtmParams,
+  CampaignStats,
+  CampaignBreakdown,
+  LocationStats,
+  Channel,
+  ReferrerStats,
+  WebVitalMetric,
+  WebVitalName,
+  WebVitalRating
+} from '../types';
+import { HISTOGRAM_BUCKET_SIZES } from './types';
+import { prepareCached } from './statements';
+import { getWebVitalRating } from '../utils';
+import { VisitSource } from '../referrers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Type definitions for rollup query results
+type CountResult = { count: number };
+type DateCountResult = { date: string; count: number };
+type PageCountResult = { page: string; count: number };
+type PageRouteCountResult = { page: string; isRoute: number; count: number };
+type ReferrerCountResult = { referrer: string; count: number };
+type ChannelCountResult = { channel: Channel; count: number };
+type CountryCountResult = { country: string; count: number };
+type RegionCountResult = { country: string; region: string; count: number };
+type CityCountResult = { country: string; region: string | null; city: string; count: number };
+type BrowserCountResult = { browser: string; count: number };
+type OSCountResult = { os: string; count: number };
+type DeviceTypeCountResult = { deviceType: string; count: number };
+type EventNameCountResult = { eventName: string; count: number };
+type SessionSnapshotResult = {
+  count: number;
+  firstSeen: number | null;
+  lastSeen: number | null;
+};
+type LandingResult = {
+  timestamp: number;
+  source: string | null;
+  medium: string | null;
+  campaign: string | null;
+};
+type SessionRollupResult = {
+  sessions: number | null;
+  bounces: number | null;
+  pageviews: number | null;
+  durationSum: number | null;
+  visitors: number | null;
+};
+type HistogramPercentileResult = {
+  name: WebVitalName;
+  average: number;
+  medianBucket: number;
+  p75Bucket: number;
+  p95Bucket: number;
+};
+
+/**
+ * UTC day of a timestamp as stored in the rollup tables
+ */
+export function toRollupDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Whether a range starts before the raw data that is still retained
+ *
+ * A retention period of 0 days keeps raw data forever.
+ */
+export function shouldUseRollups(startTime: number, retentionDays: number, now: number = Date.now()): boolean {
+  return retentionDays > 0 && startTime < now - retentionDays * DAY_MS;
+}
+
+/**
+ * Histogram bucket holding a web vital value
+ *
+ * Buckets are right-closed so a value equal to a threshold stays in the
+ * bucket whose upper bound is that threshold.
+ */
+export function getHistogramBucket(name: WebVitalName, value: number): number {
+  return Math.max(0, Math.ceil(value / HISTOGRAM_BUCKET_SIZES[name] - 1e-9));
+}
+
+/**
+ * Upper bound of a histogram bucket, used as the value of its samples
+ */
+function bucketValue(name: WebVitalName, bucket: number): number {
+  // Rounding drops floating point noise such as 0.1 * 3 = 0.30000000000000004
+  return Math.round(bucket * HISTOGRAM_BUCKET_SIZES[name] * 1e6) / 1e6;
+}
+
+/**
+ * Whether UTM parameters attribute a session to a campaign
+ */
+function hasCampaign(utm: UtmParams): boolean {
+  return !!(utm.source || utm.medium || utm.campaign);
+}
+
+/**
+ * Count a pageview in the page, referrer, channel, device, session, campaign and location rollups
+ *
+ * Must run before the pageview row is inserted, since session and visitor
+ * counts depend on whether earlier pageviews exist.
+ */
+export function recordPageviewRollups(
+  db: Database.Database,
+  pageviewData: PageviewData,
+  ipHash: string,
+  userAgentId: number,
+  utm: UtmParams,
+  visit: VisitSource,
+  page: { path: string; route: string | null }
+): void {
+  const { siteId, timestamp } = pageviewData;
+  const date = toRollupDate(timestamp);
+
+  prepareCached(db, `
+    INSERT INTO daily_pages (site_id, date, page_url, route, count)
+    VALUES (?, ?, ?, ?, 1)
+    ON CONFLICT (site_id, date, page_url) DO UPDATE SET count = count + 1, route = excluded.route
+  `).run(siteId, date, page.path, page.route);
+
+  // Internal navigations are not visits
+  if (visit.channel) {
+    prepareCached(db, `
+      INSERT INTO daily_referrers (site_id, date, referrer, count)
+      VALUES (?, ?, ?, 1)
+      ON CONFLICT (site_id, date, referrer) DO UPDATE SET count = count + 1
+    `).run(siteId, date, visit.source || '');
+
+    prepareCached(db, `
+      INSERT INTO daily_channels (site_id, date, channel, count)
+      VALUES (?, ?, ?, 1)
+      ON CONFLICT (site_id, date, channel) DO UPDATE SET count = count + 1
+    `).run(siteId, date, visit.channel);
+  }
+
+  prepareCached(db, `
+    INSERT INTO daily_devices (site_id, date, browser, os, device_type, count)
+    SELECT ?, ?, browser, COALESCE(os, 'Unknown'), COALESCE(device_type, 'Unknown'), 1
+    FROM user_agents
+    WHERE id = ?
+    ON CONFLICT (site_id, date, browser, os, device_type) DO UPDATE SET count = count + 1
+  `).run(siteId, date, userAgentId);
+
+  // A visitor is counted once per day, matching the raw session statistics
+  const dayStart = Date.parse(`${date}T00:00:00.000Z`);
+  const seenToday = prepareCached(db, `
+    SELECT COUNT(*) as count FROM (
+      SELECT 1 FROM pageviews
+      WHERE site_id = ? AND ip_hash = ? AND user_agent_id IS ?
+      AND timestamp >= ? AND timestamp < ?
+      LIMIT 1
+    )
+  `).get(siteId, ipHash, userAgentId, dayStart, dayStart + DAY_MS) as CountResult | undefined;
+
+  const session = prepareCached(db, `
+    SELECT
+      COUNT(*) as count,
+      MIN(timestamp) as firstSeen,
+      MAX(timestamp) as lastSeen
+    FROM pageviews
+    WHERE site_id = ? AND session_id = ?
+  `).get(siteId, pageviewData.sessionId) as SessionSnapshotResult | undefined;
+
+  const previousPageviews = session ? session.count : 0;
+  let sessionDate = date;
+  let durationChange = 0;
+
+  if (session && previousPageviews > 0 && session.firstSeen !== null && session.lastSeen !== null) {
+    // Sessions stay on the day of their first pageview
+    sessionDate = toRollupDate(Math.min(session.firstSeen, timestamp));
+    const previousDuration = session.lastSeen - session.firstSeen;
+    durationChange = Math.max(session.lastSeen, timestamp) - Math.min(session.firstSeen, timestamp) - previousDuration;
+  }
+
+  if (!seenToday || seenToday.count === 0) {
+    prepareCached(db, `
+      INSERT INTO daily_sessions (site_id, date, visitors)
+      VALUES (?, ?, 1)
+      ON CONFLICT (site_id, date) DO UPDATE SET visitors = visitors + 1
+    `).run(siteId, date);
+  }
+
+  prepareCached(db, `
+    INSERT INTO daily_sessions (site_id, date, sessions, bounces, pageviews, duration_sum)
+    VALUES (?, ?, ?, ?, 1, ?)
+    ON CONFLICT (site_id, date) DO UPDATE SET
+      sessions = sessions + excluded.sessions,
+      bounces = bounces + excluded.bounces,
+      pageviews = pageviews + 1,
+      duration_sum = duration_sum + excluded.duration_sum
+  `).run(
+    siteId,
+    sessionDate,
+    previousPageviews === 0 ? 1 : 0,
+    // A second pageview turns a bounce into an engaged session
+    previousPageviews === 0 ? 1 : (previousPageviews === 1 ? -1 : 0),
+    durationChange
+  );
+
+  // Sessions are attributed to the campaign of their landing page
+  if (previousPageviews === 0 && hasCampaign(utm)) {
+    prepareCached(db, `
+      INSERT INTO daily_campaigns (site_id, date, source, medium, campaign, sessions)
+      VALUES (?, ?, ?, ?, ?, 1)
+      ON CONFLICT (site_id, date, source, medium, campaign) DO UPDATE SET sessions = sessions + 1
+    `).run(siteId, date, utm.source || '', utm.medium || '', utm.campaign || '');
+  }
+
+  // Sessions are located by their landing page
+  if (previousPageviews === 0 && pageviewData.location) {
+    const { country, region, city } = pageviewData.location;
+    prepareCached(db, `
+      INSERT INTO daily_locations (site_id, date, country, region, city, sessions)
+      VALUES (?, ?, ?, ?, ?, 1)
+      ON CONFLICT (site_id, date, country, region, city) DO UPDATE SET sessions = sessions + 1
+    `).run(siteId, date, country, region || '', city || '');
+  }
+}
+
+/**
+ * Add web vital measurements to the daily histograms
+ */
+export function recordWebVitalRollups(
+  db: Database.Database,
+  siteId: string,
+  timestamp: number,
+  webVitals: WebVitalMetric[]
+): void {
+  const stmt = prepareCached(db, `
+    INSERT INTO daily_vitals (site_id, date, metric_name, bucket, count, value_sum)
+    VALUES (?, ?, ?, ?, 1, ?)
+    ON CONFLICT (site_id, date, metric_name, bucket) DO UPDATE SET
+      count = count + 1,
+      value_sum = value_sum + excluded.value_sum
+  `);
+
+  const date = toRollupDate(timestamp);
+  for (const item of webVitals) {
+    stmt.run(siteId, date, item.name, getHistogramBucket(item.name, item.value), item.value);
+  }
+}
+
+/**
+ * Count a custom event in the daily event and campaign rollups
+ *
+ * Must run before the event row is inserted, since a session converts only
+ * on its first conversion event. An empty conversionEvents list makes every
+ * custom event a conversion.
+ */
+export function recordEventRollups(db: Database.Database, eventData: CustomEventData, conversionEvents: string[]): void {
+  const { siteId, sessionId, eventName } = eventData;
+
+  prepareCached(db, `
+    INSERT INTO daily_events (site_id, date, event_name, count)
+    VALUES (?, ?, ?, 1)
+    ON CONFLICT (site_id, date, event_name) DO UPDATE SET count = count + 1
+  `).run(siteId, toRollupDate(eventData.timestamp), eventName);
+
+  if (conversionEvents.length > 0 && !conversionEvents.includes(eventName)) {
+    return;
+  }
+
+  const eventFilter = conversionEvents.length > 0
+    ? `AND event_name IN (${conversionEvents.map(() => '?').join(', ')})`
+    : '';
+  const converted = prepareCached(db, `
+    SELECT COUNT(*) as count FROM (
+      SELECT 1 FROM custom_events
+      WHERE site_id = ? AND session_id = ? ${eventFilter}
+      LIMIT 1
+    )
+  `).get(siteId, sessionId, ...conversionEvents) as CountResult | undefined;
+
+  if (converted && converted.count > 0) {
+    return;
+  }
+
+  const landing = prepareCached(db, `
+    SELECT
+      timestamp,
+      utm_source as source,
+      utm_medium as medium,
+      utm_campaign as campaign
+    FROM pageviews
+    WHERE site_id = ? AND session_id = ?
+    ORDER BY timestamp
+    LIMIT 1
+  `).get(siteId, sessionId) as LandingResult | undefined;
+
+  if (!landing || !(landing.source || landing.medium || landing.campaign)) {
+    return;
+  }
+
+  // Conversions are counted on the day the session was counted
+  prepareCached(db, `
+    INSERT INTO daily_campaigns (site_id, date, source, medium, campaign, conversions)
+    VALUES (?, ?, ?, ?, ?, 1)
+    ON CONFLICT (site_id, date, source, medium, campaign) DO UPDATE SET conversions = conversions + 1
+  `).run(
+    siteId,
+    toRollupDate(landing.timestamp),
+    landing.source || '',
+    landing.medium || '',
+    landing.campaign || ''
+  );
+}
+
+/**
+ * Get pageview statistics from the daily rollups
+ */
+export function getRollupPageviewStats(db: Database.Database, siteId: string, startTime: number, endTime: number): PageviewStats {
+  const params = [siteId, toRollupDate(startTime), toRollupDate(endTime)];
+
+  const byDay = db.prepare(`
+    SELECT date, SUM(count) as count
+    FROM daily_pages
+    WHERE site_id = ? AND date >= ? AND date <= ?
+    GROUP BY date
+    ORDER BY date
+  `).all(...params) as DateCountResult[];
+
+  const byPage = db.prepare(`
+    SELECT COALESCE(route, page_url) as page, MAX(route IS NOT NULL) as isRoute, SUM(count) as count
+    FROM daily_pages
+    WHERE site_id = ? AND date >= ? AND date <= ?
+    GROUP BY 1
+    ORDER BY count DESC
+    LIMIT 10
+  `).all(...params) as PageRouteCountResult[];
+
+  return {
+    total: byDay.reduce((sum, day) => sum + day.count, 0),
+    byDay,
+    byPage: byPage.map(row => ({ page: row.page, count: row.count, isRoute: row.isRoute === 1 }))
+  };
+}
+
+/**
+ * Get pageviews of the pages grouped by a route pattern from the daily rollups
+ */
+export function getRollupRoutePageStats(
+  db: Database.Database,
+  siteId: string,
+  route: string,
+  startTime: number,
+  endTime: number
+): Array<{ page: string; count: number }> {
+  return db.prepare(`
+    SELECT page_url as page, SUM(count) as count
+    FROM daily_pages
+    WHERE site_id = ? AND date >= ? AND date <= ? AND route = ?
+    GROUP BY page_url
+    ORDER BY count DESC
+    LIMIT 50
+  `).all(siteId, toRollupDate(startTime), toRollupDate(endTime), route) as PageCountResult[];
+}
+
+/**
+ * Get session statistics from the daily rollups
+ */
+export function getRollupSessionStats(db: Database.Database, siteId: string, startTime: number, endTime: number): {
+  uniqueSessions: number;
+  uniqueVisitors: number;
+  bounceRate: number;
+  pagesPerSession: number;
+  avgSessionDuration: number;
+} {
+  const result = db.prepare(`
+    SELECT
+      SUM(sessions) as sessions,
+      SUM(bounces) as bounces,
+      SUM(pageviews) as pageviews,
+      SUM(duration_sum) as durationSum,
+      SUM(visitors) as visitors
+    FROM daily_sessions
+    WHERE site_id = ? AND date >= ? AND date <= ?
+  `).get(siteId, toRollupDate(startTime), toRollupDate(endTime)) as SessionRollupResult;
+
+  const sessions = result.sessions || 0;
+
+  return {
+    uniqueSessions: sessions,
+    uniqueVisitors: result.visitors || 0,
+    bounceRate: sessions > 0 ? (result.bounces || 0) / sessions : 0,
+    pagesPerSession: sessions > 0 ? (result.pageviews || 0) / sessions : 0,
+    avgSessionDuration: sessions > 0 ? (result.durationSum || 0) / sessions : 0
+  };
+}
+
+/**
+ * Get referrer and channel statistics from the daily rollups
+ */
+export function getRollupReferrerStats(db: Database.Database, siteId: string, startTime: number, endTime: number): ReferrerStats {
+  const byReferrer = db.prepare(`
+    SELECT
+      CASE WHEN referrer = '' THEN 'Direct' ELSE referrer END as referrer,
+      SUM(count) as count
+    FROM daily_referrers
+    WHERE site_id = ? AND date >= ? AND date <= ?
+    GROUP BY referrer
+    ORDER BY count DESC
+    LIMIT 10
+  `).all(siteId, toRollupDate(startTime), toRollupDate(endTime)) as ReferrerCountResult[];
+
+  const byChannel = db.prepare(`
+    SELECT
+      channel,
+      SUM(count) as count
+    FROM daily_channels
+    WHERE site_id = ? AND date >= ? AND date <= ?
+    GROUP BY channel
+    ORDER BY count DESC
+  `).all(siteId, toRollupDate(startTime), toRollupDate(endTime)) as ChannelCountResult[];
+
+  return {
+    byReferrer,
+    byChannel
+  };
+}
+
+/**
+ * Get campaign, source and medium breakdowns from the daily rollups
+ */
+export function getRollupCampaignStats(db: Database.Database, siteId: string, startTime: number, endTime: number): CampaignStats {
+  const params = [siteId, toRollupDate(startTime), toRollupDate(endTime)];
+
+  // Top 10 values of one daily_campaigns column
+  const topBy = (column: string) => db.prepare(`
+    SELECT
+      CASE WHEN ${column} = '' THEN '(not set)' ELSE ${column} END as name,
+      SUM(sessions) as sessions,
+      SUM(conversions) as conversions
+    FROM daily_campaigns
+    WHERE site_id = ? AND date >= ? AND date <= ?
+    GROUP BY name
+    ORDER BY sessions DESC, name
+    LIMIT 10
+  `).all(...params) as CampaignBreakdown[];
+
+  return {
+    byCampaign: topBy('campaign'),
+    bySource: topBy('source'),
+    byMedium: topBy('medium')
+  };
+}
+
+/**
+ * Get location statistics from the daily rollups
+ */
+export function getRollupLocationStats(db: Database.Database, siteId: string, startTime: number, endTime: number): LocationStats {
+  const params = [siteId, toRollupDate(startTime), toRollupDate(endTime)];
+
+  // Sessions per location, '' marks a missing region or city
+  const groupBy = (columns: string[], limit: number) => db.prepare(`
+    SELECT ${columns.map(column => `NULLIF(${column}, '') as ${column}`).join(', ')}, SUM(sessions) as count
+    FROM daily_locations
+    WHERE site_id = ? AND date >= ? AND date <= ? AND ${columns[columns.length - 1]} <> ''
+    GROUP BY ${columns.join(', ')}
+    ORDER BY count DESC, ${columns.join(', ')}
+    ${limit > 0 ? `LIMIT ${limit}` : ''}
+  `).all(...params);
+
+  const map = groupBy(['country'], 0) as CountryCountResult[];
+
+  return {
+    byCountry: map.slice(0, 10),
+    byRegion: groupBy(['country', 'region'], 10) as RegionCountResult[],
+    byCity: groupBy(['country', 'region', 'city'], 10) as CityCountResult[],
+    map
+  };
+}
+
+/**
+ * Get device statistics from the daily rollups
+ */
+export function getRollupDeviceStats(db: Database.Database, siteId: string, startTime: number, endTime: number): {
+  byBrowser: Array<{ browser: string; count: number }>;
+  byOS: Array<{ os: string; count: number }>;
+  byDeviceType: Array<{ deviceType: string; count: number }>;
+} {
+  const params = [siteId, toRollupDate(startTime), toRollupDate(endTime)];
+
+  // Top 10 values of one daily_devices column
+  const topBy = (column: string, alias: string) => db.prepare(`
+    SELECT ${column} as ${alias}, SUM(count) as count
+    FROM daily_devices
+    WHERE site_id = ? AND date >= ? AND date <= ?
+    GROUP BY ${column}
+    ORDER BY count DESC
+    LIMIT 10
+  `).all(...params);
+
+  return {
+    byBrowser: topBy('browser', 'browser') as BrowserCountResult[],
+    byOS: topBy('os', 'os') as OSCountResult[],
+    byDeviceType: topBy('device_type', 'deviceType') as DeviceTypeCountResult[]
+  };
+}
+
+/**
+ * Get web vital averages and percentiles from the daily histograms
+ *
+ * Percentiles are the upper bound of the bucket holding the nearest-rank
+ * sample, so they are accurate to one bucket size.
+ */
+export function getRollupWebVitalMetrics(db: Database.Database, siteId: string, startTime: number, endTime: number): Array<{
+  name: WebVitalName;
+  average: number;
+  median: number;
+  p75: number;
+  p95: number;
+  rating: WebVitalRating;
+}> {
+  const rows = db.prepare(`
+    WITH buckets AS (
+      SELECT
+        metric_name as name,
+        bucket,
+        SUM(count) as count,
+        SUM(value_sum) as valueSum
+      FROM daily_vitals
+      WHERE site_id = ? AND date >= ? AND date <= ?
+      GROUP BY metric_name, bucket
+    ), cumulative AS (
+      SELECT
+        name,
+        bucket,
+        count,
+        valueSum,
+        SUM(count) OVER (PARTITION BY name ORDER BY bucket) as seen,
+        SUM(count) OVER (PARTITION BY name) as n
+      FROM buckets
+    )
+    SELECT
+      name,
+      SUM(valueSum) / SUM(count) as average,
+      MIN(CASE WHEN seen >= (50 * n + 99) / 100 THEN bucket END) as medianBucket,
+      MIN(CASE WHEN seen >= (75 * n + 99) / 100 THEN bucket END) as p75Bucket,
+      MIN(CASE WHEN seen >= (95 * n + 99) / 100 THEN bucket END) as p95Bucket
+    FROM cumulative
+    GROUP BY name
+  `).all(siteId, toRollupDate(startTime), toRollupDate(endTime)) as HistogramPercentileResult[];
+
+  return rows.map(row => {
+    const median = bucketValue(row.name, row.medianBucket);
+    return {
+      name: row.name,
+      average: row.average,
+      median,
+      p75: bucketValue(row.name, row.p75Bucket),
+      p95: bucketValue(row.name, row.p95Bucket),
+      rating: getWebVitalRating(row.name, median)
+    };
+  });
+}
+
+/**
+ * Get custom event counts from the daily rollups
+ */
+export function getRollupEventCounts(db: Database.Database, siteId: string, startTime: number, endTime: number): Array<{
+  eventName: string;
+  count: number;
+}> {
+  return db.prepare(`
+    SELECT event_name as eventName, SUM(count) as count
+    FROM daily_events
+    WHERE site_id = ? AND date >= ? AND date <= ?
+    GROUP BY event_name
+    ORDER BY count DESC
+    LIMIT 10
+  `).all(siteId, toRollupDate(startTime), toRollupDate(endTime)) as EventNameCountResult[];
+}
@@ -0,0 +1,29 @@
+/**
+ * Prepared statement cache for the write path
+ *
+ * Preparing a statement parses and plans its SQL, which costs more than
+ * running a simple insert. The ingestion writes run the same few statements
+ * for every beacon, so they are prepared once per connection.
+ */
+import Database from 'better-sqlite3';
+
+const statements = new WeakMap<Database.Database, Map<string, Database.Statement>>();
+
+/**
+ * Prepare a statement, or reuse the one prepared earlier for the same SQL
+ */
+export function prepareCached(db: Database.Database, sql: string): Database.Statement {
+  let cache = statements.get(db);
+  if (!cache) {
+    cache = new Map();
+    statements.set(db, cache);
+  }
+
+  let statement = cache.get(sql);
+  if (!statement) {
+    statement = db.prepare(sql);
+    cache.set(sql, statement);
+  }
+
+  return statement;
+}
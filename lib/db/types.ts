@@ -7,6 +7,7 @@ import {
   WebVitalStats,
   CustomEventStats
 } from '../types';
+import { HISTOGRAM_BUCKET_SIZES as BUCKET_SIZES } from './histogram';
 
 // Database configuration
 export interface DbConfig {
@@ -54,10 +55,17 @@ interface MetricThreshold {
   needsImprovement: number;
 }
 
+// Metrics whose web-vitals attribution identifies the element responsible
+export const ATTRIBUTED_METRICS: WebVitalName[] = ['LCP', 'CLS', 'INP'];
+
 export const METRIC_THRESHOLDS: Record<WebVitalName, MetricThreshold> = {
   LCP: { good: 2500, needsImprovement: 4000 },
   FID: { good: 100, needsImprovement: 300 },
+  INP: { good: 200, needsImprovement: 500 },
   CLS: { good: 0.1, needsImprovement: 0.25 },
   FCP: { good: 1800, needsImprovement: 3000 },
   TTFB: { good: 800, needsImprovement: 1800 }
 };
+
+// Width of a daily_vitals histogram bucket per metric, see lib/db/histogram.js
+export const HISTOGRAM_BUCKET_SIZES: Record<WebVitalName, number> = BUCKET_SIZES;
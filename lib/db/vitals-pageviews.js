@@ -0,0 +1,121 @@
+/**
+ * Cleanup of pageviews created by web vitals beacons
+ *
+ * Used by the one-off scripts/remove-vitals-pageviews.js, so it is plain
+ * CommonJS.
+ *
+ * Older versions of the tracking snippet posted every web vital measurement
+ * to /api/track, which recorded a pageview for each one. The cleanup finds
+ * those pageviews, links their web vitals to the real pageview of the same
+ * page in the same session, and deletes the duplicates.
+ *
+ * A duplicate is the latest pageview of a session/page recorded at most
+ * MAX_GAP_MS before a web vital that is not yet linked to a pageview, since
+ * /api/track inserted both rows in the same request. Only web vitals recorded
+ * before the migration that linked them to pageviews are considered; newer
+ * ones without a pageview were reported for a pageview that was never stored.
+ */
+
+// Maximum time between the pageview and vitals rows written by one request
+const MAX_GAP_MS = 1000;
+
+/**
+ * Last web vital posted to /api/track
+ *
+ * Recorded by migration 003. Databases migrated before it was recorded are
+ * not cleaned up, databases that are not migrated yet consider every row.
+ * @param {import('better-sqlite3').Database} db Database connection
+ * @param {boolean} migrated Whether web vitals have the pageview reference
+ * @returns {number | null} Web vital id, null when it was not recorded
+ */
+function getLegacyMaxId(db, migrated) {
+  if (!migrated) {
+    return Number.MAX_SAFE_INTEGER;
+  }
+
+  const hasLegacyTable = !!db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='legacy_web_vitals'"
+  ).get();
+  return hasLegacyTable ? db.prepare('SELECT max_id as maxId FROM legacy_web_vitals').get().maxId || 0 : null;
+}
+
+/**
+ * Delete the pageviews created by web vitals beacons and link the vitals
+ * @param {import('better-sqlite3').Database} db Database connection, migrated unless dryRun is set
+ * @param {{ dryRun?: boolean }} options Count instead of deleting
+ * @returns {{
+ *   recorded: boolean,
+ *   deleted: number,
+ *   linked: number,
+ *   days: Array<{ siteId: string, date: string }>
+ * }} Whether the legacy web vitals were recorded, the number of (found)
+ *   duplicates, linked web vitals, and the site days of the duplicates
+ */
+function removeVitalsPageviews(db, options = {}) {
+  const columns = db.prepare('PRAGMA table_info(web_vitals)').all();
+  const migrated = columns.some(column => column.name === 'pageview_id');
+
+  const legacyMaxId = getLegacyMaxId(db, migrated);
+  if (legacyMaxId === null) {
+    return { recorded: false, deleted: 0, linked: 0, days: [] };
+  }
+
+  // Pageviews written alongside a web vital by the same /api/track request
+  const duplicates = db.prepare(`
+    SELECT DISTINCT p.id as id, p.site_id as siteId, date(p.timestamp / 1000, 'unixepoch') as date
+    FROM (
+      SELECT
+        w.timestamp as vitalTimestamp,
+        (
+          SELECT p.id FROM pageviews p
+          WHERE p.session_id = w.session_id
+          AND p.page_url = w.page_url
+          AND p.timestamp <= w.timestamp
+          ORDER BY p.timestamp DESC, p.id DESC
+          LIMIT 1
+        ) as pageviewId
+      FROM web_vitals w
+      WHERE w.id <= ? ${migrated ? 'AND w.pageview_id IS NULL' : ''}
+    ) v
+    JOIN pageviews p ON p.id = v.pageviewId
+    WHERE v.vitalTimestamp - p.timestamp <= ?
+  `).all(legacyMaxId, MAX_GAP_MS);
+
+  const days = [];
+  duplicates.forEach(({ siteId, date }) => {
+    if (!days.some(day => day.siteId === siteId && day.date === date)) {
+      days.push({ siteId, date });
+    }
+  });
+
+  if (options.dryRun) {
+    return { recorded: true, deleted: duplicates.length, linked: 0, days };
+  }
+
+  const deletePageview = db.prepare('DELETE FROM pageviews WHERE id = ?');
+
+  const cleanup = db.transaction(() => {
+    for (const { id } of duplicates) {
+      deletePageview.run(id);
+    }
+
+    // Link every web vital to the remaining pageview it was measured on
+    return db.prepare(`
+      UPDATE web_vitals SET pageview_id = (
+        SELECT p.id FROM pageviews p
+        WHERE p.session_id = web_vitals.session_id
+        AND p.page_url = web_vitals.page_url
+        AND p.timestamp <= web_vitals.timestamp
+        ORDER BY p.timestamp DESC, p.id DESC
+        LIMIT 1
+      )
+      WHERE id <= ? AND pageview_id IS NULL
+    `).run(legacyMaxId).changes;
+  });
+
+  return { recorded: true, deleted: duplicates.length, linked: cleanup(), days };
+}
+
+module.exports = {
+  removeVitalsPageviews
+};
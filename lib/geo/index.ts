@@ -0,0 +1,88 @@
+/**
+ * Offline IP geolocation
+ *
+ * Locations are looked up in a local MaxMind-format (.mmdb) database such as
+ * GeoLite2 City or Country, set with GEOIP_DB_PATH. No network requests are
+ * made, and only the resulting location is stored, never the IP address.
+ */
+import fs from 'fs';
+import { Reader, CityResponse } from 'mmdb-lib';
+import { GeoLocation } from '../types';
+
+// Most detailed location stored: country, region or city
+export type GeoPrecision = 'country' | 'region' | 'city';
+
+const GEO_PRECISIONS: GeoPrecision[] = ['country', 'region', 'city'];
+
+// Reader of the database at GEOIP_DB_PATH, null when it could not be opened
+let cached: { path: string; reader: Reader<CityResponse> | null } | null = null;
+
+/**
+ * Open the database at GEOIP_DB_PATH, once per path
+ */
+function getReader(): Reader<CityResponse> | null {
+  const dbPath = process.env.GEOIP_DB_PATH;
+  if (!dbPath) {
+    return null;
+  }
+
+  if (!cached || cached.path !== dbPath) {
+    let reader: Reader<CityResponse> | null = null;
+    try {
+      reader = new Reader<CityResponse>(fs.readFileSync(dbPath));
+    } catch (error) {
+      console.error(`Error opening GeoIP database ${dbPath}, locations are not recorded:`, error);
+    }
+    cached = { path: dbPath, reader };
+  }
+
+  return cached.reader;
+}
+
+/**
+ * Location precision from GEOIP_PRECISION, country by default
+ */
+export function getGeoPrecision(): GeoPrecision {
+  const precision = (process.env.GEOIP_PRECISION || '').trim().toLowerCase() as GeoPrecision;
+  return GEO_PRECISIONS.includes(precision) ? precision : 'country';
+}
+
+/**
+ * Look up the location of an IP address
+ * @returns null when no database is configured or the address is not found
+ */
+export function lookupLocation(ip: string): GeoLocation | null {
+  const reader = getReader();
+  if (!reader) {
+    return null;
+  }
+
+  let result: CityResponse | null;
+  try {
+    // IPv4 addresses may arrive in their IPv6-mapped form
+    result = reader.get(ip.trim().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, ''));
+  } catch {
+    // Not an IP address, e.g. 'unknown'
+    return null;
+  }
+
+  const country = result?.country?.iso_code || result?.registered_country?.iso_code;
+  if (!result || !country) {
+    return null;
+  }
+
+  const precision = getGeoPrecision();
+  const location: GeoLocation = { country };
+
+  const region = result.subdivisions?.[0]?.names.en;
+  if (precision !== 'country' && region) {
+    location.region = region;
+  }
+
+  const city = result.city?.names.en;
+  if (precision === 'city' && city) {
+    location.city = city;
+  }
+
+  return location;
+}
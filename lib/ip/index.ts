@@ -0,0 +1,179 @@
+/**
+ * Client IP address extraction behind reverse proxies
+ *
+ * Proxies append the address they received a request from to the Forwarded
+ * or X-Forwarded-For header, and everything left of the entries written by
+ * our own proxies may be made up by the client. TRUSTED_PROXIES says which
+ * entries to trust: either the number of proxies in front of the app, or a
+ * list of proxy addresses and CIDR ranges. TRUSTED_PROXY_HEADER names the
+ * one header our proxies write, the others are ignored since the client may
+ * have sent them.
+ */
+import net from 'net';
+
+export type ProxyHeader = 'x-forwarded-for' | 'forwarded' | 'x-real-ip';
+
+export type TrustedProxies = (
+  | { hops: number }
+  | { ranges: net.BlockList }
+) & { header: ProxyHeader };
+
+const PROXY_HEADERS: ProxyHeader[] = ['x-forwarded-for', 'forwarded', 'x-real-ip'];
+
+// A bare number of hops, e.g. TRUSTED_PROXIES=2
+const HOP_COUNT_PATTERN = /^\d+$/;
+
+/**
+ * Header written by the trusted proxies from TRUSTED_PROXY_HEADER,
+ * X-Forwarded-For by default
+ */
+function getProxyHeader(): ProxyHeader {
+  const setting = (process.env.TRUSTED_PROXY_HEADER || '').trim().toLowerCase();
+  if (!setting) {
+    return 'x-forwarded-for';
+  }
+
+  if (!PROXY_HEADERS.includes(setting as ProxyHeader)) {
+    console.warn(`Ignoring invalid trusted proxy header: ${setting}`);
+    return 'x-forwarded-for';
+  }
+  return setting as ProxyHeader;
+}
+
+/**
+ * Trusted proxies from TRUSTED_PROXIES and TRUSTED_PROXY_HEADER, one proxy
+ * in front of the app by default
+ */
+export function getTrustedProxies(): TrustedProxies {
+  const setting = (process.env.TRUSTED_PROXIES || '').trim();
+  const header = getProxyHeader();
+  if (!setting) {
+    return { hops: 1, header };
+  }
+
+  if (HOP_COUNT_PATTERN.test(setting)) {
+    return { hops: parseInt(setting, 10), header };
+  }
+
+  const ranges = new net.BlockList();
+  setting.split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const [address, prefix] = entry.split('/');
+    const version = net.isIP(address);
+    if (version === 0) {
+      console.warn(`Ignoring invalid trusted proxy: ${entry}`);
+      return;
+    }
+
+    const type = version === 4 ? 'ipv4' : 'ipv6';
+    ranges.addSubnet(address, prefix ? parseInt(prefix, 10) : (version === 4 ? 32 : 128), type);
+  });
+
+  return { ranges, header };
+}
+
+// Trusted proxies
+const TRUSTED_PROXIES = getTrustedProxies();
+
+/**
+ * Clean up an address from a proxy header
+ *
+ * Removes quotes, brackets, ports and zone indexes and unwraps IPv4-mapped
+ * IPv6 addresses.
+ * @returns null for anything that is not an IP address, e.g. 'unknown'
+ */
+export function parseIp(value: string): string | null {
+  let address = value.trim().replace(/^"|"$/g, '');
+
+  // [2001:db8::1]:4711 or [2001:db8::1]
+  const bracketed = address.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) {
+    address = bracketed[1];
+  } else if (/^[\d.]+:\d+$/.test(address)) {
+    // 192.0.2.1:4711
+    address = address.split(':')[0];
+  }
+
+  address = address.replace(/%.*$/, '').replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+
+  return net.isIP(address) ? address.toLowerCase() : null;
+}
+
+/**
+ * Reduce an IPv6 address to its /64 network, the part that identifies a
+ * household or device; IPv4 addresses are returned unchanged
+ */
+export function truncateIp(address: string): string {
+  if (net.isIPv4(address)) {
+    return address;
+  }
+
+  // Expand '::' and a trailing dotted IPv4 part into eight groups
+  let expanded = address;
+  const dotted = expanded.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(part => parseInt(part, 10));
+    expanded = expanded.slice(0, dotted.index) + ((a << 8) | b).toString(16) + ':' + ((c << 8) | d).toString(16);
+  }
+
+  const [head, tail = ''] = expanded.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = expanded.includes('::') && tail ? tail.split(':') : [];
+  const groups = [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+
+  const network = [...groups.slice(0, 4), '0', '0', '0', '0'].join(':');
+
+  // The URL parser writes IPv6 addresses in their canonical compressed form
+  return new URL(`http://[${network}]`).hostname.slice(1, -1);
+}
+
+/**
+ * Addresses of the proxy chain from the header our proxies write
+ */
+function getForwardedChain(headers: Headers, header: ProxyHeader): Array<string | null> {
+  const value = headers.get(header);
+  if (!value) {
+    return [];
+  }
+
+  if (header === 'forwarded') {
+    // Forwarded: for=192.0.2.60;proto=http, for="[2001:db8::17]:4711"
+    return value.split(',').map(element => {
+      const pair = element.split(';').map(part => part.trim()).find(part => /^for=/i.test(part));
+      return pair ? parseIp(pair.slice(4)) : null;
+    });
+  }
+
+  // A single address for X-Real-IP, e.g. nginx proxy_set_header X-Real-IP
+  return value.split(',').map(parseIp);
+}
+
+/**
+ * Client address of a request
+ * @param headers Request headers
+ * @param peer Address the request was received from, when the server knows it
+ * @param trusted Trusted proxies, TRUSTED_PROXIES by default
+ * @returns The normalized address, IPv6 truncated to /64, or 'unknown'
+ */
+export function getClientIp(
+  headers: Headers,
+  peer?: string,
+  trusted: TrustedProxies = TRUSTED_PROXIES
+): string {
+  const peerAddress = peer ? parseIp(peer) : null;
+  const chain = 'hops' in trusted && trusted.hops === 0 ? [] : getForwardedChain(headers, trusted.header);
+  const addresses = peerAddress ? [...chain, peerAddress] : chain;
+
+  let client: string | null | undefined;
+  if ('hops' in trusted) {
+    // The last hops entries were written by our proxies, the peer being the last of them
+    client = addresses[Math.max(0, chain.length - trusted.hops)];
+  } else {
+    // Skip trusted proxies from the right, the first other entry is the client
+    const isTrusted = (address: string | null) =>
+      !!address && trusted.ranges.check(address, net.isIPv4(address) ? 'ipv4' : 'ipv6');
+    const index = addresses.length - 1 - [...addresses].reverse().findIndex(address => !isTrusted(address));
+    client = index < addresses.length ? addresses[index] : addresses[0];
+  }
+
+  return client ? truncateIp(client) : 'unknown';
+}
@@ -0,0 +1,267 @@
+/**
+ * Rate limiting for the ingestion routes
+ *
+ * Every client gets a token bucket per route: it holds up to the route's
+ * limit of requests and refills continuously over the window, so a client
+ * that sent its full limit can send again as tokens come back rather than at
+ * a fixed reset time. The site of a beacon is named by the client, so it does
+ * not change the client's bucket; sites with a lower limit get a bucket per
+ * client of their own on top.
+ *
+ * Buckets are kept in memory by default, per process. RATE_LIMIT_STORE=sqlite
+ * shares them between all workers using the database, at the cost of a write
+ * transaction per request.
+ */
+import { NextResponse } from 'next/server';
+import { getDb } from '../db';
+
+// Ingestion routes with their own limit
+export type RateLimitedRoute = 'track' | 'events' | 'vitals' | 'collect' | 'server';
+
+export interface RateLimitRule {
+  limit: number;     // Requests per window, and the bucket capacity
+  windowMs: number;  // Time to refill an empty bucket
+}
+
+export interface RateLimitConfig {
+  store: 'sqlite' | 'memory';
+  rule: RateLimitRule;
+  routes: Partial<Record<RateLimitedRoute, number>>;
+  // Limits per site and per site route, keyed 'site' or 'site:route'
+  sites: Record<string, number>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetMs: number;       // Until the bucket is full again
+  retryAfterMs: number;  // Until the next request is allowed, 0 when allowed
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+type BucketRow = { tokens: number; updatedAt: number };
+
+const ROUTES: RateLimitedRoute[] = ['track', 'events', 'vitals', 'collect', 'server'];
+
+/**
+ * Read a positive integer setting from the environment
+ */
+function readLimit(name: string): number | undefined {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) || value <= 0 ? undefined : value;
+}
+
+/**
+ * Rate limit settings from environment variables
+ *
+ * RATE_LIMIT requests per RATE_LIMIT_WINDOW_SECONDS apply to every route,
+ * RATE_LIMIT_TRACK, RATE_LIMIT_EVENTS, RATE_LIMIT_VITALS, RATE_LIMIT_COLLECT and
+ * RATE_LIMIT_SERVER override it per route, and RATE_LIMIT_SITES per site,
+ * e.g. `blog=300,shop:events=50`.
+ */
+export function getRateLimitConfig(): RateLimitConfig {
+  const routes: RateLimitConfig['routes'] = {};
+  ROUTES.forEach(route => {
+    const limit = readLimit(`RATE_LIMIT_${route.toUpperCase()}`);
+    if (limit) {
+      routes[route] = limit;
+    }
+  });
+
+  const sites: RateLimitConfig['sites'] = {};
+  (process.env.RATE_LIMIT_SITES || '').split(',').forEach(entry => {
+    const [key, value] = entry.split('=').map(part => part.trim());
+    const limit = parseInt(value || '', 10);
+    if (key && limit > 0) {
+      sites[key] = limit;
+    }
+  });
+
+  return {
+    store: (process.env.RATE_LIMIT_STORE || '').trim().toLowerCase() === 'sqlite' ? 'sqlite' : 'memory',
+    rule: {
+      limit: readLimit('RATE_LIMIT') || 100,
+      windowMs: (readLimit('RATE_LIMIT_WINDOW_SECONDS') || 60) * 1000
+    },
+    routes,
+    sites
+  };
+}
+
+/**
+ * Limit of a route for a site, the most specific setting wins
+ */
+export function getRateLimitRule(route: RateLimitedRoute, siteId: string, config: RateLimitConfig): RateLimitRule {
+  return {
+    limit: config.sites[`${siteId}:${route}`] || config.sites[siteId] || config.routes[route] || config.rule.limit,
+    windowMs: config.rule.windowMs
+  };
+}
+
+/**
+ * Limit of a client's bucket for a route, whatever site its requests name:
+ * the highest limit of the route for any site
+ */
+export function getClientRateLimitRule(route: RateLimitedRoute, config: RateLimitConfig): RateLimitRule {
+  const siteLimits = Object.entries(config.sites)
+    .filter(([key]) => !key.includes(':') || key.endsWith(`:${route}`))
+    .map(([, limit]) => limit);
+
+  return {
+    limit: Math.max(config.routes[route] || config.rule.limit, ...siteLimits),
+    windowMs: config.rule.windowMs
+  };
+}
+
+/**
+ * Take a token from a bucket after refilling it for the time that passed
+ * @param bucket Stored bucket, undefined for a new client
+ */
+export function takeToken(
+  bucket: TokenBucket | undefined,
+  rule: RateLimitRule,
+  now: number
+): { bucket: TokenBucket; result: RateLimitResult } {
+  const refillRate = rule.limit / rule.windowMs;
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+  const available = bucket ? Math.min(rule.limit, bucket.tokens + elapsed * refillRate) : rule.limit;
+
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: rule.limit,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((rule.limit - tokens) / refillRate),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillRate)
+    }
+  };
+}
+
+// Rate limit settings
+const RATE_LIMITS = getRateLimitConfig();
+
+// Buckets of the memory store, only shared within this process
+const memoryBuckets = new Map<string, TokenBucket>();
+
+// Last removal of idle buckets
+let lastCleanup = 0;
+
+/**
+ * Take a token from a bucket in SQLite
+ *
+ * The read and the update run in one immediate transaction, so concurrent
+ * workers cannot both take the last token.
+ */
+function takeSqliteToken(key: string, rule: RateLimitRule, now: number): RateLimitResult {
+  const db = getDb();
+
+  const take = db.transaction(() => {
+    const row = db.prepare(`
+      SELECT tokens, updated_at as updatedAt FROM rate_limits WHERE key = ?
+    `).get(key) as BucketRow | undefined;
+
+    const { bucket, result } = takeToken(row, rule, now);
+
+    db.prepare(`
+      INSERT INTO rate_limits (key, tokens, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT (key) DO UPDATE SET tokens = excluded.tokens, updated_at = excluded.updated_at
+    `).run(key, bucket.tokens, bucket.updatedAt);
+
+    return result;
+  });
+
+  return take.immediate();
+}
+
+/**
+ * Remove buckets that have been idle long enough to be full again
+ */
+function removeIdleBuckets(now: number): void {
+  const cutoff = now - RATE_LIMITS.rule.windowMs;
+
+  if (RATE_LIMITS.store === 'memory') {
+    for (const [key, bucket] of memoryBuckets.entries()) {
+      if (bucket.updatedAt < cutoff) {
+        memoryBuckets.delete(key);
+      }
+    }
+  } else {
+    getDb().prepare('DELETE FROM rate_limits WHERE updated_at < ?').run(cutoff);
+  }
+}
+
+/**
+ * Take a token from a bucket of the configured store
+ */
+function takeStoredToken(key: string, rule: RateLimitRule, now: number): RateLimitResult {
+  if (RATE_LIMITS.store === 'memory') {
+    const { bucket, result } = takeToken(memoryBuckets.get(key), rule, now);
+    memoryBuckets.set(key, bucket);
+    return result;
+  }
+
+  return takeSqliteToken(key, rule, now);
+}
+
+/**
+ * Count a request against the client's limit for a route and site
+ * @param siteId Site named by the request, '' for unknown sites
+ * @param client Client identifier, e.g. its IP address
+ */
+export function checkRateLimit(route: RateLimitedRoute, siteId: string, client: string): RateLimitResult {
+  const now = Date.now();
+
+  // Buckets idle for a whole window are full again and can be dropped
+  if (now - lastCleanup > RATE_LIMITS.rule.windowMs) {
+    lastCleanup = now;
+    removeIdleBuckets(now);
+  }
+
+  const clientRule = getClientRateLimitRule(route, RATE_LIMITS);
+  const result = takeStoredToken(`${route}:${client}`, clientRule, now);
+
+  const siteRule = getRateLimitRule(route, siteId, RATE_LIMITS);
+  if (!result.allowed || siteRule.limit >= clientRule.limit) {
+    return result;
+  }
+
+  // Site ids are lowercase letters, digits and dashes, so the keys cannot collide with client keys
+  return takeStoredToken(`${route}:site=${siteId}:${client}`, siteRule, now);
+}
+
+/**
+ * X-RateLimit-* headers, plus Retry-After for rejected requests
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetMs / 1000))
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.ceil(result.retryAfterMs / 1000));
+  }
+
+  return headers;
+}
+
+/**
+ * Response for a request over its rate limit
+ * @param headers Further headers of the response, e.g. CORS headers
+ */
+export function rateLimitExceeded(result: RateLimitResult, headers?: Record<string, string>): NextResponse {
+  return NextResponse.json({
+    success: false,
+    error: 'Rate limit exceeded'
+  }, { status: 429, headers: { ...headers, ...getRateLimitHeaders(result) } });
+}
@@ -0,0 +1,245 @@
+/**
+ * Referrer normalization and channel grouping
+ *
+ * Referrers are reduced to their host, known hosts are mapped to a friendly
+ * source name, and every visit is classified into an acquisition channel.
+ */
+import fs from 'fs';
+import { Channel, UtmParams } from '../types';
+
+// Known referrer source
+export interface ReferrerSource {
+  domain: string;   // Host and its subdomains, or e.g. "google.*" for every country domain
+  name: string;
+  channel: Channel;
+}
+
+// Source and channel of a pageview; channel is null for internal navigations
+export interface VisitSource {
+  source: string | null;
+  channel: Channel | null;
+}
+
+export const CHANNELS: Channel[] = ['Direct', 'Organic Search', 'Social', 'Email', 'Referral', 'Paid'];
+
+// Built-in sources, matched in order so more specific hosts come first
+export const REFERRER_SOURCES: ReferrerSource[] = [
+  { domain: 'mail.google.com', name: 'Gmail', channel: 'Email' },
+  { domain: 'com.google.android.gm', name: 'Gmail', channel: 'Email' },
+  { domain: 'outlook.live.com', name: 'Outlook', channel: 'Email' },
+  { domain: 'outlook.office.com', name: 'Outlook', channel: 'Email' },
+  { domain: 'outlook.office365.com', name: 'Outlook', channel: 'Email' },
+  { domain: 'mail.yahoo.com', name: 'Yahoo Mail', channel: 'Email' },
+  { domain: 'mail.proton.me', name: 'Proton Mail', channel: 'Email' },
+  { domain: 'google.*', name: 'Google', channel: 'Organic Search' },
+  { domain: 'bing.com', name: 'Bing', channel: 'Organic Search' },
+  { domain: 'duckduckgo.com', name: 'DuckDuckGo', channel: 'Organic Search' },
+  { domain: 'search.yahoo.com', name: 'Yahoo', channel: 'Organic Search' },
+  { domain: 'yandex.*', name: 'Yandex', channel: 'Organic Search' },
+  { domain: 'baidu.com', name: 'Baidu', channel: 'Organic Search' },
+  { domain: 'ecosia.org', name: 'Ecosia', channel: 'Organic Search' },
+  { domain: 'search.brave.com', name: 'Brave Search', channel: 'Organic Search' },
+  { domain: 'startpage.com', name: 'Startpage', channel: 'Organic Search' },
+  { domain: 'qwant.com', name: 'Qwant', channel: 'Organic Search' },
+  { domain: 'naver.com', name: 'Naver', channel: 'Organic Search' },
+  { domain: 'facebook.com', name: 'Facebook', channel: 'Social' },
+  { domain: 'instagram.com', name: 'Instagram', channel: 'Social' },
+  { domain: 't.co', name: 'Twitter', channel: 'Social' },
+  { domain: 'twitter.com', name: 'Twitter', channel: 'Social' },
+  { domain: 'x.com', name: 'Twitter', channel: 'Social' },
+  { domain: 'linkedin.com', name: 'LinkedIn', channel: 'Social' },
+  { domain: 'lnkd.in', name: 'LinkedIn', channel: 'Social' },
+  { domain: 'reddit.com', name: 'Reddit', channel: 'Social' },
+  { domain: 'news.ycombinator.com', name: 'Hacker News', channel: 'Social' },
+  { domain: 'youtube.com', name: 'YouTube', channel: 'Social' },
+  { domain: 'pinterest.*', name: 'Pinterest', channel: 'Social' },
+  { domain: 'tiktok.com', name: 'TikTok', channel: 'Social' },
+  { domain: 'threads.net', name: 'Threads', channel: 'Social' },
+  { domain: 'bsky.app', name: 'Bluesky', channel: 'Social' },
+  { domain: 'mastodon.social', name: 'Mastodon', channel: 'Social' }
+];
+
+// utm_medium values of each channel
+const PAID_MEDIUMS = ['cpc', 'ppc', 'cpm', 'cpv', 'paid', 'paidsearch', 'paid_search', 'paid-search', 'paidsocial', 'paid_social', 'paid-social', 'display', 'banner', 'retargeting'];
+const EMAIL_MEDIUMS = ['email', 'e-mail', 'newsletter'];
+const SOCIAL_MEDIUMS = ['social', 'social-network', 'social_network', 'social-media', 'social_media', 'sm'];
+const SEARCH_MEDIUMS = ['organic', 'search'];
+
+// Query parameters added by ad platforms to paid clicks
+const PAID_CLICK_IDS = ['gclid', 'gbraid', 'wbraid', 'dclid', 'msclkid'];
+
+// Sources from REFERRER_SOURCES_FILE followed by the built-in list
+let sources: ReferrerSource[] | null = null;
+
+/**
+ * Read additional sources from the JSON file in REFERRER_SOURCES_FILE
+ *
+ * The file holds an array of { domain, name, channel } objects. They are
+ * matched before the built-in sources, so they can also override them.
+ */
+function loadCustomSources(): ReferrerSource[] {
+  const file = process.env.REFERRER_SOURCES_FILE;
+  if (!file) {
+    return [];
+  }
+
+  try {
+    const entries = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (!Array.isArray(entries)) {
+      throw new Error('expected an array of sources');
+    }
+
+    return entries.filter((entry): entry is ReferrerSource => {
+      const valid = entry
+        && typeof entry.domain === 'string'
+        && typeof entry.name === 'string'
+        && CHANNELS.includes(entry.channel);
+      if (!valid) {
+        console.warn('Ignoring invalid referrer source:', entry);
+      }
+      return valid;
+    }).map(entry => ({ domain: entry.domain.toLowerCase(), name: entry.name, channel: entry.channel }));
+  } catch (error) {
+    console.error(`Error reading referrer sources from ${file}:`, error);
+    return [];
+  }
+}
+
+/**
+ * All referrer sources, custom ones first
+ */
+export function getReferrerSources(): ReferrerSource[] {
+  if (!sources) {
+    sources = [...loadCustomSources(), ...REFERRER_SOURCES];
+  }
+
+  return sources;
+}
+
+/**
+ * Reset the cached sources so REFERRER_SOURCES_FILE is read again
+ */
+export function resetReferrerSources(): void {
+  sources = null;
+}
+
+/**
+ * Lowercase host of a referrer URL or domain without a leading www.
+ * @returns null for empty or malformed referrers
+ */
+export function getReferrerHost(referrer?: string | null): string | null {
+  if (!referrer || !referrer.trim()) {
+    return null;
+  }
+
+  let host: string;
+  try {
+    const value = referrer.trim();
+    host = new URL(value.includes('://') ? value : `https://${value}`).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+
+  host = host.replace(/^www\./, '').replace(/\.$/, '');
+  return host || null;
+}
+
+/**
+ * Whether a host is a source's domain or one of its subdomains
+ */
+function matchesDomain(host: string, domain: string): boolean {
+  if (domain.endsWith('.*')) {
+    // Any country or generic top-level domain, e.g. google.com or google.co.uk
+    const base = domain.slice(0, -2).replace(/\./g, '\\.');
+    return new RegExp(`(^|\\.)${base}\\.[a-z]{2,3}(\\.[a-z]{2})?$`).test(host);
+  }
+
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * Find the known source of a referrer host
+ */
+export function findReferrerSource(host: string): ReferrerSource | undefined {
+  return getReferrerSources().find(source => matchesDomain(host, source.domain));
+}
+
+/**
+ * Find the known source named by a utm_source value, e.g. "google" or "facebook.com"
+ */
+function findUtmSource(utmSource: string): ReferrerSource | undefined {
+  const value = utmSource.trim().toLowerCase();
+
+  return getReferrerSources().find(source => {
+    const domain = source.domain.replace(/\.\*$/, '');
+    return value === source.name.toLowerCase()
+      || value === domain
+      || value === domain.replace(/\.[^.]+$/, '')
+      || (!source.domain.endsWith('.*') && matchesDomain(value, source.domain));
+  });
+}
+
+/**
+ * Whether a page URL carries an ad platform click ID
+ */
+function hasPaidClickId(pageUrl: string): boolean {
+  const query = pageUrl.split('#')[0].split('?')[1];
+  if (!query) {
+    return false;
+  }
+
+  const params = new URLSearchParams(query);
+  return PAID_CLICK_IDS.some(name => params.has(name));
+}
+
+/**
+ * Classify a pageview into a referrer source and channel
+ *
+ * Referrers from the page's own host are internal navigations: they have no
+ * source, and no channel unless they start a session, which then counts as
+ * a direct visit. UTM parameters take precedence over the referrer.
+ * @param visit.hostname Host of the page itself, used to drop self-referrals
+ * @param visit.isLanding Whether the pageview is the first of its session
+ */
+export function classifyVisit(
+  visit: { referrer?: string; pageUrl: string; hostname?: string; isLanding: boolean },
+  utm: UtmParams = {}
+): VisitSource {
+  let host = getReferrerHost(visit.referrer);
+  const pageHost = getReferrerHost(visit.hostname);
+  const internal = !!host && host === pageHost;
+  if (internal) {
+    host = null;
+  }
+
+  const medium = (utm.medium || '').toLowerCase();
+  const paidClick = hasPaidClickId(visit.pageUrl);
+
+  if (!host && !utm.source && !medium && !paidClick) {
+    return internal && !visit.isLanding
+      ? { source: null, channel: null }
+      : { source: null, channel: 'Direct' };
+  }
+
+  const known = (host && findReferrerSource(host)) || (utm.source && findUtmSource(utm.source)) || undefined;
+  const source = known ? known.name : host || utm.source || null;
+
+  let channel: Channel;
+  if (paidClick || PAID_MEDIUMS.includes(medium)) {
+    channel = 'Paid';
+  } else if (EMAIL_MEDIUMS.includes(medium)) {
+    channel = 'Email';
+  } else if (SOCIAL_MEDIUMS.includes(medium)) {
+    channel = 'Social';
+  } else if (SEARCH_MEDIUMS.includes(medium)) {
+    channel = 'Organic Search';
+  } else if (known) {
+    channel = known.channel;
+  } else if (source) {
+    channel = 'Referral';
+  } else {
+    channel = 'Direct';
+  }
+
+  return { source, channel };
+}
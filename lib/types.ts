@@ -3,14 +3,39 @@
  */
 
 // Core web vitals types
-export type WebVitalName = 'LCP' | 'FCP' | 'CLS' | 'FID' | 'TTFB';
+export type WebVitalName = 'LCP' | 'FCP' | 'CLS' | 'FID' | 'INP' | 'TTFB';
 
 export type WebVitalRating = 'good' | 'needs-improvement' | 'poor';
 
+// Acquisition channel of a visit
+export type Channel = 'Direct' | 'Organic Search' | 'Social' | 'Email' | 'Referral' | 'Paid';
+
 export interface WebVitalMetric {
   name: WebVitalName;
   value: number;
   rating?: WebVitalRating;
+  attribution?: string; // Selector of the LCP element, largest CLS shift source or INP interaction target
+}
+
+// Site types
+export interface SiteData {
+  id: string;
+  name: string;
+  domain?: string;
+  allowedHosts?: string[];  // Hostnames beacons may come from, any host when empty
+  token?: string;           // Public token the snippet must send, not a secret
+  createdAt: number;
+}
+
+// Secret key of the server-side tracking API, the key itself is never stored
+export interface ApiKeyData {
+  id: number;
+  siteId: string;
+  name: string;
+  prefix: string;       // Start of the key, e.g. lwa_sk_3f2a9c
+  createdAt: number;
+  lastUsedAt?: number;
+  revokedAt?: number;
 }
 
 // User agent types
@@ -27,15 +52,44 @@ export interface UserAgentData {
 
 // Pageview types
 export interface PageviewData {
+  siteId: string;
   pageUrl: string;
   timestamp: number;
   sessionId: string;
   referrer?: string;
+  hostname?: string; // Host of the page, used to drop self-referrals
+  location?: GeoLocation | null;
   userAgent: string;
 }
 
+// Visitor location looked up from the IP address
+export interface GeoLocation {
+  country: string;   // ISO 3166-1 alpha-2 code
+  region?: string;
+  city?: string;
+}
+
+// Why a beacon was classified as bot traffic
+export type BotReason = 'user-agent' | 'headless' | 'headers';
+
+// Bot detected sending a beacon
+export interface BotDetection {
+  agent: string;  // Crawler or client name, e.g. Googlebot or curl
+  reason: BotReason;
+}
+
+// UTM campaign parameters of a landing page URL
+export interface UtmParams {
+  source?: string;
+  medium?: string;
+  campaign?: string;
+  term?: string;
+  content?: string;
+}
+
 // Custom event types
 export interface CustomEventData {
+  siteId: string;
   eventName: string;
   pageUrl: string;
   timestamp: number;
@@ -45,23 +99,150 @@ export interface CustomEventData {
 
 // Beacon payload types
 export interface BeaconPayload {
+  siteId?: string;
+  token?: string;       // Public site token, see SiteData
+  beaconId?: string;    // Client-generated, a beacon sent twice is stored once
   pageUrl: string;
-  timestamp: number;
+  timestamp?: number;   // Client clock, pageviews are stored with the server time
   sessionId: string;
   referrer?: string;
-  userAgent: string;
+  hostname?: string;
+  userAgent?: string;   // Sent by older snippets, the request header is used instead
+  webdriver?: boolean;  // navigator.webdriver, set by automation tools
   webVitals?: WebVitalMetric[];
 }
 
+// Web vitals payload sent after the pageview it was measured on
+export interface VitalsPayload {
+  siteId?: string;
+  token?: string;
+  beaconId?: string;
+  pageUrl: string;
+  timestamp?: number;
+  sessionId: string;
+  webVitals: WebVitalMetric[];
+}
+
+// Custom event payload sent to /api/events
+export interface EventPayload extends Omit<CustomEventData, 'siteId' | 'timestamp'> {
+  siteId?: string;
+  token?: string;
+  beaconId?: string;
+  timestamp?: number;
+  webdriver?: boolean;
+}
+
+// Why a payload field was rejected
+export type ValidationErrorCode =
+  | 'required'
+  | 'invalid_type'
+  | 'invalid_value'
+  | 'invalid_json'
+  | 'too_long'
+  | 'too_large'
+  | 'too_deep'
+  | 'out_of_range';
+
+// Failing field of a rejected payload, e.g. webVitals[0].value
+export interface FieldError {
+  field: string;
+  code: ValidationErrorCode;
+  message: string;
+}
+
+// Fields shared by every item of a batched /api/collect request
+interface CollectItemBase {
+  beaconId?: string;   // Client-generated, an item sent twice is stored once
+  sessionId: string;
+  pageUrl: string;
+  timestamp?: number;  // Client clock, corrected with the batch's sentAt
+}
+
+export type CollectItem =
+  | (CollectItemBase & { type: 'pageview'; referrer?: string; hostname?: string })
+  | (CollectItemBase & { type: 'vital' } & WebVitalMetric)
+  | (CollectItemBase & { type: 'event'; eventName: string; eventData?: Record<string, unknown> })
+  | (CollectItemBase & { type: 'engagement'; engagedMs: number });  // Time the page was visible
+
+export interface CollectPayload {
+  siteId?: string;
+  token?: string;
+  sentAt?: number;      // Client clock when the batch was sent
+  webdriver?: boolean;
+  items: CollectItem[];
+}
+
+// Item sent to /api/server/collect by a backend on behalf of a visitor, its
+// timestamp is taken from the backend's clock as is
+export type ServerItem = Extract<CollectItem, { type: 'pageview' | 'event' }> & {
+  ip?: string;          // Visitor IP address, required for pageviews
+  userAgent?: string;   // Visitor user agent
+};
+
+export interface ServerPayload {
+  items: ServerItem[];
+}
+
+// Outcome of one item of a batch
+export interface CollectItemResult {
+  success: boolean;
+  id?: number;          // Row of the pageview, event or engaged pageview
+  duplicate?: boolean;  // Whether the item was stored before, set for stored items
+  error?: string;
+  errors?: FieldError[];  // Failing fields of an invalid item
+}
+
 // Dashboard data types
 export interface PageviewStats {
   total: number;
   byDay: Array<{ date: string; count: number }>;
-  byPage: Array<{ page: string; count: number }>;
+  byPage: Array<{
+    page: string;              // Normalized page URL, or route pattern such as /product/[id]
+    count: number;
+    isRoute: boolean;
+  }>;
 }
 
+export interface SessionStats {
+  uniqueSessions: number;
+  uniqueVisitors: number;
+  bounceRate: number;          // Share of single-pageview sessions (0-1)
+  pagesPerSession: number;
+  avgSessionDuration: number;  // Milliseconds
+}
+
+// Visits by referrer source and channel, internal navigations excluded
 export interface ReferrerStats {
-  byReferrer: Array<{ referrer: string; count: number }>;
+  byReferrer: Array<{ referrer: string; count: number }>;  // Friendly source name or host, 'Direct' without one
+  byChannel: Array<{ channel: Channel; count: number }>;
+}
+
+// Sessions attributed to the UTM parameters of their landing page
+export interface CampaignBreakdown {
+  name: string;                // '(not set)' when the parameter is missing
+  sessions: number;
+  conversions: number;         // Sessions with a conversion event
+}
+
+export interface CampaignStats {
+  byCampaign: CampaignBreakdown[];
+  bySource: CampaignBreakdown[];
+  byMedium: CampaignBreakdown[];
+}
+
+// Sessions by location of their landing pageview
+export interface LocationStats {
+  byCountry: Array<{ country: string; count: number }>;
+  byRegion: Array<{ country: string; region: string; count: number }>;
+  byCity: Array<{ country: string; region: string | null; city: string; count: number }>;
+  map: Array<{ country: string; count: number }>;  // Every country, for map visualizations
+}
+
+// Beacons filtered as bot traffic
+export interface BotStats {
+  total: number;
+  byAgent: Array<{ agent: string; reason: BotReason; count: number }>;
+  byReason: Array<{ reason: BotReason; count: number }>;
 }
 
 export interface DeviceStats {
@@ -79,6 +260,34 @@ export interface WebVitalStats {
     p95: number;
     rating: WebVitalRating;
   }>;
+  worstPages: Array<{
+    name: WebVitalName;
+    pageUrl: string;
+    attribution: string;
+    average: number;
+    count: number;
+  }>;
+}
+
+export interface WebVitalPercentile {
+  name: WebVitalName;
+  p75: number;
+  count: number;
+  rating: WebVitalRating;
+}
+
+export interface WebVitalReport {
+  byPage: Array<WebVitalPercentile & { pageUrl: string }>;
+  byBrowser: Array<WebVitalPercentile & { browser: string }>;
+  byDeviceType: Array<WebVitalPercentile & { deviceType: string }>;
+  trend: Array<WebVitalPercentile & { date: string }>;
+  distribution: Array<{
+    name: WebVitalName;
+    good: number;              // Share of samples (0-1)
+    needsImprovement: number;
+    poor: number;
+    count: number;
+  }>;
 }
 
 export interface CustomEventStats {
@@ -92,11 +301,16 @@ export interface CustomEventStats {
 }
 
 export interface DashboardData {
+  site: SiteData;
   pageviews: PageviewStats;
+  sessions: SessionStats;
   referrers: ReferrerStats;
+  campaigns: CampaignStats;
+  locations: LocationStats;
   devices: DeviceStats;
   webVitals: WebVitalStats;
   customEvents: CustomEventStats;
+  bots: BotStats;
   timeRange: {
     start: number;
     end: number;
@@ -1,6 +1,17 @@
 /**
  * Utility functions for Lightweight Web Analytics
  */
+import { UtmParams, WebVitalMetric, WebVitalName } from '../types';
+import { METRIC_THRESHOLDS } from '../db/types';
+
+// Maximum stored length of a web vital attribution selector
+const MAX_ATTRIBUTION_LENGTH = 200;
+
+// Maximum stored length of a UTM parameter value
+const MAX_UTM_LENGTH = 100;
+
+// Query parameters read into UtmParams, e.g. utm_source -> source
+const UTM_KEYS: Array<keyof UtmParams> = ['source', 'medium', 'campaign', 'term', 'content'];
 
 /**
  * Generate a random session ID
@@ -36,6 +47,20 @@ export function formatDate(timestamp: number, format: 'short' | 'long' | 'date'
     }
 }
 
+/**
+ * Format a duration for display
+ * @param {number} ms Duration in milliseconds
+ * @returns {string} Duration such as "45s" or "3m 12s"
+ */
+export function formatDuration(ms: number): string {
+    const totalSeconds = Math.round(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+
+    if (minutes === 0) return `${seconds}s`;
+    return `${minutes}m ${seconds}s`;
+}
+
 /**
  * Truncate a string to a maximum length
  * @param {string} str String to truncate
@@ -83,25 +108,80 @@ export function parseUrlParams(url: string): Record<string, string> {
     return params;
 }
 
+/**
+ * Extract UTM campaign parameters from a page URL
+ * @param {string} url Page URL, with or without origin
+ * @returns {UtmParams} Non-empty utm_* values, without the "utm_" prefix
+ */
+export function extractUtmParams(url: string): UtmParams {
+    const utm: UtmParams = {};
+
+    let params: Record<string, string>;
+    try {
+        // The fragment is not part of the query string
+        params = parseUrlParams(url.split('#')[0].replace(/\+/g, ' '));
+    } catch {
+        // Malformed percent-encoding
+        return utm;
+    }
+
+    for (const key of UTM_KEYS) {
+        const value = (params[`utm_${key}`] || '').trim();
+        if (value) {
+            utm[key] = value.substring(0, MAX_UTM_LENGTH);
+        }
+    }
+
+    return utm;
+}
+
+/**
+ * Check whether a name is a supported web vital metric
+ * @param {string} name Metric name
+ * @returns {boolean} True for LCP, FCP, CLS, FID, INP and TTFB
+ */
+export function isWebVitalName(name: string): name is WebVitalName {
+    return Object.prototype.hasOwnProperty.call(METRIC_THRESHOLDS, name);
+}
+
 /**
  * Get rating for a web vital metric
- * @param {string} name Metric name (LCP, FID, CLS, etc.)
+ * @param {string} name Metric name (LCP, INP, CLS, etc.)
  * @param {number} value Metric value
  * @returns {'good' | 'needs-improvement' | 'poor'} Rating
  */
 export function getWebVitalRating(name: string, value: number): 'good' | 'needs-improvement' | 'poor' {
-    switch (name) {
-        case 'LCP':
-            return value <= 2500 ? 'good' : (value <= 4000 ? 'needs-improvement' : 'poor');
-        case 'FID':
-            return value <= 100 ? 'good' : (value <= 300 ? 'needs-improvement' : 'poor');
-        case 'CLS':
-            return value <= 0.1 ? 'good' : (value <= 0.25 ? 'needs-improvement' : 'poor');
-        case 'FCP':
-            return value <= 1800 ? 'good' : (value <= 3000 ? 'needs-improvement' : 'poor');
-        case 'TTFB':
-            return value <= 800 ? 'good' : (value <= 1800 ? 'needs-improvement' : 'poor');
-        default:
-            return 'needs-improvement';
+    if (!isWebVitalName(name)) {
+        return 'needs-improvement';
+    }
+
+    const threshold = METRIC_THRESHOLDS[name];
+    return value <= threshold.good ? 'good' : (value <= threshold.needsImprovement ? 'needs-improvement' : 'poor');
+}
+
+/**
+ * Keep the well-formed web vital metrics of a beacon
+ * @param {unknown[]} metrics Metrics as sent by the tracking snippet
+ * @returns {WebVitalMetric[]} Metrics with a known name and numeric value
+ */
+export function filterWebVitals(metrics: unknown[]): WebVitalMetric[] {
+    const valid: WebVitalMetric[] = [];
+
+    for (const metric of metrics) {
+        if (!metric || typeof metric !== 'object') continue;
+
+        const { name, value, rating, attribution } = metric as Record<string, unknown>;
+        if (typeof name !== 'string' || !isWebVitalName(name) || typeof value !== 'number') continue;
+
+        valid.push({
+            name,
+            value,
+            rating: rating as WebVitalMetric['rating'],
+            attribution: typeof attribution === 'string' && attribution
+                ? attribution.substring(0, MAX_ATTRIBUTION_LENGTH)
+                : undefined
+        });
     }
+
+    return valid;
 }
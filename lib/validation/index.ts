@@ -0,0 +1,471 @@
+/**
+ * Payload validation shared by the ingestion routes
+ *
+ * Beacons come from the open internet, so every field is checked for its
+ * type, length and range before anything reaches the database. Validators
+ * collect all failing fields instead of stopping at the first one, and the
+ * routes return them in a structured 400 response.
+ */
+import { NextResponse } from 'next/server';
+import {
+  BeaconPayload,
+  VitalsPayload,
+  EventPayload,
+  CollectItem,
+  ServerItem,
+  FieldError,
+  ValidationErrorCode,
+  WebVitalName
+} from '../types';
+import { METRIC_THRESHOLDS } from '../db/types';
+import { parseIp } from '../ip';
+
+// Limits of the ingestion payloads
+export const LIMITS = {
+  bodyBytes: 64 * 1024,          // Largest body navigator.sendBeacon queues
+  siteId: 64,
+  token: 128,
+  beaconId: 64,
+  sessionId: 128,
+  url: 2048,                     // Page URLs and referrers
+  hostname: 253,
+  eventName: 100,
+  eventDataBytes: 4096,          // eventData serialized as JSON
+  eventDataDepth: 5,             // Nesting levels of eventData, the object itself being one
+  attribution: 200,
+  webVitals: 10,                 // Metrics per /api/track or /api/vitals beacon
+  metricMs: 10 * 60 * 1000,      // Largest timing metric, CLS is a score
+  clsScore: 10,
+  batchItems: 50,                // Items per /api/collect or /api/server/collect request
+  itemAgeMs: 24 * 60 * 60 * 1000, // Oldest item of a batch, also the longest engagement
+  userAgent: 512,
+  serverItemAgeMs: 7 * 24 * 60 * 60 * 1000  // Oldest item a backend may record
+};
+
+// Oldest timestamp a client may report
+const MIN_TIMESTAMP = Date.UTC(2020, 0, 1);
+
+// Client clocks may run ahead, but not by more than a day
+const MAX_CLOCK_SKEW_MS = 24 * 60 * 60 * 1000;
+
+// Site identifiers as registered through the sites endpoint
+const SITE_ID_PATTERN = /^[a-z0-9-]+$/;
+
+const WEB_VITAL_NAMES = Object.keys(METRIC_THRESHOLDS) as WebVitalName[];
+const WEB_VITAL_RATINGS = ['good', 'needs-improvement', 'poor'];
+const ITEM_TYPES: Array<CollectItem['type']> = ['pageview', 'vital', 'event', 'engagement'];
+const SERVER_ITEM_TYPES: Array<ServerItem['type']> = ['pageview', 'event'];
+
+// A valid payload, or every field that failed
+export type Validated<T> = { value: T } | { errors: FieldError[] };
+
+type Fields = Record<string, unknown>;
+
+/**
+ * Collects the errors of one payload
+ */
+function createChecker(prefix = '') {
+  const errors: FieldError[] = [];
+
+  const fail = (field: string, code: ValidationErrorCode, message: string) => {
+    errors.push({ field: prefix + field, code, message: `${prefix + field} ${message}` });
+  };
+
+  const present = (field: string, value: unknown, required: boolean) => {
+    if (value === undefined || value === null || value === '') {
+      if (required) {
+        fail(field, 'required', 'is required');
+      }
+      return false;
+    }
+    return true;
+  };
+
+  const checker = {
+    errors,
+    fail,
+
+    string(field: string, value: unknown, maxLength: number, required = false) {
+      if (!present(field, value, required)) {
+        return;
+      }
+      if (typeof value !== 'string') {
+        fail(field, 'invalid_type', 'must be a string');
+      } else if (value.length > maxLength) {
+        fail(field, 'too_long', `must be at most ${maxLength} characters`);
+      }
+    },
+
+    number(field: string, value: unknown, min: number, max: number, required = false) {
+      if (!present(field, value, required)) {
+        return;
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        fail(field, 'invalid_type', 'must be a number');
+      } else if (value < min || value > max) {
+        fail(field, 'out_of_range', `must be between ${min} and ${max}`);
+      }
+    },
+
+    boolean(field: string, value: unknown) {
+      if (value !== undefined && value !== null && typeof value !== 'boolean') {
+        fail(field, 'invalid_type', 'must be a boolean');
+      }
+    },
+
+    oneOf(field: string, value: unknown, allowed: string[], required = false) {
+      if (present(field, value, required) && !allowed.includes(value as string)) {
+        fail(field, 'invalid_value', `must be one of ${allowed.join(', ')}`);
+      }
+    },
+
+    // Unix time in milliseconds, from 2020 up to a day ahead of the server clock
+    timestamp(field: string, value: unknown, now: number, max = now + MAX_CLOCK_SKEW_MS, min = MIN_TIMESTAMP) {
+      if (!present(field, value, false)) {
+        return;
+      }
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        fail(field, 'invalid_type', 'must be a Unix timestamp in milliseconds');
+      } else if (value < min || value > max) {
+        fail(field, 'out_of_range', 'is not a plausible time');
+      }
+    },
+
+    ip(field: string, value: unknown, required = false) {
+      if (!present(field, value, required)) {
+        return;
+      }
+      if (typeof value !== 'string') {
+        fail(field, 'invalid_type', 'must be a string');
+      } else if (parseIp(value) === null) {
+        fail(field, 'invalid_value', 'must be an IPv4 or IPv6 address');
+      }
+    },
+
+    siteId(value: unknown) {
+      checker.string('siteId', value, LIMITS.siteId);
+      if (typeof value === 'string' && value.length <= LIMITS.siteId && value && !SITE_ID_PATTERN.test(value)) {
+        fail('siteId', 'invalid_value', 'may only contain lowercase letters, digits and dashes');
+      }
+    },
+
+    // Fields of a metric, nested in field or, without a field, at the top level
+    webVital(field: string, metric: unknown) {
+      if (!isObject(metric)) {
+        fail(field, 'invalid_type', 'must be an object');
+        return;
+      }
+
+      const nested = (name: string) => field ? `${field}.${name}` : name;
+      const maxValue = metric.name === 'CLS' ? LIMITS.clsScore : LIMITS.metricMs;
+      checker.oneOf(nested('name'), metric.name, WEB_VITAL_NAMES, true);
+      checker.number(nested('value'), metric.value, 0, maxValue, true);
+      checker.oneOf(nested('rating'), metric.rating, WEB_VITAL_RATINGS);
+      checker.string(nested('attribution'), metric.attribution, LIMITS.attribution);
+    },
+
+    eventData(field: string, value: unknown) {
+      if (value === undefined || value === null) {
+        return;
+      }
+      if (!isObject(value)) {
+        fail(field, 'invalid_type', 'must be an object');
+      } else if (isDeeperThan(value, LIMITS.eventDataDepth)) {
+        fail(field, 'too_deep', `must be nested at most ${LIMITS.eventDataDepth} levels deep`);
+      } else if (Buffer.byteLength(JSON.stringify(value)) > LIMITS.eventDataBytes) {
+        fail(field, 'too_large', `must be at most ${LIMITS.eventDataBytes} bytes as JSON`);
+      }
+    }
+  };
+
+  return checker;
+}
+
+/**
+ * Whether a value is a plain JSON object
+ */
+function isObject(value: unknown): value is Fields {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Whether objects and arrays are nested in a JSON value more than levels deep
+ *
+ * Stops at the limit, so a body of nothing but brackets cannot exhaust the stack.
+ */
+function isDeeperThan(value: unknown, levels: number): boolean {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  return levels === 0 || Object.values(value as Fields).some(child => isDeeperThan(child, levels - 1));
+}
+
+/**
+ * Finish a validation
+ */
+function result<T>(errors: FieldError[], value: unknown): Validated<T> {
+  return errors.length > 0 ? { errors } : { value: value as T };
+}
+
+/**
+ * Read a JSON object body of at most LIMITS.bodyBytes
+ */
+export async function readJsonBody(req: Request): Promise<Validated<Fields>> {
+  const tooLarge: FieldError = {
+    field: 'body',
+    code: 'too_large',
+    message: `body must be at most ${LIMITS.bodyBytes} bytes`
+  };
+
+  const contentLength = parseInt(req.headers.get('content-length') || '', 10);
+  if (contentLength > LIMITS.bodyBytes) {
+    return { errors: [tooLarge] };
+  }
+
+  const text = await req.text();
+  if (Buffer.byteLength(text) > LIMITS.bodyBytes) {
+    return { errors: [tooLarge] };
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return { errors: [{ field: 'body', code: 'invalid_json', message: 'body must be valid JSON' }] };
+  }
+
+  if (!isObject(body)) {
+    return { errors: [{ field: 'body', code: 'invalid_type', message: 'body must be a JSON object' }] };
+  }
+
+  return { value: body };
+}
+
+/**
+ * Site of a payload, before the payload is validated
+ *
+ * Used to apply the rate limit of the site, anything but a string counts as
+ * the default site and is rejected by the validation.
+ */
+export function getPayloadSiteId(body: Fields, defaultSiteId: string): string {
+  return typeof body.siteId === 'string' && body.siteId ? body.siteId : defaultSiteId;
+}
+
+/**
+ * Validate a pageview beacon sent to /api/track
+ *
+ * Web vitals sent along with a pageview by older snippets are checked one
+ * by one with keepValidWebVitals instead, an invalid metric does not cost the
+ * others.
+ */
+export function validatePageview(body: Fields, now: number = Date.now()): Validated<BeaconPayload> {
+  const check = createChecker();
+
+  check.siteId(body.siteId);
+  check.string('token', body.token, LIMITS.token);
+  check.string('beaconId', body.beaconId, LIMITS.beaconId);
+  check.string('sessionId', body.sessionId, LIMITS.sessionId, true);
+  check.string('pageUrl', body.pageUrl, LIMITS.url, true);
+  check.string('referrer', body.referrer, LIMITS.url);
+  check.string('hostname', body.hostname, LIMITS.hostname);
+  check.timestamp('timestamp', body.timestamp, now);
+  check.boolean('webdriver', body.webdriver);
+
+  if (body.webVitals !== undefined && body.webVitals !== null) {
+    if (!Array.isArray(body.webVitals)) {
+      check.fail('webVitals', 'invalid_type', 'must be an array');
+    } else if (body.webVitals.length > LIMITS.webVitals) {
+      check.fail('webVitals', 'too_large', `must have at most ${LIMITS.webVitals} entries`);
+    }
+  }
+
+  return result(check.errors, body);
+}
+
+/**
+ * Keep the web vitals of an /api/track beacon that pass the checks of /api/vitals
+ */
+export function keepValidWebVitals(metrics: unknown[]): unknown[] {
+  return metrics.filter(metric => {
+    const check = createChecker();
+    check.webVital('', metric);
+    return check.errors.length === 0;
+  });
+}
+
+/**
+ * Validate web vitals sent to /api/vitals
+ */
+export function validateVitals(body: Fields, now: number = Date.now()): Validated<VitalsPayload> {
+  const check = createChecker();
+
+  check.siteId(body.siteId);
+  check.string('token', body.token, LIMITS.token);
+  check.string('beaconId', body.beaconId, LIMITS.beaconId);
+  check.string('sessionId', body.sessionId, LIMITS.sessionId, true);
+  check.string('pageUrl', body.pageUrl, LIMITS.url, true);
+  check.timestamp('timestamp', body.timestamp, now);
+
+  if (!Array.isArray(body.webVitals) || body.webVitals.length === 0) {
+    check.fail('webVitals', 'required', 'must be a non-empty array');
+  } else if (body.webVitals.length > LIMITS.webVitals) {
+    check.fail('webVitals', 'too_large', `must have at most ${LIMITS.webVitals} entries`);
+  } else {
+    body.webVitals.forEach((metric, index) => check.webVital(`webVitals[${index}]`, metric));
+  }
+
+  return result(check.errors, body);
+}
+
+/**
+ * Validate a custom event sent to /api/events
+ */
+export function validateEvent(body: Fields, now: number = Date.now()): Validated<EventPayload> {
+  const check = createChecker();
+
+  check.siteId(body.siteId);
+  check.string('token', body.token, LIMITS.token);
+  check.string('beaconId', body.beaconId, LIMITS.beaconId);
+  check.string('sessionId', body.sessionId, LIMITS.sessionId, true);
+  check.string('pageUrl', body.pageUrl, LIMITS.url, true);
+  check.string('eventName', body.eventName, LIMITS.eventName, true);
+  check.eventData('eventData', body.eventData);
+  check.timestamp('timestamp', body.timestamp, now);
+  check.boolean('webdriver', body.webdriver);
+
+  return result(check.errors, body);
+}
+
+/**
+ * Validate the envelope of a batch sent to /api/collect, items are
+ * validated one by one with validateCollectItem
+ */
+export function validateCollectPayload(
+  body: Fields,
+  now: number = Date.now()
+): Validated<{ siteId?: string; token?: string; sentAt?: number; webdriver?: boolean; items: unknown[] }> {
+  const check = createChecker();
+
+  check.siteId(body.siteId);
+  check.string('token', body.token, LIMITS.token);
+  check.timestamp('sentAt', body.sentAt, now);
+  check.boolean('webdriver', body.webdriver);
+
+  if (!Array.isArray(body.items) || body.items.length === 0) {
+    check.fail('items', 'required', 'must be a non-empty array');
+  } else if (body.items.length > LIMITS.batchItems) {
+    check.fail('items', 'too_large', `must have at most ${LIMITS.batchItems} entries`);
+  }
+
+  return result(check.errors, body);
+}
+
+/**
+ * Validate one item of a batch
+ *
+ * Items are timestamped by the same clock as the batch's sentAt, so an item
+ * from after sentAt is made up.
+ * @param index Position of the item, used in the field names
+ */
+export function validateCollectItem(
+  item: unknown,
+  index: number,
+  sentAt?: number,
+  now: number = Date.now()
+): Validated<CollectItem> {
+  const check = createChecker(`items[${index}].`);
+
+  if (!isObject(item)) {
+    return { errors: [{ field: `items[${index}]`, code: 'invalid_type', message: `items[${index}] must be an object` }] };
+  }
+
+  check.oneOf('type', item.type, ITEM_TYPES, true);
+  check.string('beaconId', item.beaconId, LIMITS.beaconId);
+  check.string('sessionId', item.sessionId, LIMITS.sessionId, true);
+  check.string('pageUrl', item.pageUrl, LIMITS.url, true);
+  check.timestamp('timestamp', item.timestamp, now, sentAt);
+
+  checkItemFields(check, item);
+
+  return result(check.errors, item);
+}
+
+/**
+ * Check the fields of an item that depend on its type
+ */
+function checkItemFields(check: ReturnType<typeof createChecker>, item: Fields) {
+  switch (item.type) {
+    case 'pageview':
+      check.string('referrer', item.referrer, LIMITS.url);
+      check.string('hostname', item.hostname, LIMITS.hostname);
+      break;
+    case 'vital':
+      check.webVital('', item);
+      break;
+    case 'event':
+      check.string('eventName', item.eventName, LIMITS.eventName, true);
+      check.eventData('eventData', item.eventData);
+      break;
+    case 'engagement':
+      check.number('engagedMs', item.engagedMs, 1, LIMITS.itemAgeMs, true);
+      break;
+  }
+}
+
+/**
+ * Validate a request to /api/server/collect, items are validated one by
+ * one with validateServerItem
+ *
+ * The site is the one of the API key, so the body does not name it.
+ */
+export function validateServerPayload(body: Fields): Validated<{ items: unknown[] }> {
+  const check = createChecker();
+
+  if (!Array.isArray(body.items) || body.items.length === 0) {
+    check.fail('items', 'required', 'must be a non-empty array');
+  } else if (body.items.length > LIMITS.batchItems) {
+    check.fail('items', 'too_large', `must have at most ${LIMITS.batchItems} entries`);
+  }
+
+  return result(check.errors, body);
+}
+
+/**
+ * Validate an item a backend records on behalf of a visitor
+ *
+ * Backends keep their clocks in sync, so timestamps are checked against the
+ * server clock and may be up to LIMITS.serverItemAgeMs old. Pageviews need
+ * the visitor's IP address, it identifies visitors like it does for beacons.
+ */
+export function validateServerItem(item: unknown, index: number, now: number = Date.now()): Validated<ServerItem> {
+  const check = createChecker(`items[${index}].`);
+
+  if (!isObject(item)) {
+    return { errors: [{ field: `items[${index}]`, code: 'invalid_type', message: `items[${index}] must be an object` }] };
+  }
+
+  check.oneOf('type', item.type, SERVER_ITEM_TYPES, true);
+  check.string('beaconId', item.beaconId, LIMITS.beaconId);
+  check.string('sessionId', item.sessionId, LIMITS.sessionId, true);
+  check.string('pageUrl', item.pageUrl, LIMITS.url, true);
+  check.timestamp('timestamp', item.timestamp, now, now + MAX_CLOCK_SKEW_MS, now - LIMITS.serverItemAgeMs);
+  check.ip('ip', item.ip, item.type === 'pageview');
+  check.string('userAgent', item.userAgent, LIMITS.userAgent);
+  checkItemFields(check, item);
+
+  return result(check.errors, item);
+}
+
+/**
+ * Build the 400 response listing the failing fields, or 413 for a body
+ * over LIMITS.bodyBytes
+ */
+export function invalidPayload(errors: FieldError[], headers?: Record<string, string>): NextResponse {
+  const tooLarge = errors.some(error => error.field === 'body' && error.code === 'too_large');
+
+  return NextResponse.json({
+    success: false,
+    error: tooLarge ? 'Payload too large' : 'Invalid payload',
+    errors
+  }, { status: tooLarge ? 413 : 400, headers });
+}
@@ -1,4 +1,4 @@
--- Lightweight Web Analytics - SQLite Schema
+-- Lightweight Web Analytics - initial SQLite schema
 
 -- User Agents table - stores parsed user agent information
 CREATE TABLE user_agents (
@@ -0,0 +1,20 @@
+-- Multiple sites: a sites table and a site_id on every tracked row
+
+-- Sites table - one row per tracked website
+CREATE TABLE sites (
+  id TEXT PRIMARY KEY,        -- Site identifier sent by the snippet (data-site)
+  name TEXT NOT NULL,         -- Display name shown in the dashboard
+  domain TEXT,                -- Primary hostname of the site
+  created_at INTEGER NOT NULL -- Unix timestamp in milliseconds
+);
+-- Default site used when the snippet does not send a site identifier
+INSERT INTO sites (id, name, created_at) VALUES ('default', 'Default', strftime('%s', 'now') * 1000);
+
+-- Existing rows belong to the default site
+ALTER TABLE pageviews ADD COLUMN site_id TEXT NOT NULL DEFAULT 'default' REFERENCES sites(id);
+ALTER TABLE web_vitals ADD COLUMN site_id TEXT NOT NULL DEFAULT 'default' REFERENCES sites(id);
+ALTER TABLE custom_events ADD COLUMN site_id TEXT NOT NULL DEFAULT 'default' REFERENCES sites(id);
+
+CREATE INDEX idx_pageviews_site_timestamp ON pageviews(site_id, timestamp);
+CREATE INDEX idx_web_vitals_site_timestamp ON web_vitals(site_id, timestamp);
+CREATE INDEX idx_custom_events_site_timestamp ON custom_events(site_id, timestamp);
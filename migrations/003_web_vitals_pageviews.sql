@@ -0,0 +1,12 @@
+-- Link web vitals to the pageview they were measured on
+
+ALTER TABLE web_vitals ADD COLUMN pageview_id INTEGER REFERENCES pageviews(id) ON DELETE SET NULL;
+CREATE INDEX idx_web_vitals_pageview_id ON web_vitals(pageview_id);
+
+-- Web vitals recorded until now were posted to /api/track, which recorded a
+-- pageview for each of them. Remember the last one, so that
+-- scripts/remove-vitals-pageviews.js only cleans up after these rows.
+CREATE TABLE legacy_web_vitals (
+  max_id INTEGER
+);
+INSERT INTO legacy_web_vitals (max_id) SELECT MAX(id) FROM web_vitals;
@@ -0,0 +1,4 @@
+-- Element responsible for LCP, CLS and INP values, and an index for per-metric reports
+
+ALTER TABLE web_vitals ADD COLUMN attribution TEXT;
+CREATE INDEX idx_web_vitals_site_metric_timestamp ON web_vitals(site_id, metric_name, timestamp);
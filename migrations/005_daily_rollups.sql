@@ -0,0 +1,67 @@
+-- Daily rollup tables - aggregates filled on insert that outlive raw data retention
+-- Dates are UTC days (YYYY-MM-DD)
+
+-- Finds earlier pageviews of a visitor when counting daily visitors
+CREATE INDEX idx_pageviews_site_ip_hash ON pageviews(site_id, ip_hash);
+
+-- Pageviews per page per day
+CREATE TABLE daily_pages (
+  site_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  page_url TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (site_id, date, page_url)
+);
+
+-- Pageviews per referrer per day ('' for direct visits)
+CREATE TABLE daily_referrers (
+  site_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  referrer TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (site_id, date, referrer)
+);
+
+-- Pageviews per browser, OS and device type per day
+CREATE TABLE daily_devices (
+  site_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  browser TEXT NOT NULL,
+  os TEXT NOT NULL,
+  device_type TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (site_id, date, browser, os, device_type)
+);
+
+-- Session totals per day, keyed by the day of the session's first pageview
+CREATE TABLE daily_sessions (
+  site_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  sessions INTEGER NOT NULL DEFAULT 0,
+  bounces INTEGER NOT NULL DEFAULT 0,       -- Sessions with a single pageview
+  pageviews INTEGER NOT NULL DEFAULT 0,
+  duration_sum INTEGER NOT NULL DEFAULT 0,  -- Milliseconds between first and last pageviews
+  visitors INTEGER NOT NULL DEFAULT 0,      -- Distinct IP hash + user agent pairs
+  PRIMARY KEY (site_id, date)
+);
+
+-- Custom events per name per day
+CREATE TABLE daily_events (
+  site_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  event_name TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (site_id, date, event_name)
+);
+
+-- Web vitals histogram per metric per day
+-- A bucket holds values in ((bucket - 1) * size, bucket * size], see HISTOGRAM_BUCKET_SIZES
+CREATE TABLE daily_vitals (
+  site_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  metric_name TEXT NOT NULL,
+  bucket INTEGER NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  value_sum REAL NOT NULL DEFAULT 0,
+  PRIMARY KEY (site_id, date, metric_name, bucket)
+);
@@ -0,0 +1,6 @@
+-- Expired data is purged by lib/db/retention.js instead of on every pageview insert
+
+DROP TRIGGER IF EXISTS cleanup_old_data;
+
+-- Finds user agents that are no longer referenced by any pageview
+CREATE INDEX idx_pageviews_user_agent_id ON pageviews(user_agent_id);
@@ -0,0 +1,23 @@
+-- UTM campaign parameters of pageview URLs, and a daily campaign rollup
+
+ALTER TABLE pageviews ADD COLUMN utm_source TEXT;
+ALTER TABLE pageviews ADD COLUMN utm_medium TEXT;
+ALTER TABLE pageviews ADD COLUMN utm_campaign TEXT;
+ALTER TABLE pageviews ADD COLUMN utm_term TEXT;
+ALTER TABLE pageviews ADD COLUMN utm_content TEXT;
+
+-- Finds the landing pageview of a session
+CREATE INDEX idx_pageviews_site_session_timestamp ON pageviews(site_id, session_id, timestamp);
+
+-- Sessions and conversions per campaign per day ('' for missing parameters)
+-- Sessions are counted on the day of their landing pageview, and only when it has UTM parameters
+CREATE TABLE daily_campaigns (
+  site_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  source TEXT NOT NULL,
+  medium TEXT NOT NULL,
+  campaign TEXT NOT NULL,
+  sessions INTEGER NOT NULL DEFAULT 0,
+  conversions INTEGER NOT NULL DEFAULT 0,  -- Sessions with a conversion event
+  PRIMARY KEY (site_id, date, source, medium, campaign)
+);
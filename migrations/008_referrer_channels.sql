@@ -0,0 +1,79 @@
+-- Normalized referrer sources and acquisition channels of pageviews
+--
+-- referrer_source is the friendly name of a known source or the referring host,
+-- NULL for direct visits. channel is NULL for internal navigations, which are
+-- not visits. Existing rows are backfilled with the referring host, and only
+-- the Direct and Referral channels, since the source list lives in code.
+
+ALTER TABLE pageviews ADD COLUMN referrer_source TEXT;
+ALTER TABLE pageviews ADD COLUMN channel TEXT;
+
+-- Host of every stored referrer: strip the scheme, path, query, fragment, port and www.
+CREATE TEMP TABLE referrer_hosts (referrer TEXT PRIMARY KEY, host TEXT NOT NULL);
+
+INSERT INTO referrer_hosts (referrer, host)
+SELECT referrer, lower(CASE WHEN instr(referrer, '://') > 0 THEN substr(referrer, instr(referrer, '://') + 3) ELSE referrer END)
+FROM (
+  SELECT referrer FROM pageviews WHERE referrer <> ''
+  UNION SELECT referrer FROM daily_referrers WHERE referrer <> ''
+);
+
+UPDATE temp.referrer_hosts SET host = substr(host, 1, instr(host || '/', '/') - 1);
+UPDATE temp.referrer_hosts SET host = substr(host, 1, instr(host || '?', '?') - 1);
+UPDATE temp.referrer_hosts SET host = substr(host, 1, instr(host || '#', '#') - 1);
+UPDATE temp.referrer_hosts SET host = substr(host, 1, instr(host || ':', ':') - 1);
+UPDATE temp.referrer_hosts SET host = substr(host, 5) WHERE host LIKE 'www.%';
+
+-- Referrers from the site's own domain are internal navigations
+CREATE TEMP TABLE site_hosts AS
+SELECT id as site_id, CASE WHEN lower(domain) LIKE 'www.%' THEN substr(lower(domain), 5) ELSE lower(domain) END as host
+FROM sites
+WHERE domain IS NOT NULL;
+
+UPDATE pageviews SET referrer_source = (
+  SELECT NULLIF(host, '') FROM temp.referrer_hosts WHERE referrer_hosts.referrer = pageviews.referrer
+);
+
+UPDATE pageviews SET channel = CASE
+  WHEN referrer_source IS NULL THEN 'Direct'
+  WHEN referrer_source IN (SELECT host FROM temp.site_hosts WHERE site_hosts.site_id = pageviews.site_id) THEN NULL
+  ELSE 'Referral'
+END;
+
+UPDATE pageviews SET referrer_source = NULL WHERE channel IS NULL;
+
+-- Visits per channel per day
+CREATE TABLE daily_channels (
+  site_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  channel TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (site_id, date, channel)
+);
+
+-- Visits per referrer source per day ('' for direct visits), replacing raw referrer URLs
+CREATE TABLE daily_referrer_sources (
+  site_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  referrer TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (site_id, date, referrer)
+);
+
+INSERT INTO daily_referrer_sources (site_id, date, referrer, count)
+SELECT d.site_id, d.date, COALESCE(h.host, ''), SUM(d.count)
+FROM daily_referrers d
+LEFT JOIN temp.referrer_hosts h ON h.referrer = d.referrer
+WHERE COALESCE(h.host, '') NOT IN (SELECT host FROM temp.site_hosts WHERE site_hosts.site_id = d.site_id)
+GROUP BY 1, 2, 3;
+
+INSERT INTO daily_channels (site_id, date, channel, count)
+SELECT site_id, date, CASE WHEN referrer = '' THEN 'Direct' ELSE 'Referral' END, SUM(count)
+FROM daily_referrer_sources
+GROUP BY 1, 2, 3;
+
+DROP TABLE daily_referrers;
+ALTER TABLE daily_referrer_sources RENAME TO daily_referrers;
+
+DROP TABLE temp.referrer_hosts;
+DROP TABLE temp.site_hosts;
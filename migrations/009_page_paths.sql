@@ -0,0 +1,51 @@
+-- Normalized page paths and route patterns for page reports
+--
+-- page_path is the page URL without query parameters, non-route fragments
+-- and trailing slashes, lowercased. page_route is the matching PAGE_ROUTES
+-- pattern. Existing rows are backfilled with the default settings and no
+-- routes; npm run db:rebuild-rollups re-applies the configured settings.
+
+ALTER TABLE pageviews ADD COLUMN page_path TEXT;
+ALTER TABLE pageviews ADD COLUMN page_route TEXT;
+
+CREATE TEMP TABLE page_paths (page_url TEXT PRIMARY KEY, path TEXT NOT NULL, hash TEXT NOT NULL DEFAULT '');
+
+INSERT INTO page_paths (page_url, path)
+SELECT page_url, page_url FROM pageviews
+UNION SELECT page_url, page_url FROM daily_pages;
+
+-- Split off fragments, keeping hash routes (#/ or #!/) without their query string
+UPDATE temp.page_paths SET hash = substr(path, instr(path, '#')), path = substr(path, 1, instr(path, '#') - 1)
+WHERE instr(path, '#') > 0;
+UPDATE temp.page_paths SET hash = '' WHERE hash NOT LIKE '#/%' AND hash NOT LIKE '#!/%';
+UPDATE temp.page_paths SET hash = substr(hash, 1, instr(hash || '?', '?') - 1);
+
+UPDATE temp.page_paths SET path = lower(substr(path, 1, instr(path || '?', '?') - 1)), hash = lower(hash);
+UPDATE temp.page_paths SET path = COALESCE(NULLIF(rtrim(path, '/'), ''), '/');
+UPDATE temp.page_paths SET hash = rtrim(hash, '/') || CASE WHEN rtrim(hash, '/') IN ('#', '#!') THEN '/' ELSE '' END
+WHERE hash <> '';
+
+UPDATE pageviews SET page_path = (
+  SELECT path || hash FROM temp.page_paths WHERE page_paths.page_url = pageviews.page_url
+);
+
+-- Pageviews per normalized page per day, replacing raw page URLs
+CREATE TABLE daily_page_paths (
+  site_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  page_url TEXT NOT NULL,
+  route TEXT,  -- Route pattern of the page, for drilling into the pages it groups
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (site_id, date, page_url)
+);
+
+INSERT INTO daily_page_paths (site_id, date, page_url, count)
+SELECT d.site_id, d.date, p.path || p.hash, SUM(d.count)
+FROM daily_pages d
+JOIN temp.page_paths p ON p.page_url = d.page_url
+GROUP BY 1, 2, 3;
+
+DROP TABLE daily_pages;
+ALTER TABLE daily_page_paths RENAME TO daily_pages;
+
+DROP TABLE temp.page_paths;
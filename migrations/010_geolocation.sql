@@ -0,0 +1,17 @@
+-- Visitor location looked up from the IP address before it is hashed
+
+ALTER TABLE pageviews ADD COLUMN country TEXT;  -- ISO 3166-1 alpha-2 code
+ALTER TABLE pageviews ADD COLUMN region TEXT;
+ALTER TABLE pageviews ADD COLUMN city TEXT;
+
+-- Sessions per location per day ('' for a missing region or city)
+-- Sessions are counted on the day of their landing pageview, and only when it has a country
+CREATE TABLE daily_locations (
+  site_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  country TEXT NOT NULL,
+  region TEXT NOT NULL,
+  city TEXT NOT NULL,
+  sessions INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (site_id, date, country, region, city)
+);
@@ -0,0 +1,10 @@
+-- Beacons from bots, crawlers and headless browsers, counted instead of recorded as traffic
+
+CREATE TABLE bot_hits (
+  site_id TEXT NOT NULL,
+  date TEXT NOT NULL,     -- UTC day, YYYY-MM-DD
+  agent TEXT NOT NULL,    -- Crawler or client name, e.g. Googlebot or curl
+  reason TEXT NOT NULL,   -- user-agent, headless or headers
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (site_id, date, agent, reason)
+);
@@ -0,0 +1,7 @@
+-- Token buckets of the rate limiter, shared by all workers using the database
+
+CREATE TABLE rate_limits (
+  key TEXT PRIMARY KEY,          -- route:site:client
+  tokens REAL NOT NULL,          -- Requests left, refilled over the window
+  updated_at INTEGER NOT NULL    -- Last request, buckets idle for a window are removed
+);
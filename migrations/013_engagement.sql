@@ -0,0 +1,3 @@
+-- Time a page was visible, reported by the snippet when the visitor leaves or hides it
+
+ALTER TABLE pageviews ADD COLUMN engaged_ms INTEGER;
@@ -0,0 +1,4 @@
+-- Where a site's beacons may come from, and the public token its snippet sends
+
+ALTER TABLE sites ADD COLUMN allowed_hosts TEXT;  -- JSON array of hostnames, any host when NULL or empty
+ALTER TABLE sites ADD COLUMN token TEXT;          -- Required in every beacon when set
@@ -0,0 +1,14 @@
+-- Secret keys of the server-side tracking API, only their hashes are stored
+
+CREATE TABLE api_keys (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  site_id TEXT NOT NULL REFERENCES sites(id),  -- Site the key records data for
+  name TEXT NOT NULL,                          -- What the key is used for, e.g. payment webhooks
+  key_prefix TEXT NOT NULL,                    -- Start of the key, shown to tell keys apart
+  key_hash TEXT NOT NULL UNIQUE,               -- SHA-256 of the key, hex encoded
+  created_at INTEGER NOT NULL,
+  last_used_at INTEGER,
+  revoked_at INTEGER                           -- Revoked keys are kept to show when they were used
+);
+
+CREATE INDEX idx_api_keys_site ON api_keys(site_id);
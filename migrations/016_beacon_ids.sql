@@ -0,0 +1,11 @@
+-- Ids the snippet gives every beacon, kept for a while so a beacon sent twice is stored once
+
+CREATE TABLE received_beacons (
+  site_id TEXT NOT NULL,
+  beacon_id TEXT NOT NULL,        -- Generated by the client for every pageview, vital, event and engagement
+  row_id INTEGER,                 -- Row the beacon was stored as, reported for duplicates
+  received_at INTEGER NOT NULL,   -- Ids older than DEDUPE_WINDOW_MINUTES are removed
+  PRIMARY KEY (site_id, beacon_id)
+) WITHOUT ROWID;
+
+CREATE INDEX idx_received_beacons_received_at ON received_beacons(received_at);
@@ -0,0 +1,7 @@
+-- Sites without an allowlist used to accept beacons from pages on any origin.
+-- CORS responses now require the origin on the allowlist, '*' for any host,
+-- so the sites of a database that already recorded traffic keep working.
+
+UPDATE sites SET allowed_hosts = '["*"]'
+WHERE (allowed_hosts IS NULL OR allowed_hosts = '[]')
+AND EXISTS (SELECT 1 FROM pageviews);
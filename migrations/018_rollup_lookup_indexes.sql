@@ -0,0 +1,15 @@
+-- Indexes for the lookups that update the rollups on every write
+--
+-- Conversions check whether a session already has an event. Without an index
+-- on the session the lookup scans every event of the site:
+--   before: SEARCH custom_events USING INDEX idx_custom_events_site_timestamp (site_id=?)
+--   after:  SEARCH custom_events USING COVERING INDEX idx_custom_events_site_session (site_id=? AND session_id=?)
+CREATE INDEX idx_custom_events_site_session ON custom_events(site_id, session_id);
+
+-- Visitors are counted once per day, which scanned a whole day of pageviews:
+--   before: SEARCH pageviews USING INDEX idx_pageviews_site_timestamp (site_id=? AND timestamp>? AND timestamp<?)
+--   after:  SEARCH pageviews USING INDEX idx_pageviews_site_ip_hash_timestamp (site_id=? AND ip_hash=? AND timestamp>? AND timestamp<?)
+-- The new index also serves every lookup of the one it replaces. Lookups of
+-- a session's pageviews already use idx_pageviews_site_session_timestamp.
+DROP INDEX idx_pageviews_site_ip_hash;
+CREATE INDEX idx_pageviews_site_ip_hash_timestamp ON pageviews(site_id, ip_hash, timestamp);
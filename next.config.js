@@ -7,20 +7,6 @@ const nextConfig = {
     experimental: {
         serverComponentsExternalPackages: ['better-sqlite3'],
     },
-    // Ensure API routes are accessible from any origin for the tracking snippet
-    async headers() {
-        return [
-            {
-                source: '/api/:path*',
-                headers: [
-                    { key: 'Access-Control-Allow-Credentials', value: 'true' },
-                    { key: 'Access-Control-Allow-Origin', value: '*' },
-                    { key: 'Access-Control-Allow-Methods', value: 'GET,POST,OPTIONS' },
-                    { key: 'Access-Control-Allow-Headers', value: 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version' },
-                ],
-            },
-        ];
-    },
 };
 
 module.exports = nextConfig;
@@ -2,17 +2,147 @@
  * Lightweight Web Analytics Tracking Snippet
  * 
  * This script collects and reports web vitals, pageviews, and custom events
- * to a self-hosted analytics endpoint.
+ * to a self-hosted analytics endpoint. Beacons are queued and sent in
+ * batches, on a timer and when the page is hidden or left.
  */
 
 (function() {
-  // Configuration
+  // Script tag that loaded the snippet (only available during initial execution)
+  const script = document.currentScript;
+
+  // Web vitals the snippet can report
+  const WEB_VITALS = ['LCP', 'INP', 'CLS', 'FCP', 'TTFB'];
+  // Oldest item the server dates correctly (LIMITS.itemAgeMs), older items are not kept for a retry
+  const MAX_ITEM_AGE = 24 * 60 * 60 * 1000;
+
+  // Configuration, see applySettings for the settings that can change it
   const config = {
-    endpoint: '/api/track',
-    eventsEndpoint: '/api/events',
+    siteId: undefined,
+    token: undefined,
+    // On the server the snippet is loaded from, unless data-host names the analytics server
+    collectEndpoint: new URL('/api/collect', (script && script.src) || location.href).href,
+    flushInterval: 5000, // Longest time an item waits in the queue
+    maxBatchSize: 20,
+    // Batches that could not be sent are kept for a retry, up to maxRetryItems
+    // items of at most retryMaxAge
+    maxRetryItems: 200,
+    retryMaxAge: MAX_ITEM_AGE,
+    retryBaseDelay: 5000, // Doubled after every failed retry
+    retryMaxDelay: 10 * 60 * 1000,
     sessionDuration: 30 * 60 * 1000, // 30 minutes
-    reportWebVitals: true
+    webVitals: WEB_VITALS,
+    // Include location.hash in page URLs for hash-based routers
+    hashRouting: false,
+    debug: false,
+    // Page paths that are not tracked
+    exclude: []
   };
+  applySettings(readAttributes());
+
+  // Collect endpoint of an analytics server, which may live under a path
+  function getEndpoint(host) {
+    // A base URL names a directory, with or without its trailing slash
+    return new URL('api/collect', String(host).replace(/\/?$/, '/')).href;
+  }
+
+  // Settings from the data-* attributes of the script tag
+  function readAttributes() {
+    const attribute = name => (script && script.getAttribute('data-' + name)) || undefined;
+    return {
+      host: attribute('host'),
+      siteId: attribute('site'),
+      token: attribute('token'),
+      sessionDuration: attribute('session-duration'),
+      webVitals: attribute('web-vitals'),
+      hashRouting: attribute('hash-routing'),
+      debug: attribute('debug'),
+      exclude: attribute('exclude'),
+      retryMaxAge: attribute('retry-max-age')
+    };
+  }
+
+  // Apply settings from data-* attributes or lwa.init(), durations are in
+  // minutes and lists may be comma-separated strings
+  function applySettings(settings) {
+    const minutes = value => parseFloat(value) > 0 ? parseFloat(value) * 60 * 1000 : undefined;
+    const list = value => (Array.isArray(value) ? value : String(value).split(','))
+      .map(entry => String(entry).trim())
+      .filter(Boolean);
+    const flag = value => value === true || value === 'true';
+
+    if (settings.host) {
+      config.collectEndpoint = getEndpoint(settings.host);
+    }
+    if (settings.siteId) {
+      config.siteId = String(settings.siteId);
+    }
+    if (settings.token) {
+      config.token = String(settings.token);
+    }
+    if (settings.sessionDuration !== undefined) {
+      config.sessionDuration = minutes(settings.sessionDuration) || config.sessionDuration;
+    }
+    if (settings.retryMaxAge !== undefined) {
+      config.retryMaxAge = Math.min(minutes(settings.retryMaxAge) || config.retryMaxAge, MAX_ITEM_AGE);
+    }
+    if (settings.webVitals !== undefined) {
+      config.webVitals = settings.webVitals === false || settings.webVitals === 'false'
+        ? []
+        : list(settings.webVitals === true ? WEB_VITALS : settings.webVitals)
+          .map(name => name.toUpperCase())
+          .filter(name => WEB_VITALS.indexOf(name) !== -1);
+    }
+    if (settings.hashRouting !== undefined) {
+      config.hashRouting = flag(settings.hashRouting);
+    }
+    if (settings.debug !== undefined) {
+      config.debug = flag(settings.debug);
+    }
+    if (settings.exclude !== undefined) {
+      config.exclude = list(settings.exclude);
+    }
+  }
+
+  // Log what the snippet does when debug is on
+  function log() {
+    if (config.debug) {
+      console.log.apply(console, ['[lwa]'].concat(Array.prototype.slice.call(arguments)));
+    }
+  }
+
+  // Whether a page path matches an exclude pattern, * matches any characters
+  function isExcluded(pathname) {
+    return config.exclude.some(pattern => new RegExp(
+      '^' + pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$'
+    ).test(pathname));
+  }
+
+  // Web vitals that describe the initial page load rather than the current route
+  const LOAD_METRICS = ['TTFB', 'FCP', 'LCP'];
+
+  // Page URL of the last recorded pageview, used to detect route changes
+  let lastPageUrl = null;
+  let lastSessionId = null;
+  
+  // Items waiting to be sent to the collect endpoint
+  const queue = [];
+  let flushTimer = null;
+  
+  // Batches that failed are stored here, so they survive until the next page load
+  const RETRY_KEY = 'lwa_retry_queue';
+  let retryTimer = null;
+  
+  // Time the current page has been visible, reported when it is left or hidden
+  let engagedMs = 0;
+  let visibleSince = null;
+  
+  // Whether the current page matches an exclude pattern
+  let pageExcluded = false;
+  
+  // Events tracked before the first pageview, sent right after it
+  let started = false;
+  const pending = [];
+  let webVitalsLoaded = false;
 
   // Generate or retrieve session ID
   function getSessionId() {
@@ -42,16 +172,28 @@
     });
   }
   
-  // Send data to analytics endpoint
-  function sendBeacon(url, data) {
-    if (navigator.sendBeacon) {
+  // Send data to analytics endpoint. Only a page that is being unloaded uses
+  // sendBeacon: a queued beacon reports no status, so a failed one is never retried.
+  function sendBatch(url, data, unloading) {
+    // Beacons sent while offline are lost, keep them until the connection is back
+    if (navigator.onLine === false) {
+      saveForRetry(url, data, 0, Date.now());
+      return;
+    }
+    
+    if (unloading && navigator.sendBeacon) {
       const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
       if (navigator.sendBeacon(url, blob)) {
         return;
       }
     }
     
-    // Fallback to fetch if sendBeacon fails or is not available
+    // Fetch reports the status, which decides whether the batch is retried
+    postBatch(url, data, 0);
+  }
+  
+  // Send a batch with fetch, which reports whether it arrived
+  function postBatch(url, data, attempts) {
     fetch(url, {
       method: 'POST',
       headers: {
@@ -60,108 +202,415 @@
       body: JSON.stringify(data),
       // Use keepalive to ensure the request completes even if the page unloads
       keepalive: true
+    }).then(response => {
+      // Invalid or rejected batches would fail again, only server errors and rate limits are retried
+      if (response.status >= 500 || response.status === 429) {
+        saveForRetry(url, data, attempts, Date.now() + getRetryDelay(attempts));
+      }
     }).catch(err => {
       // Silent fail - we don't want to affect user experience
       console.debug('Analytics error:', err);
+      saveForRetry(url, data, attempts, Date.now() + getRetryDelay(attempts));
     });
   }
   
+  // Exponential backoff between the retries of a batch
+  function getRetryDelay(attempts) {
+    return Math.min(config.retryBaseDelay * Math.pow(2, attempts), config.retryMaxDelay);
+  }
+  
+  // Batches waiting for a retry
+  function readRetryQueue() {
+    try {
+      const batches = JSON.parse(localStorage.getItem(RETRY_KEY) || '[]');
+      return Array.isArray(batches) ? batches : [];
+    } catch (err) {
+      return [];
+    }
+  }
+  
+  // Drop items past the maximum age, and the oldest items beyond the cap
+  function pruneRetryQueue(batches) {
+    const cutoff = Date.now() - config.retryMaxAge;
+    const kept = [];
+    let room = config.maxRetryItems;
+    
+    for (let i = batches.length - 1; i >= 0 && room > 0; i--) {
+      const items = batches[i].data.items.filter(item => item.timestamp >= cutoff).slice(-room);
+      if (items.length > 0) {
+        batches[i].data.items = items;
+        kept.unshift(batches[i]);
+        room -= items.length;
+      }
+    }
+    
+    return kept;
+  }
+  
+  // Store batches for a retry
+  function writeRetryQueue(batches) {
+    const kept = pruneRetryQueue(batches);
+    
+    try {
+      if (kept.length > 0) {
+        localStorage.setItem(RETRY_KEY, JSON.stringify(kept));
+      } else {
+        localStorage.removeItem(RETRY_KEY);
+      }
+    } catch (err) {
+      // Storage is full or disabled, the batches are lost
+      console.debug('Analytics error:', err);
+    }
+    
+    return kept;
+  }
+  
+  // Keep a batch that could not be sent
+  function saveForRetry(url, data, attempts, retryAt) {
+    log('Keeping ' + data.items.length + ' items for a retry at ' + new Date(retryAt).toISOString());
+    const batches = readRetryQueue();
+    batches.push({ url, data, attempts, retryAt });
+    scheduleRetry(writeRetryQueue(batches));
+  }
+  
+  // Retry the stored batches when the first of them is due
+  function scheduleRetry(batches) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+    
+    if (batches.length > 0 && navigator.onLine !== false) {
+      const retryAt = Math.min.apply(null, batches.map(batch => batch.retryAt));
+      retryTimer = setTimeout(retryFailed, Math.max(retryAt - Date.now(), 0));
+    }
+  }
+  
+  // Send the stored batches that are due, or all of them when the connection is back
+  function retryFailed(all) {
+    if (navigator.onLine === false) {
+      return;
+    }
+    
+    const now = Date.now();
+    const batches = readRetryQueue();
+    const due = batches.filter(batch => all === true || batch.retryAt <= now);
+    
+    // Batches that fail again are stored by postBatch
+    scheduleRetry(writeRetryQueue(batches.filter(batch => due.indexOf(batch) === -1)));
+    pruneRetryQueue(due).forEach(batch => {
+      // Items keep their session and beacon ids, the server stores each of them once
+      batch.data.sentAt = now;
+      postBatch(batch.url, batch.data, batch.attempts + 1);
+    });
+  }
+  
+  // Queue an item, sending the batch when it is full or after the flush interval
+  function enqueue(item) {
+    // Sent again unchanged when a beacon is repeated, so the server stores the item once
+    item.beaconId = generateId();
+    queue.push(item);
+    log('Queued ' + item.type, item);
+    
+    if (queue.length >= config.maxBatchSize) {
+      flush(false);
+    } else if (flushTimer === null) {
+      flushTimer = setTimeout(function() {
+        flush(false);
+      }, config.flushInterval);
+    }
+  }
+  
+  // Send all queued items, with sendBeacon when the page is being unloaded
+  function flush(unloading) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+    
+    while (queue.length > 0) {
+      log('Sending ' + Math.min(queue.length, config.maxBatchSize) + ' items to ' + config.collectEndpoint);
+      sendBatch(config.collectEndpoint, {
+        siteId: config.siteId,
+        token: config.token,
+        // Lets the server correct item timestamps for the visitor's clock
+        sentAt: Date.now(),
+        // Browsers controlled by automation tools, filtered as bot traffic
+        webdriver: navigator.webdriver === true || undefined,
+        items: queue.splice(0, config.maxBatchSize)
+      }, unloading);
+    }
+  }
+  
+  // Start counting engaged time while the page is visible
+  function startEngagement() {
+    if (!pageExcluded && visibleSince === null && document.visibilityState === 'visible') {
+      visibleSince = Date.now();
+    }
+  }
+  
+  // Queue the engaged time of the current page
+  function reportEngagement() {
+    if (visibleSince !== null) {
+      engagedMs += Date.now() - visibleSince;
+      visibleSince = null;
+    }
+    
+    if (engagedMs > 0 && lastPageUrl !== null) {
+      enqueue({
+        type: 'engagement',
+        sessionId: lastSessionId,
+        timestamp: Date.now(),
+        pageUrl: lastPageUrl,
+        engagedMs
+      });
+    }
+    engagedMs = 0;
+  }
+  
+  // Current page URL as recorded in analytics
+  function getPageUrl() {
+    const pageUrl = window.location.pathname + window.location.search;
+    return config.hashRouting ? pageUrl + window.location.hash : pageUrl;
+  }
+  
   // Track pageview
   function trackPageview() {
+    // Engagement belongs to the route that is being left
+    reportEngagement();
+    
+    const pageUrl = getPageUrl();
+    
+    // Nothing is recorded on excluded pages, they still refer the next pageview
+    pageExcluded = isExcluded(window.location.pathname);
+    if (pageExcluded) {
+      log('Not tracking excluded page ' + pageUrl);
+      window.__LWA_DATA = null;
+      lastPageUrl = pageUrl;
+      return;
+    }
+    
     const sessionId = getSessionId();
     const timestamp = Date.now();
-    const pageUrl = window.location.pathname + window.location.search;
-    const referrer = document.referrer;
-    const userAgent = navigator.userAgent;
+    // Client-side navigations are referred by the previous in-app URL
+    const referrer = lastPageUrl === null
+      ? document.referrer
+      : window.location.origin + lastPageUrl;
     
-    const data = {
+    enqueue({
+      type: 'pageview',
       sessionId,
       timestamp,
       pageUrl,
       referrer,
-      userAgent,
-      webVitals: [] // Will be populated later if reportWebVitals is true
+      hostname: window.location.hostname
+    });
+    
+    // Store data for web vitals reporting
+    window.__LWA_DATA = {
+      sessionId,
+      pageUrl,
+      timestamp
     };
     
-    // Send pageview data
-    sendBeacon(config.endpoint, data);
+    // Load metrics always belong to the page the visitor landed on
+    if (lastPageUrl === null) {
+      window.__LWA_LANDING_DATA = window.__LWA_DATA;
+    }
     
-    // Store data for web vitals reporting
-    if (config.reportWebVitals) {
-      window.__LWA_DATA = {
-        sessionId,
-        pageUrl,
-        timestamp
-      };
+    lastPageUrl = pageUrl;
+    lastSessionId = sessionId;
+    startEngagement();
+  }
+  
+  // Record a pageview when a client-side navigation changed the URL
+  function handleRouteChange() {
+    if (getPageUrl() !== lastPageUrl) {
+      trackPageview();
     }
   }
   
+  // Hook the History API so single-page-app navigations are tracked
+  function trackHistory() {
+    ['pushState', 'replaceState'].forEach(method => {
+      const original = history[method];
+      history[method] = function() {
+        const result = original.apply(this, arguments);
+        handleRouteChange();
+        return result;
+      };
+    });
+    
+    window.addEventListener('popstate', handleRouteChange);
+    
+    // Only changes the page URL with hash routing, which lwa.init() may turn on later
+    window.addEventListener('hashchange', handleRouteChange);
+  }
+  
   // Track custom event
-  window.lwaTrackEvent = function(eventName, eventData) {
+  function trackEvent(eventName, eventData) {
     if (!eventName) {
       console.error('Event name is required');
       return;
     }
     
+    if (pageExcluded) {
+      log('Not tracking event ' + eventName + ' on excluded page');
+      return;
+    }
+    
     const sessionId = getSessionId();
     const timestamp = Date.now();
-    const pageUrl = window.location.pathname + window.location.search;
+    const pageUrl = getPageUrl();
     
-    const data = {
+    enqueue({
+      type: 'event',
       sessionId,
       timestamp,
       pageUrl,
       eventName,
       eventData
-    };
+    });
+  }
+  
+  // Selector of the element responsible for a metric value, from web-vitals attribution
+  function getAttribution(metric) {
+    const attribution = metric.attribution;
+    if (!attribution) {
+      return undefined;
+    }
     
-    // Send event data
-    sendBeacon(config.eventsEndpoint, data);
-  };
+    let target;
+    switch (metric.name) {
+      case 'LCP':
+        target = attribution.element;
+        break;
+      case 'CLS':
+        target = attribution.largestShiftTarget;
+        break;
+      case 'INP':
+        target = attribution.eventTarget;
+        break;
+    }
+    
+    // The server accepts selectors of up to 200 characters
+    return target ? String(target).slice(0, 200) : undefined;
+  }
   
   // Report web vitals
   function reportWebVital(metric) {
-    if (!window.__LWA_DATA) {
+    const { name, value, rating } = metric;
+    // Other metrics are attached to the route that is current when they are reported
+    const pageData = LOAD_METRICS.indexOf(name) !== -1 ? window.__LWA_LANDING_DATA : window.__LWA_DATA;
+    if (!pageData || config.webVitals.indexOf(name) === -1) {
       return;
     }
     
-    const { name, value, rating } = metric;
-    const { sessionId, pageUrl } = window.__LWA_DATA;
+    const { sessionId, pageUrl } = pageData;
     const timestamp = Date.now();
     
-    const data = {
+    enqueue({
+      type: 'vital',
       sessionId,
       timestamp,
       pageUrl,
-      userAgent: navigator.userAgent,
-      webVitals: [{
-        name,
-        value,
-        rating
-      }]
-    };
+      name,
+      value,
+      rating,
+      attribution: getAttribution(metric)
+    });
+  }
+  
+  // Load the web-vitals library once some metrics are to be reported
+  function loadWebVitals() {
+    if (webVitalsLoaded || config.webVitals.length === 0) {
+      return;
+    }
+    
+    webVitalsLoaded = true;
+    import('web-vitals/attribution').then(({ onLCP, onINP, onCLS, onFCP, onTTFB }) => {
+      onLCP(reportWebVital);
+      onINP(reportWebVital);
+      onCLS(reportWebVital);
+      onFCP(reportWebVital);
+      onTTFB(reportWebVital);
+    });
+  }
+  
+  // Run a command of the global lwa API, e.g. lwa('event', 'signup', { plan: 'pro' })
+  function run(command) {
+    const args = Array.prototype.slice.call(command);
     
-    // Send web vital data
-    sendBeacon(config.endpoint, data);
+    switch (args[0]) {
+      case 'init':
+        applySettings(args[1] || {});
+        log('Settings', config);
+        if (started) {
+          loadWebVitals();
+        }
+        break;
+      case 'event':
+        if (started) {
+          trackEvent(args[1], args[2]);
+        } else {
+          pending.push(args);
+        }
+        break;
+      default:
+        console.error('Unknown analytics command:', args[0]);
+    }
   }
   
   // Initialize tracking
   function init() {
-    // Track initial pageview
+    // Send what earlier pages could not, once the backoff of each batch has passed
+    scheduleRetry(readRetryQueue());
+    window.addEventListener('online', function() {
+      retryFailed(true);
+    });
+    
+    // Track initial pageview, then the events tracked before it
     trackPageview();
+    started = true;
+    pending.splice(0).forEach(run);
+    
+    // Track client-side navigations
+    trackHistory();
+    
+    // Send the queue before the page may be discarded, and pause engagement while hidden
+    document.addEventListener('visibilitychange', function() {
+      if (document.visibilityState === 'hidden') {
+        reportEngagement();
+        flush(false);
+      } else {
+        startEngagement();
+      }
+    });
+    window.addEventListener('pagehide', function() {
+      reportEngagement();
+      flush(true);
+    });
     
     // Set up web vitals reporting
-    if (config.reportWebVitals && typeof window !== 'undefined') {
-      import('web-vitals').then(({ onLCP, onFID, onCLS, onFCP, onTTFB }) => {
-        onLCP(reportWebVital);
-        onFID(reportWebVital);
-        onCLS(reportWebVital);
-        onFCP(reportWebVital);
-        onTTFB(reportWebVital);
-      });
-    }
+    loadWebVitals();
   }
   
+  // Global API, replacing the window.lwa = window.lwa || [] stub that queued
+  // calls made before the snippet loaded. Queued settings apply before the
+  // first pageview.
+  const queued = Array.isArray(window.lwa) ? window.lwa : [];
+  const lwa = function() {
+    run(arguments);
+  };
+  lwa.init = function(settings) {
+    run(['init', settings]);
+  };
+  // Code written for the stub keeps working, e.g. lwa.push(['event', 'signup'])
+  lwa.push = function() {
+    Array.prototype.forEach.call(arguments, run);
+  };
+  window.lwa = lwa;
+  window.lwaTrackEvent = function(eventName, eventData) {
+    run(['event', eventName, eventData]);
+  };
+  queued.forEach(run);
+  
   // Run initialization when DOM is ready
   if (document.readyState === 'loading') {
     document.addEventListener('DOMContentLoaded', init);
@@ -0,0 +1,41 @@
+/**
+ * Delete analytics data older than its retention period
+ *
+ * Uses the same settings as the in-process retention job (see .env.example),
+ * so it can be scheduled with cron when RETENTION_INTERVAL_MINUTES=0.
+ *
+ * Usage: node scripts/purge-data.js [--dry-run]
+ */
+
+const fs = require('fs');
+const path = require('path');
+const Database = require('better-sqlite3');
+const { getRetentionConfig, purgeExpiredData, formatRetentionReport } = require('../lib/db/retention');
+
+// Get database path from environment or use default
+const DB_PATH = process.env.DB_PATH || path.join(process.cwd(), 'data', 'analytics.db');
+const DRY_RUN = process.argv.includes('--dry-run');
+
+if (!fs.existsSync(DB_PATH)) {
+  console.error('Database not found:', DB_PATH);
+  process.exit(1);
+}
+
+try {
+  console.log(`${DRY_RUN ? '[dry run] ' : ''}Purging expired data in: ${DB_PATH}`);
+  const db = new Database(DB_PATH);
+
+  // Enable foreign keys
+  db.pragma('foreign_keys = ON');
+
+  const report = purgeExpiredData(db, getRetentionConfig(), { dryRun: DRY_RUN });
+  console.log(formatRetentionReport(report));
+
+  const total = report.reduce((sum, entry) => sum + entry.deleted, 0);
+  console.log(`${DRY_RUN ? 'Would delete' : 'Deleted'} ${total} rows.`);
+
+  db.close();
+} catch (error) {
+  console.error('Error purging data:', error);
+  process.exit(1);
+}
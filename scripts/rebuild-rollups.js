@@ -0,0 +1,52 @@
+/**
+ * Rebuild the daily rollup tables from raw data
+ *
+ * Rollups are normally updated as pageviews, web vitals and events are
+ * recorded. Run this once after migrating a database that predates the
+ * rollup tables, or after editing raw rows by hand. Days that raw data
+ * still fully covers are recomputed from it; days before the raw retention
+ * cutoff only exist as rollups and are left untouched, except that their
+ * pages are regrouped.
+ *
+ * The page URL settings (PAGE_QUERY_PARAMS, PAGE_ROUTES, ...) are applied to
+ * stored pageviews first, so run this after changing them.
+ *
+ * Usage: node scripts/rebuild-rollups.js
+ */
+
+const fs = require('fs');
+const path = require('path');
+const Database = require('better-sqlite3');
+const { migrate } = require('../lib/db/migrate');
+const { getPageUrlConfig, normalizeStoredPages } = require('../lib/db/pages');
+const { getRetentionConfig } = require('../lib/db/retention');
+const { rebuildRollups } = require('../lib/db/rebuild');
+
+// Get database path from environment or use default
+const DB_PATH = process.env.DB_PATH || path.join(process.cwd(), 'data', 'analytics.db');
+
+if (!fs.existsSync(DB_PATH)) {
+  console.error('Database not found:', DB_PATH);
+  process.exit(1);
+}
+
+try {
+  console.log(`Rebuilding daily rollups in: ${DB_PATH}`);
+  const db = new Database(DB_PATH);
+
+  // Apply pending migrations, which create the rollup tables on older databases
+  migrate(db);
+
+  // Re-apply page URL normalization and route patterns
+  const pages = normalizeStoredPages(db, getPageUrlConfig());
+  console.log(`Normalized ${pages.pageviews} pageviews, ${pages.dailyPages} daily page rows.`);
+
+  for (const { table, firstDay, days } of rebuildRollups(db, getRetentionConfig())) {
+    console.log(`Rebuilt rollups of ${table} for ${days} site days${firstDay ? ` from ${firstDay}` : ''}.`);
+  }
+
+  db.close();
+} catch (error) {
+  console.error('Error rebuilding rollups:', error);
+  process.exit(1);
+}
@@ -0,0 +1,69 @@
+/**
+ * One-off cleanup for pageviews created by web vitals beacons
+ *
+ * Older versions of the tracking snippet posted every web vital measurement
+ * to /api/track, which recorded a pageview for each one. This script deletes
+ * those pageviews and links their web vitals to the real pageview, see
+ * lib/db/vitals-pageviews.js.
+ *
+ * The daily rollups still count the deleted pageviews, so the rollups of
+ * their days are rebuilt afterwards. Days before the raw data retention
+ * cutoff keep their rollups.
+ *
+ * Usage: node scripts/remove-vitals-pageviews.js [--dry-run]
+ */
+
+const fs = require('fs');
+const path = require('path');
+const Database = require('better-sqlite3');
+const { migrate } = require('../lib/db/migrate');
+const { getRetentionConfig } = require('../lib/db/retention');
+const { rebuildRollups } = require('../lib/db/rebuild');
+const { removeVitalsPageviews } = require('../lib/db/vitals-pageviews');
+
+// Get database path from environment or use default
+const DB_PATH = process.env.DB_PATH || path.join(process.cwd(), 'data', 'analytics.db');
+const DRY_RUN = process.argv.includes('--dry-run');
+
+if (!fs.existsSync(DB_PATH)) {
+  console.error('Database not found:', DB_PATH);
+  process.exit(1);
+}
+
+try {
+  console.log(`${DRY_RUN ? '[dry run] ' : ''}Cleaning up vitals pageviews in: ${DB_PATH}`);
+  const db = new Database(DB_PATH);
+
+  // Enable foreign keys
+  db.pragma('foreign_keys = ON');
+
+  // Older databases do not have the pageview reference yet
+  if (!DRY_RUN) {
+    migrate(db);
+  }
+
+  const result = removeVitalsPageviews(db, { dryRun: DRY_RUN });
+  if (!result.recorded) {
+    console.log('The web vitals posted to /api/track were not recorded when this database was migrated, nothing to clean up.');
+  }
+
+  if (DRY_RUN) {
+    db.close();
+    console.log(`Found ${result.deleted} pageviews created by web vitals beacons on ${result.days.length} site days`);
+    console.log('Dry run completed, no changes were made.');
+    process.exit(0);
+  }
+
+  console.log(`Deleted ${result.deleted} duplicate pageviews and linked ${result.linked} web vitals.`);
+
+  // Remove the deleted pageviews from the dashboard totals
+  if (result.days.length > 0) {
+    const [pageviews] = rebuildRollups(db, getRetentionConfig(), { days: result.days });
+    console.log(`Rebuilt the rollups of ${pageviews.days} of ${result.days.length} site days${pageviews.firstDay ? `, days before ${pageviews.firstDay} keep theirs` : ''}.`);
+  }
+
+  db.close();
+} catch (error) {
+  console.error('Error cleaning up vitals pageviews:', error);
+  process.exit(1);
+}
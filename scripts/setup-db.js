@@ -1,53 +1,62 @@
 /**
  * Database setup script for Lightweight Web Analytics
- * 
- * This script initializes the SQLite database with the required schema
- * and creates the data directory if it doesn't exist.
+ *
+ * This script creates the data directory if it doesn't exist and brings
+ * the SQLite database up to date by applying pending schema migrations.
+ *
+ * Usage: node scripts/setup-db.js [--dry-run]
  */
 
 const fs = require('fs');
 const path = require('path');
 const Database = require('better-sqlite3');
+const { MIGRATIONS_DIR, migrate } = require('../lib/db/migrate');
 
 // Get database path from environment or use default
 const DB_PATH = process.env.DB_PATH || path.join(process.cwd(), 'data', 'analytics.db');
+const DRY_RUN = process.argv.includes('--dry-run');
 
 // Ensure data directory exists
 const dataDir = path.dirname(DB_PATH);
-if (!fs.existsSync(dataDir)) {
+if (!fs.existsSync(dataDir) && !DRY_RUN) {
   console.log(`Creating data directory: ${dataDir}`);
   fs.mkdirSync(dataDir, { recursive: true });
 }
 
-// Read schema file
-const schemaPath = path.join(process.cwd(), 'schema.sql');
-if (!fs.existsSync(schemaPath)) {
-  console.error('Schema file not found:', schemaPath);
+if (!fs.existsSync(MIGRATIONS_DIR)) {
+  console.error('Migrations directory not found:', MIGRATIONS_DIR);
   process.exit(1);
 }
 
-const schema = fs.readFileSync(schemaPath, 'utf8');
+if (DRY_RUN && !fs.existsSync(DB_PATH)) {
+  console.error('Database not found:', DB_PATH);
+  process.exit(1);
+}
 
 // Initialize database
 try {
-  console.log(`Initializing database at: ${DB_PATH}`);
+  console.log(`${DRY_RUN ? '[dry run] ' : ''}Migrating database at: ${DB_PATH}`);
   const db = new Database(DB_PATH);
 
   // Enable WAL mode for better concurrency
-  db.pragma('journal_mode = WAL');
+  if (!DRY_RUN) {
+    db.pragma('journal_mode = WAL');
+  }
 
   // Enable foreign keys
   db.pragma('foreign_keys = ON');
 
-  // Execute schema
-  db.exec(schema);
-
-  // Verify tables were created
-  const tables = db.prepare("SELECT name FROM sqlite_master WHERE type='table'").all();
-  console.log('Created tables:');
-  tables.forEach(table => {
-    console.log(`- ${table.name}`);
-  });
+  // Apply pending migrations
+  const { from, to, applied } = migrate(db, { dryRun: DRY_RUN });
+  if (applied.length === 0) {
+    console.log(`Schema is up to date (version ${from}).`);
+  } else {
+    console.log(`${DRY_RUN ? 'Would apply' : 'Applied'} migrations:`);
+    applied.forEach(name => {
+      console.log(`- ${name}`);
+    });
+    console.log(`Schema version ${from} -> ${to}${DRY_RUN ? ' (rolled back)' : ''}`);
+  }
 
   db.close();
   console.log('Database setup completed successfully.');
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseAllowedHost,
+  parseAllowedHosts,
+  isHostAllowed,
+  getPageHosts,
+  checkSiteAccess,
+  isOriginAllowed,
+  getCorsHeaders,
+  generateSiteToken
+} from '@/lib/access';
+import { SiteData } from '@/lib/types';
+
+describe('Allowed hosts', () => {
+  it('should normalize allowlist entries', () => {
+    expect(parseAllowedHost(' Example.COM. ')).toBe('example.com');
+    expect(parseAllowedHost('*.example.com')).toBe('*.example.com');
+    expect(parseAllowedHost('https://example.com')).toBeNull();
+    expect(parseAllowedHost('*.*.example.com')).toBeNull();
+    expect(parseAllowedHost('*')).toBe('*');
+
+    expect(parseAllowedHosts(['example.com', 'EXAMPLE.com', 'blog.example.com'])).toEqual(['example.com', 'blog.example.com']);
+    expect(parseAllowedHosts(['example.com', 42])).toBeNull();
+    expect(parseAllowedHosts('example.com')).toBeNull();
+  });
+
+  it('should match hosts exactly or by wildcard', () => {
+    const allowedHosts = ['example.com', '*.example.org'];
+
+    expect(isHostAllowed('EXAMPLE.com', allowedHosts)).toBe(true);
+    expect(isHostAllowed('www.example.com', allowedHosts)).toBe(false);
+    expect(isHostAllowed('blog.example.org', allowedHosts)).toBe(true);
+    expect(isHostAllowed('example.org', allowedHosts)).toBe(false);
+    expect(isHostAllowed('badexample.org', allowedHosts)).toBe(false);
+  });
+
+  it('should collect the page hosts of beacons', () => {
+    expect(getPageHosts(
+      { hostname: 'Example.com', pageUrl: '/pricing' },
+      { pageUrl: 'https://blog.example.com/post' },
+      { pageUrl: 'not a url' },
+      null
+    )).toEqual(['example.com', 'blog.example.com']);
+  });
+});
+
+describe('Site access', () => {
+  const site: SiteData = { id: 'blog', name: 'Blog', allowedHosts: ['example.com'], token: 'site-token', createdAt: 0 };
+  const source = { origin: 'https://example.com', pageHosts: ['example.com'], token: 'site-token' };
+
+  it('should accept beacons from allowed hosts with the site token', () => {
+    expect(checkSiteAccess(site, source)).toBeNull();
+    // Server-side senders have no Origin header
+    expect(checkSiteAccess(site, { ...source, origin: null })).toBeNull();
+    expect(checkSiteAccess({ id: 'open', name: 'Open', createdAt: 0 }, { origin: 'https://any.site', pageHosts: [] })).toBeNull();
+  });
+
+  it('should give the reason a beacon is rejected', () => {
+    expect(checkSiteAccess(site, { ...source, token: undefined })).toBe('Missing or invalid site token');
+    expect(checkSiteAccess(site, { ...source, token: 'site-tokeN' })).toBe('Missing or invalid site token');
+    expect(checkSiteAccess(site, { ...source, origin: 'https://evil.example' })).toBe('Origin not allowed: https://evil.example');
+    expect(checkSiteAccess(site, { ...source, origin: 'null' })).toBe('Origin not allowed: null');
+    expect(checkSiteAccess(site, { ...source, pageHosts: ['example.com', 'mirror.example'] }))
+      .toBe('Page host not allowed: mirror.example');
+  });
+
+  it('should allow preflights from origins on the allowlist of a site', () => {
+    const sites: SiteData[] = [site, { id: 'docs', name: 'Docs', allowedHosts: ['*.example.org'], createdAt: 0 }];
+
+    expect(isOriginAllowed('https://docs.example.org', sites)).toBe(true);
+    expect(isOriginAllowed('https://evil.example', sites)).toBe(false);
+    // Sites without an allowlist need no CORS, any origin is an explicit '*'
+    expect(isOriginAllowed('https://evil.example', [...sites, { id: 'open', name: 'Open', createdAt: 0 }])).toBe(false);
+    expect(isOriginAllowed('https://evil.example', [...sites, { id: 'open', name: 'Open', allowedHosts: ['*'], createdAt: 0 }])).toBe(true);
+  });
+
+  it('should only send CORS headers to origins the site allows', () => {
+    expect(getCorsHeaders('https://example.com', site)).toEqual({ 'Access-Control-Allow-Origin': 'https://example.com', 'Vary': 'Origin' });
+    expect(getCorsHeaders('https://evil.example', site)).toEqual({});
+    expect(getCorsHeaders('https://example.com', { id: 'open', name: 'Open', createdAt: 0 })).toEqual({});
+    expect(getCorsHeaders('https://example.com', undefined)).toEqual({});
+    expect(getCorsHeaders(null, site)).toEqual({});
+  });
+
+  it('should generate distinct tokens', () => {
+    expect(generateSiteToken()).toMatch(/^[0-9a-f]{32}$/);
+    expect(generateSiteToken()).not.toBe(generateSiteToken());
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import { UAParser } from 'ua-parser-js';
+
+// Use a real in-memory database
+vi.hoisted(() => {
+  process.env.DB_PATH = ':memory:';
+});
+
+import { getDb, recordBotHit, getBotStats } from '@/lib/db';
+import { detectBot, getBotFilterMode } from '@/lib/bots';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CHROME = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+function detect(userAgent: string, headers: Record<string, string> = {}, webdriver = false) {
+  return detectBot(new Headers(headers), new UAParser(userAgent).getResult(), webdriver);
+}
+
+describe('Bot detection', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should let regular browsers through', () => {
+    expect(detect(CHROME, { 'accept-language': 'en-US' })).toBeNull();
+    expect(detect('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1')).toBeNull();
+  });
+
+  it('should detect crawlers and monitors by their user agent', () => {
+    expect(detect('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)')).toEqual({ agent: 'Googlebot', reason: 'user-agent' });
+    expect(detect('Mozilla/5.0 (compatible; UptimeRobot/2.0; http://www.uptimerobot.com/)')).toEqual({ agent: 'UptimeRobot', reason: 'user-agent' });
+    expect(detect('curl/8.4.0')).toEqual({ agent: 'curl', reason: 'user-agent' });
+    expect(detect('AcmeSync/1.2')).toEqual({ agent: 'AcmeSync', reason: 'user-agent' });
+  });
+
+  it('should detect headless and automated browsers', () => {
+    const headless = 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) HeadlessChrome/120.0.0.0 Safari/537.36';
+
+    expect(detect(headless)).toEqual({ agent: 'Chrome Headless', reason: 'headless' });
+    expect(detect(CHROME, { 'sec-ch-ua': '"HeadlessChrome";v="120"' })?.reason).toBe('headless');
+    expect(detect(CHROME, {}, true)).toEqual({ agent: 'Chrome', reason: 'headless' });
+  });
+
+  it('should detect bots from request headers', () => {
+    expect(detect('')).toEqual({ agent: 'Unknown', reason: 'headers' });
+    expect(detect(CHROME, { from: 'crawler@example.com' })?.reason).toBe('headers');
+  });
+
+  it('should read the filter mode from BOT_FILTERING', () => {
+    expect(getBotFilterMode()).toBe('count');
+
+    vi.stubEnv('BOT_FILTERING', 'Drop');
+    expect(getBotFilterMode()).toBe('drop');
+
+    vi.stubEnv('BOT_FILTERING', 'sometimes');
+    expect(getBotFilterMode()).toBe('count');
+  });
+});
+
+describe('Bot statistics', () => {
+  const now = Date.now();
+
+  beforeAll(() => {
+    getDb();
+    const googlebot = { agent: 'Googlebot', reason: 'user-agent' as const };
+
+    recordBotHit('default', googlebot, now);
+    recordBotHit('default', googlebot, now);
+    recordBotHit('default', googlebot, now - 2 * DAY_MS);
+    recordBotHit('default', { agent: 'Chrome Headless', reason: 'headless' }, now);
+    recordBotHit('other', googlebot, now);
+  });
+
+  it('should count bot hits per agent and reason', () => {
+    expect(getBotStats('default', now - 7 * DAY_MS, now)).toEqual({
+      total: 4,
+      byAgent: [
+        { agent: 'Googlebot', reason: 'user-agent', count: 3 },
+        { agent: 'Chrome Headless', reason: 'headless', count: 1 }
+      ],
+      byReason: [
+        { reason: 'user-agent', count: 3 },
+        { reason: 'headless', count: 1 }
+      ]
+    });
+
+    expect(getBotStats('default', now, now).total).toBe(3);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, afterAll, afterEach, vi } from 'vitest';
+import fs from 'fs';
+
+// Use a database file, so commits cost what they cost in production
+const { DB_FILE } = vi.hoisted(() => {
+  const DB_FILE = `${process.env.TMPDIR || '/tmp'}/lwa-buffer-${process.pid}.db`;
+  process.env.DB_PATH = DB_FILE;
+  return { DB_FILE };
+});
+
+import { getDb, insertUserAgent, insertPageview, bufferWrite, runBatch } from '@/lib/db';
+import { createWriteBuffer, getWriteBufferConfig, BatchRunner } from '@/lib/db/buffer';
+
+// Runs writes like runBatch, without a database
+const runInMemory: BatchRunner = <T>(writes: Array<() => T>) => writes.map(write => {
+  try {
+    return { value: write() };
+  } catch (error) {
+    return { error };
+  }
+});
+
+describe('Write buffer', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('should read its settings', () => {
+    expect(getWriteBufferConfig()).toEqual({ maxSize: 200, flushMs: 50 });
+
+    vi.stubEnv('WRITE_BUFFER_SIZE', '0');
+    vi.stubEnv('WRITE_BUFFER_FLUSH_MS', '10');
+    expect(getWriteBufferConfig()).toEqual({ maxSize: 1, flushMs: 10 });
+  });
+
+  it('should flush when full or after the flush interval', async () => {
+    vi.useFakeTimers();
+    const runBatch = vi.fn(runInMemory) as unknown as BatchRunner;
+    const buffer = createWriteBuffer(runBatch, { maxSize: 3, flushMs: 50 });
+
+    const first = [1, 2, 3].map(value => buffer.write(() => value));
+    expect(runBatch).toHaveBeenCalledTimes(1);
+    await expect(Promise.all(first)).resolves.toEqual([1, 2, 3]);
+
+    const late = buffer.write(() => 'late');
+    expect(buffer.size).toBe(1);
+    vi.advanceTimersByTime(50);
+    expect(runBatch).toHaveBeenCalledTimes(2);
+    await expect(late).resolves.toBe('late');
+  });
+
+  it('should only reject the writes that fail', async () => {
+    const buffer = createWriteBuffer(runInMemory, { maxSize: 10, flushMs: 50 });
+
+    const ok = buffer.write(() => 'ok');
+    const failing = buffer.write(() => {
+      throw new Error('constraint failed');
+    });
+    buffer.flush();
+
+    await expect(ok).resolves.toBe('ok');
+    await expect(failing).rejects.toThrow('constraint failed');
+  });
+
+  it('should reject the batch when its transaction fails', async () => {
+    const buffer = createWriteBuffer(() => {
+      throw new Error('database is locked');
+    }, { maxSize: 10, flushMs: 50 });
+
+    const write = buffer.write(() => 'lost');
+    buffer.flush();
+
+    await expect(write).rejects.toThrow('database is locked');
+  });
+});
+
+describe('Buffered ingestion', () => {
+  const COUNT = 1000;
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    getDb().close();
+    for (const suffix of ['', '-wal', '-shm']) {
+      fs.rmSync(DB_FILE + suffix, { force: true });
+    }
+  });
+
+  const pageview = (sessionId: string, index: number) => {
+    const userAgentId = insertUserAgent({ browser: 'Chrome', browserVersion: '125.0', os: 'Linux', deviceType: 'desktop' });
+    return insertPageview({
+      siteId: 'default',
+      sessionId: `${sessionId}-${index % 100}`,
+      pageUrl: `/page/${index % 20}`,
+      timestamp: Date.now(),
+      userAgent: 'test'
+    }, `10.0.${index % 250}.1`, userAgentId);
+  };
+
+  // Counts the transactions that commit, nested ones only add a savepoint
+  const countCommits = () => {
+    const db = getDb();
+    const transaction = db.transaction.bind(db);
+    const counter = { commits: 0 };
+    vi.spyOn(db, 'transaction').mockImplementation(fn => {
+      const run = transaction(fn);
+      return Object.assign((...args: unknown[]) => {
+        if (!db.inTransaction) {
+          counter.commits++;
+        }
+        return run(...args);
+      }, run) as typeof run;
+    });
+    return counter;
+  };
+
+  it('should commit buffered writes in batches instead of one transaction each', async () => {
+    const counter = countCommits();
+
+    // One transaction per pageview
+    for (let i = 0; i < COUNT; i++) {
+      runBatch([() => pageview('direct', i)]);
+    }
+    expect(counter.commits).toBe(COUNT);
+
+    counter.commits = 0;
+    const ids = await Promise.all(
+      Array.from({ length: COUNT }, (_, i) => bufferWrite(() => pageview('buffered', i)))
+    );
+    expect(counter.commits).toBe(COUNT / getWriteBufferConfig().maxSize);
+
+    expect(new Set(ids).size).toBe(COUNT);
+    expect(getDb().prepare('SELECT COUNT(*) AS count FROM pageviews').get()).toEqual({ count: 2 * COUNT });
+    expect(getDb().prepare('SELECT COUNT(*) AS count FROM user_agents').get()).toEqual({ count: 1 });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+
+// Use a real in-memory database so landing page attribution is exercised
+vi.hoisted(() => {
+  process.env.DB_PATH = ':memory:';
+});
+
+import { getDb, insertUserAgent, insertPageview, insertCustomEvent, getCampaignStats } from '@/lib/db';
+import { extractUtmParams } from '@/lib/utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('UTM parameters', () => {
+  it('should extract utm_* query parameters', () => {
+    expect(extractUtmParams('/pricing?utm_source=newsletter&utm_medium=email&utm_campaign=spring%20sale&ref=1')).toEqual({
+      source: 'newsletter',
+      medium: 'email',
+      campaign: 'spring sale'
+    });
+    expect(extractUtmParams('https://example.com/?utm_term=running+shoes&utm_content=hero#/app?utm_source=hash')).toEqual({
+      term: 'running shoes',
+      content: 'hero'
+    });
+  });
+
+  it('should ignore missing, empty and malformed parameters', () => {
+    expect(extractUtmParams('/')).toEqual({});
+    expect(extractUtmParams('/?utm_source=&utm_medium=%20')).toEqual({});
+    expect(extractUtmParams('/?utm_source=%E0%A4%A')).toEqual({});
+  });
+});
+
+describe('Campaign statistics', () => {
+  const now = Date.now();
+
+  beforeAll(() => {
+    getDb();
+    const agent = insertUserAgent({ browser: 'Chrome' });
+    const pageview = (sessionId: string, pageUrl: string, timestamp: number) =>
+      insertPageview({ siteId: 'default', sessionId, pageUrl, timestamp, userAgent: 'test' }, '10.0.0.1', agent);
+    const event = (sessionId: string, eventName: string) =>
+      insertCustomEvent({ siteId: 'default', sessionId, pageUrl: '/', timestamp: now, eventName });
+
+    // Two newsletter sessions, one of which converts twice
+    pageview('s1', '/?utm_source=newsletter&utm_medium=email&utm_campaign=spring', now - 5000);
+    pageview('s1', '/pricing', now - 4000);
+    event('s1', 'signup');
+    event('s1', 'purchase');
+    pageview('s2', '/?utm_source=newsletter&utm_medium=email&utm_campaign=spring', now - 3000);
+
+    // A paid search session without a campaign name
+    pageview('s3', '/?utm_source=google&utm_medium=cpc', now - 2000);
+    event('s3', 'signup');
+
+    // Untagged sessions, including UTM parameters after the landing page
+    pageview('s4', '/', now - 1000);
+    pageview('s4', '/?utm_source=internal', now - 500);
+    event('s4', 'signup');
+  });
+
+  it('should attribute sessions and conversions to the landing page campaign', () => {
+    const stats = getCampaignStats('default', now - DAY_MS, now + 1000);
+
+    expect(stats.byCampaign).toEqual([
+      { name: 'spring', sessions: 2, conversions: 1 },
+      { name: '(not set)', sessions: 1, conversions: 1 }
+    ]);
+    expect(stats.bySource).toEqual([
+      { name: 'newsletter', sessions: 2, conversions: 1 },
+      { name: 'google', sessions: 1, conversions: 1 }
+    ]);
+    expect(stats.byMedium).toEqual([
+      { name: 'email', sessions: 2, conversions: 1 },
+      { name: 'cpc', sessions: 1, conversions: 1 }
+    ]);
+  });
+
+  it('should report the same breakdowns from the daily rollups', () => {
+    const recent = getCampaignStats('default', now - DAY_MS, now + 1000);
+
+    expect(getCampaignStats('default', now - 90 * DAY_MS, now + 1000)).toEqual(recent);
+  });
+
+  it('should store UTM parameters as pageview columns', () => {
+    const row = getDb().prepare(`
+      SELECT page_url as pageUrl, utm_source as source, utm_campaign as campaign, utm_term as term
+      FROM pageviews WHERE session_id = 's3'
+    `).get();
+
+    expect(row).toEqual({ pageUrl: '/?utm_source=google&utm_medium=cpc', source: 'google', campaign: null, term: null });
+  });
+});
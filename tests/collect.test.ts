@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+
+// Use a real in-memory database so the batch transaction is exercised
+vi.hoisted(() => {
+  process.env.DB_PATH = ':memory:';
+});
+
+import { getDb, insertUserAgent } from '@/lib/db';
+import { collectItems, getItemTimestamp, CollectContext } from '@/lib/collect';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Batched collection', () => {
+  let context: CollectContext;
+
+  beforeAll(() => {
+    getDb();
+    const userAgentId = insertUserAgent({ browser: 'Chrome', os: 'Linux', deviceType: 'desktop' });
+    context = {
+      siteId: 'default',
+      hostname: 'example.com',
+      ip: '10.0.0.1',
+      userAgent: 'test',
+      location: null,
+      getUserAgentId: () => userAgentId
+    };
+  });
+
+  it('should write a mixed batch in order', async () => {
+    const results = await collectItems([
+      { type: 'pageview', sessionId: 'session-a', pageUrl: '/pricing', referrer: 'https://search.example.com/' },
+      { type: 'vital', sessionId: 'session-a', pageUrl: '/pricing', name: 'LCP', value: 1234, rating: 'good' },
+      { type: 'event', sessionId: 'session-a', pageUrl: '/pricing', eventName: 'signup', eventData: { plan: 'pro' } },
+      { type: 'engagement', sessionId: 'session-a', pageUrl: '/pricing', engagedMs: 4200 }
+    ], context, Date.now());
+
+    expect(results.every(result => result.success)).toBe(true);
+    const pageviewId = results[0].id;
+
+    const db = getDb();
+    expect(db.prepare('SELECT page_path, engaged_ms FROM pageviews WHERE id = ?').get(pageviewId))
+      .toEqual({ page_path: '/pricing', engaged_ms: 4200 });
+    expect(db.prepare('SELECT pageview_id FROM web_vitals WHERE session_id = ?').get('session-a'))
+      .toEqual({ pageview_id: pageviewId });
+    expect(db.prepare('SELECT event_data FROM custom_events WHERE id = ?').get(results[2].id))
+      .toEqual({ event_data: '{"plan":"pro"}' });
+    expect(results[3].id).toBe(pageviewId);
+  });
+
+  it('should report failing items without losing the rest of the batch', async () => {
+    const results = await collectItems([
+      { type: 'pageview', sessionId: 'session-b', pageUrl: '/' },
+      { type: 'click', sessionId: 'session-b', pageUrl: '/' },
+      { type: 'event', sessionId: 'session-b', pageUrl: '/' },
+      { type: 'vital', sessionId: 'session-b', pageUrl: '/', name: 'XYZ', value: 1 },
+      { type: 'engagement', sessionId: 'session-b', pageUrl: '/missing', engagedMs: 1000 },
+      null
+    ], context, Date.now());
+
+    const invalid = (field: string, code: string) => ({
+      success: false,
+      error: 'Invalid item',
+      errors: [expect.objectContaining({ field, code })]
+    });
+    expect(results).toEqual([
+      { success: true, id: expect.any(Number), duplicate: false },
+      invalid('items[1].type', 'invalid_value'),
+      invalid('items[2].eventName', 'required'),
+      invalid('items[3].name', 'invalid_value'),
+      { success: false, error: 'No pageview of the page in this session' },
+      invalid('items[5]', 'invalid_type')
+    ]);
+    expect(getDb().prepare('SELECT COUNT(*) AS count FROM pageviews WHERE session_id = ?').get('session-b'))
+      .toEqual({ count: 1 });
+  });
+
+  it('should date items by their age relative to the batch', () => {
+    const now = 1748935795115;
+
+    // The client clock is an hour behind, the item was queued 3 seconds before sending
+    expect(getItemTimestamp(now - 3600000 - 3000, now - 3600000, now)).toBe(now - 3000);
+    // Items from the future and without timestamps are recorded now
+    expect(getItemTimestamp(now + 5000, now, now)).toBe(now);
+    expect(getItemTimestamp(undefined, now, now)).toBe(now);
+    expect(getItemTimestamp(now - 1000, 'yesterday', now)).toBe(now);
+    // Very old items are clamped to the oldest allowed time
+    expect(getItemTimestamp(now - 3 * DAY_MS, now, now)).toBe(now - DAY_MS);
+  });
+});
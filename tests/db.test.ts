@@ -5,6 +5,8 @@ import {
   insertPageview,
   insertWebVitals,
   insertCustomEvent,
+  getSite,
+  getSessionStats,
   hashIp
 } from '@/lib/db';
 import path from 'path';
@@ -89,6 +91,13 @@ describe('Database Module', () => {
     expect(hashedIp).toBe('hashed-ip');
   });
 
+  it('should look up sites by id', () => {
+    const mockDb = getDb();
+    mockDb.prepare().get.mockReturnValueOnce({ id: 'blog', name: 'Blog', domain: null, allowedHosts: null, token: null, createdAt: 1 });
+
+    expect(getSite('blog')).toEqual({ id: 'blog', name: 'Blog', domain: undefined, allowedHosts: [], token: undefined, createdAt: 1 });
+  });
+
   it('should insert user agent data', () => {
     const userAgentData = {
       browser: 'Chrome',
@@ -131,6 +140,7 @@ describe('Database Module', () => {
 
   it('should insert pageview data', () => {
     const pageviewData = {
+      siteId: 'default',
       pageUrl: '/test-page',
       timestamp: Date.now(),
       sessionId: 'test-session-id',
@@ -161,6 +171,7 @@ describe('Database Module', () => {
 
   it('should insert custom event data', () => {
     const eventData = {
+      siteId: 'default',
       sessionId: 'test-session-id',
       pageUrl: '/test-page',
       timestamp: Date.now(),
@@ -175,4 +186,19 @@ describe('Database Module', () => {
     expect(mockDb.prepare).toHaveBeenCalled();
     expect(mockDb.prepare().run).toHaveBeenCalled();
   });
+
+  it('should derive session statistics from pageviews', () => {
+    const mockDb = getDb();
+    mockDb.prepare().get
+      .mockReturnValueOnce({ sessions: 4, bounces: 1, pagesPerSession: 2.5, avgDuration: 60000 })
+      .mockReturnValueOnce({ count: 3 });
+
+    expect(getSessionStats('default', Date.now() - 60 * 60 * 1000, Date.now())).toEqual({
+      uniqueSessions: 4,
+      uniqueVisitors: 3,
+      bounceRate: 0.25,
+      pagesPerSession: 2.5,
+      avgSessionDuration: 60000
+    });
+  });
 });
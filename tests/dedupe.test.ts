@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+
+// Use a real in-memory database, the ids are claimed in SQL
+vi.hoisted(() => {
+  process.env.DB_PATH = ':memory:';
+});
+
+import { getDb, insertUserAgent, insertCustomEvent } from '@/lib/db';
+import { getDedupeConfig, writeBeaconOnce } from '@/lib/db/dedupe';
+import { collectItems, CollectContext } from '@/lib/collect';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('Beacon deduplication', () => {
+  let context: CollectContext;
+
+  beforeAll(() => {
+    getDb();
+    const userAgentId = insertUserAgent({ browser: 'Chrome', os: 'Linux', deviceType: 'desktop' });
+    context = {
+      siteId: 'default',
+      ip: '10.0.0.1',
+      userAgent: 'test',
+      location: null,
+      getUserAgentId: () => userAgentId
+    };
+  });
+
+  const count = (table: string, sessionId: string) =>
+    (getDb().prepare(`SELECT COUNT(*) AS count FROM ${table} WHERE session_id = ?`).get(sessionId) as { count: number }).count;
+
+  it('should read the window', () => {
+    expect(getDedupeConfig()).toEqual({ windowMs: 24 * 60 * MINUTE_MS });
+
+    vi.stubEnv('DEDUPE_WINDOW_MINUTES', '0');
+    expect(getDedupeConfig()).toEqual({ windowMs: 0 });
+    vi.unstubAllEnvs();
+  });
+
+  it('should store a repeated batch once', async () => {
+    const batch = [
+      { beaconId: 'beacon-1', type: 'pageview', sessionId: 'session-a', pageUrl: '/' },
+      { beaconId: 'beacon-2', type: 'event', sessionId: 'session-a', pageUrl: '/', eventName: 'signup' },
+      { beaconId: 'beacon-3', type: 'engagement', sessionId: 'session-a', pageUrl: '/', engagedMs: 1000 },
+      { type: 'event', sessionId: 'session-a', pageUrl: '/', eventName: 'no_id' }
+    ];
+
+    const first = await collectItems(batch, context, Date.now());
+    const again = await collectItems(batch, context, Date.now());
+
+    expect(first.map(result => result.duplicate)).toEqual([false, false, false, false]);
+    expect(again.map(result => result.duplicate)).toEqual([true, true, true, false]);
+    expect(again.slice(0, 3).map(result => result.id)).toEqual(first.slice(0, 3).map(result => result.id));
+
+    expect(count('pageviews', 'session-a')).toBe(1);
+    expect(count('custom_events', 'session-a')).toBe(3);
+    expect(getDb().prepare('SELECT engaged_ms FROM pageviews WHERE session_id = ?').get('session-a')).toEqual({ engaged_ms: 1000 });
+  });
+
+  it('should release the id of an item that was not stored', async () => {
+    const engagement = { beaconId: 'beacon-4', type: 'engagement', sessionId: 'session-b', pageUrl: '/', engagedMs: 500 };
+
+    const [failed] = await collectItems([engagement], context, Date.now());
+    expect(failed).toEqual({ success: false, error: 'No pageview of the page in this session' });
+
+    const [, stored] = await collectItems([{ type: 'pageview', sessionId: 'session-b', pageUrl: '/' }, engagement], context, Date.now());
+    expect(stored).toMatchObject({ success: true, duplicate: false });
+  });
+
+  it('should store beacons again after the window', () => {
+    const db = getDb();
+    const config = { windowMs: 10 * MINUTE_MS };
+    const now = Date.now();
+    const write = () => insertCustomEvent({ siteId: 'default', sessionId: 'session-c', pageUrl: '/', eventName: 'retry', timestamp: now });
+
+    const first = writeBeaconOnce(db, config, 'default', 'beacon-5', write, now);
+    expect(writeBeaconOnce(db, config, 'default', 'beacon-5', write, now + 9 * MINUTE_MS)).toEqual({ id: first.id, duplicate: true });
+    // Ids are per site
+    expect(writeBeaconOnce(db, config, 'blog', 'beacon-5', write, now).duplicate).toBe(false);
+    expect(writeBeaconOnce(db, config, 'default', 'beacon-5', write, now + 11 * MINUTE_MS).duplicate).toBe(false);
+    expect(writeBeaconOnce(db, { windowMs: 0 }, 'default', 'beacon-5', write, now).duplicate).toBe(false);
+
+    expect(count('custom_events', 'session-c')).toBe(4);
+  });
+});
@@ -2,10 +2,20 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { NextRequest, NextResponse } from 'next/server';
 import * as db from '@/lib/db';
 
+// Keep rate limit buckets in memory, the database is mocked
+vi.hoisted(() => {
+  process.env.RATE_LIMIT_STORE = 'memory';
+});
+
 // Mock database functions
 vi.mock('@/lib/db', () => ({
+  bufferWrite: vi.fn(async (write: () => unknown) => write()),
+  writeOnce: vi.fn((siteId: string, beaconId: string | undefined, write: () => unknown) => ({ id: write(), duplicate: false })),
   insertCustomEvent: vi.fn().mockReturnValue(123),
-  hashIp: vi.fn().mockReturnValue('hashed-ip')
+  recordBotHit: vi.fn(),
+  getSite: vi.fn(() => ({ id: 'default', name: 'Default', createdAt: 0 })),
+  hashIp: vi.fn().mockReturnValue('hashed-ip'),
+  DEFAULT_SITE_ID: 'default'
 }));
 
 describe('Events API Route', () => {
@@ -45,11 +55,12 @@ describe('Events API Route', () => {
     expect(response.status).toBe(200);
 
     const responseData = await response.json();
-    expect(responseData).toEqual({ success: true, eventId: 123 });
+    expect(responseData).toEqual({ success: true, eventId: 123, duplicate: false });
 
     // Verify database calls
     expect(db.insertCustomEvent).toHaveBeenCalledTimes(1);
     expect(db.insertCustomEvent).toHaveBeenCalledWith({
+      siteId: 'default',
       sessionId: 'test-session-id',
       pageUrl: '/test-page',
       timestamp: 1748935795115,
@@ -87,6 +98,7 @@ describe('Events API Route', () => {
     // Verify database calls
     expect(db.insertCustomEvent).toHaveBeenCalledTimes(1);
     expect(db.insertCustomEvent).toHaveBeenCalledWith({
+      siteId: 'default',
       sessionId: 'test-session-id',
       pageUrl: '/test-page',
       timestamp: 1748935795115,
@@ -116,10 +128,34 @@ describe('Events API Route', () => {
     const responseData = await response.json();
     expect(responseData).toEqual({
       success: false,
-      error: 'Missing required fields: sessionId, pageUrl, or eventName'
+      error: 'Invalid payload',
+      errors: [{ field: 'sessionId', code: 'required', message: 'sessionId is required' }]
     });
 
     // Verify no database calls were made
     expect(db.insertCustomEvent).not.toHaveBeenCalled();
   });
+
+  it('should count events from automated browsers without recording them', async () => {
+    const mockHeaders = new Headers();
+    mockHeaders.set('user-agent', 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36');
+    mockHeaders.set('x-forwarded-for', '192.168.1.1');
+
+    const mockRequest = new NextRequest('https://example.com/api/events', {
+      method: 'POST',
+      headers: mockHeaders,
+      body: JSON.stringify({
+        sessionId: 'test-session-id',
+        pageUrl: '/test-page',
+        eventName: 'button_click',
+        webdriver: true
+      })
+    });
+
+    const response = await POST(mockRequest);
+    expect(response.status).toBe(200);
+
+    expect(db.recordBotHit).toHaveBeenCalledWith('default', expect.objectContaining({ reason: 'headless' }), 1748935795115);
+    expect(db.insertCustomEvent).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,148 @@
+/**
+ * Minimal MaxMind DB writer for geolocation test fixtures
+ *
+ * Writes an IPv4 database with 24-bit records in the GeoIP2 City layout,
+ * following https://maxmind.github.io/MaxMind-DB/. Only the value types the
+ * fixtures need are supported: maps, arrays, strings and unsigned integers.
+ */
+import fs from 'fs';
+
+type MmdbValue = string | number | MmdbValue[] | { [key: string]: MmdbValue };
+
+export interface FixtureNetwork {
+  network: string;  // CIDR, e.g. 81.2.69.0/24
+  record: MmdbValue;
+}
+
+const METADATA_MARKER = Buffer.from('abcdef4d61784d696e642e636f6d', 'hex');
+
+// Data section types, extended types are above 7
+const TYPE_STRING = 2;
+const TYPE_UINT32 = 6;
+const TYPE_MAP = 7;
+const TYPE_ARRAY = 11;
+
+function controlBytes(type: number, size: number): Buffer {
+  const bytes: number[] = [];
+  let sizeBits: number;
+  const sizeBytes: number[] = [];
+
+  if (size < 29) {
+    sizeBits = size;
+  } else if (size < 285) {
+    sizeBits = 29;
+    sizeBytes.push(size - 29);
+  } else {
+    sizeBits = 30;
+    sizeBytes.push((size - 285) >> 8, (size - 285) & 0xff);
+  }
+
+  if (type > 7) {
+    bytes.push(sizeBits, type - 7);
+  } else {
+    bytes.push((type << 5) | sizeBits);
+  }
+
+  return Buffer.from([...bytes, ...sizeBytes]);
+}
+
+function encode(value: MmdbValue): Buffer {
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([controlBytes(TYPE_STRING, bytes.length), bytes]);
+  }
+
+  if (typeof value === 'number') {
+    const bytes: number[] = [];
+    for (let remaining = value; remaining > 0; remaining = Math.floor(remaining / 256)) {
+      bytes.unshift(remaining % 256);
+    }
+    return Buffer.concat([controlBytes(TYPE_UINT32, bytes.length), Buffer.from(bytes)]);
+  }
+
+  if (Array.isArray(value)) {
+    return Buffer.concat([controlBytes(TYPE_ARRAY, value.length), ...value.map(encode)]);
+  }
+
+  const entries = Object.entries(value);
+  return Buffer.concat([
+    controlBytes(TYPE_MAP, entries.length),
+    ...entries.flatMap(([key, entry]) => [encode(key), encode(entry)])
+  ]);
+}
+
+/**
+ * Write a database mapping each network to its record
+ */
+export function writeMmdb(file: string, networks: FixtureNetwork[]): void {
+  // Search tree nodes hold two records: a node index, a data offset, or empty
+  type TreeRecord = { node: number } | { data: number } | null;
+  const nodes: Array<[TreeRecord, TreeRecord]> = [[null, null]];
+  const dataParts: Buffer[] = [];
+  let dataSize = 0;
+
+  for (const { network, record } of networks) {
+    const [address, prefix] = network.split('/');
+    const bits = address.split('.').reduce((ip, octet) => ip * 256 + parseInt(octet, 10), 0);
+    const encoded = encode(record);
+
+    let node = 0;
+    for (let depth = 0; depth < parseInt(prefix, 10); depth++) {
+      const bit = Math.floor(bits / 2 ** (31 - depth)) % 2;
+      if (depth === parseInt(prefix, 10) - 1) {
+        nodes[node][bit] = { data: dataSize };
+      } else {
+        const next = nodes[node][bit];
+        if (next && 'node' in next) {
+          node = next.node;
+        } else {
+          nodes.push([null, null]);
+          nodes[node][bit] = { node: nodes.length - 1 };
+          node = nodes.length - 1;
+        }
+      }
+    }
+
+    dataParts.push(encoded);
+    dataSize += encoded.length;
+  }
+
+  const nodeCount = nodes.length;
+  const recordValue = (record: TreeRecord) => {
+    if (!record) {
+      return nodeCount;
+    }
+    return 'node' in record ? record.node : nodeCount + 16 + record.data;
+  };
+
+  const tree = Buffer.alloc(nodeCount * 6);
+  nodes.forEach(([left, right], index) => {
+    tree.writeUIntBE(recordValue(left), index * 6, 3);
+    tree.writeUIntBE(recordValue(right), index * 6 + 3, 3);
+  });
+
+  const metadata = encode({
+    node_count: nodeCount,
+    record_size: 24,
+    ip_version: 4,
+    database_type: 'GeoIP2-City',
+    languages: ['en'],
+    binary_format_major_version: 2,
+    binary_format_minor_version: 0,
+    build_epoch: Math.floor(Date.now() / 1000),
+    description: { en: 'Lightweight Web Analytics test fixture' }
+  });
+
+  fs.writeFileSync(file, Buffer.concat([tree, Buffer.alloc(16), ...dataParts, METADATA_MARKER, metadata]));
+}
+
+/**
+ * GeoIP2 City record for a fixture network
+ */
+export function cityRecord(country: { iso: string; name: string }, region?: string, city?: string): MmdbValue {
+  return {
+    country: { geoname_id: 1, iso_code: country.iso, names: { en: country.name } },
+    ...(region ? { subdivisions: [{ geoname_id: 2, iso_code: 'XX', names: { en: region } }] } : {}),
+    ...(city ? { city: { geoname_id: 3, names: { en: city } } } : {})
+  };
+}
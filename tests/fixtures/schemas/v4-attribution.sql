@@ -0,0 +1,102 @@
+-- schema.sql with web vitals attribution, before its index, kept to test the upgrade of databases created from it
+
+-- Lightweight Web Analytics - SQLite Schema
+
+-- Sites table - one row per tracked website
+CREATE TABLE sites (
+  id TEXT PRIMARY KEY,        -- Site identifier sent by the snippet (data-site)
+  name TEXT NOT NULL,         -- Display name shown in the dashboard
+  domain TEXT,                -- Primary hostname of the site
+  created_at INTEGER NOT NULL -- Unix timestamp in milliseconds
+);
+-- Default site used when the snippet does not send a site identifier
+INSERT INTO sites (id, name, created_at) VALUES ('default', 'Default', strftime('%s', 'now') * 1000);
+
+-- User Agents table - stores parsed user agent information
+CREATE TABLE user_agents (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  browser TEXT NOT NULL,
+  browser_version TEXT,
+  os TEXT,
+  os_version TEXT,
+  device_type TEXT,           -- "desktop", "mobile", "tablet", etc.
+  device_vendor TEXT,
+  device_model TEXT
+);
+-- Indexes for efficient querying
+CREATE INDEX idx_user_agents_browser ON user_agents(browser);
+CREATE INDEX idx_user_agents_os ON user_agents(os);
+CREATE INDEX idx_user_agents_device_type ON user_agents(device_type);
+
+-- Pageviews table - stores information about page visits
+CREATE TABLE pageviews (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  site_id TEXT NOT NULL DEFAULT 'default', -- Foreign key to sites table
+  page_url TEXT NOT NULL,
+  timestamp INTEGER NOT NULL, -- Unix timestamp in milliseconds
+  session_id TEXT NOT NULL,   -- Anonymous session identifier
+  referrer TEXT,              -- Where the visitor came from
+  ip_hash TEXT,               -- Anonymized IP address (hashed)
+  user_agent_id INTEGER,      -- Foreign key to user_agents table
+  FOREIGN KEY (site_id) REFERENCES sites(id),
+  FOREIGN KEY (user_agent_id) REFERENCES user_agents(id)
+);
+-- Indexes for efficient querying
+CREATE INDEX idx_pageviews_timestamp ON pageviews(timestamp);
+CREATE INDEX idx_pageviews_page_url ON pageviews(page_url);
+CREATE INDEX idx_pageviews_session_id ON pageviews(session_id);
+CREATE INDEX idx_pageviews_site_timestamp ON pageviews(site_id, timestamp);
+
+-- Web Vitals table - stores core web vitals metrics
+CREATE TABLE web_vitals (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  pageview_id INTEGER,        -- Pageview the measurement was taken on
+  session_id TEXT NOT NULL,
+  page_url TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  metric_name TEXT NOT NULL,  -- LCP, FCP, CLS, etc.
+  metric_value REAL NOT NULL, -- Numeric value of the metric
+  metric_rating TEXT,         -- "good", "needs-improvement", "poor"
+  attribution TEXT,           -- Element responsible for the value (LCP, CLS, INP)
+  FOREIGN KEY (site_id) REFERENCES sites(id),
+  FOREIGN KEY (pageview_id) REFERENCES pageviews(id) ON DELETE SET NULL
+);
+-- Indexes for efficient querying
+CREATE INDEX idx_web_vitals_timestamp ON web_vitals(timestamp);
+CREATE INDEX idx_web_vitals_page_url ON web_vitals(page_url);
+CREATE INDEX idx_web_vitals_metric_name ON web_vitals(metric_name);
+CREATE INDEX idx_web_vitals_site_timestamp ON web_vitals(site_id, timestamp);
+CREATE INDEX idx_web_vitals_pageview_id ON web_vitals(pageview_id);
+
+-- Custom Events table - stores user-defined events
+CREATE TABLE custom_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  site_id TEXT NOT NULL DEFAULT 'default',
+  session_id TEXT NOT NULL,
+  page_url TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  event_name TEXT NOT NULL,   -- Name of the custom event
+  event_data TEXT,            -- JSON string of event metadata
+  FOREIGN KEY (site_id) REFERENCES sites(id)
+);
+-- Indexes for efficient querying
+CREATE INDEX idx_custom_events_timestamp ON custom_events(timestamp);
+CREATE INDEX idx_custom_events_event_name ON custom_events(event_name);
+CREATE INDEX idx_custom_events_site_timestamp ON custom_events(site_id, timestamp);
+
+-- Data Retention trigger - automatically deletes data older than 30 days
+CREATE TRIGGER cleanup_old_data AFTER INSERT ON pageviews
+BEGIN
+  -- Delete pageviews older than 30 days
+  DELETE FROM pageviews WHERE timestamp < (strftime('%s', 'now') * 1000) - (30 * 24 * 60 * 60 * 1000);
+  
+  -- Delete web vitals older than 30 days
+  DELETE FROM web_vitals WHERE timestamp < (strftime('%s', 'now') * 1000) - (30 * 24 * 60 * 60 * 1000);
+  
+  -- Delete custom events older than 30 days
+  DELETE FROM custom_events WHERE timestamp < (strftime('%s', 'now') * 1000) - (30 * 24 * 60 * 60 * 1000);
+  
+  -- Clean up unused user agents
+  DELETE FROM user_agents WHERE id NOT IN (SELECT DISTINCT user_agent_id FROM pageviews);
+END;
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { writeMmdb, cityRecord } from './fixtures/mmdb';
+
+// Use a real in-memory database
+vi.hoisted(() => {
+  process.env.DB_PATH = ':memory:';
+});
+
+import { getDb, insertUserAgent, insertPageview, getLocationStats } from '@/lib/db';
+import { lookupLocation } from '@/lib/geo';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const GERMANY = { iso: 'DE', name: 'Germany' };
+const NEW_ZEALAND = { iso: 'NZ', name: 'New Zealand' };
+
+let dbPath: string;
+
+beforeAll(() => {
+  dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'lwa-geo-')), 'city.mmdb');
+  writeMmdb(dbPath, [
+    { network: '81.2.69.0/24', record: cityRecord(GERMANY, 'Bavaria', 'Munich') },
+    { network: '81.2.70.0/24', record: cityRecord(GERMANY, 'Berlin', 'Berlin') },
+    { network: '175.16.199.0/24', record: cityRecord(NEW_ZEALAND) }
+  ]);
+});
+
+describe('IP geolocation', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should not look up locations without a database', () => {
+    vi.stubEnv('GEOIP_DB_PATH', '');
+
+    expect(lookupLocation('81.2.69.1')).toBeNull();
+  });
+
+  it('should only store the country by default', () => {
+    vi.stubEnv('GEOIP_DB_PATH', dbPath);
+
+    expect(lookupLocation('81.2.69.1')).toEqual({ country: 'DE' });
+    expect(lookupLocation('::ffff:175.16.199.7')).toEqual({ country: 'NZ' });
+  });
+
+  it('should store regions and cities with a higher precision', () => {
+    vi.stubEnv('GEOIP_DB_PATH', dbPath);
+
+    vi.stubEnv('GEOIP_PRECISION', 'region');
+    expect(lookupLocation('81.2.69.1')).toEqual({ country: 'DE', region: 'Bavaria' });
+
+    vi.stubEnv('GEOIP_PRECISION', 'city');
+    expect(lookupLocation('81.2.69.1')).toEqual({ country: 'DE', region: 'Bavaria', city: 'Munich' });
+    expect(lookupLocation('175.16.199.7')).toEqual({ country: 'NZ' });
+  });
+
+  it('should return null for unknown and invalid addresses', () => {
+    vi.stubEnv('GEOIP_DB_PATH', dbPath);
+
+    expect(lookupLocation('10.0.0.1')).toBeNull();
+    expect(lookupLocation('2001:db8::1')).toBeNull();
+    expect(lookupLocation('unknown')).toBeNull();
+  });
+
+  it('should not fail when the database cannot be opened', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('GEOIP_DB_PATH', path.join(path.dirname(dbPath), 'missing.mmdb'));
+
+    expect(lookupLocation('81.2.69.1')).toBeNull();
+  });
+});
+
+describe('Location statistics', () => {
+  const now = Date.now();
+  const range: [number, number] = [now - DAY_MS, now + 1000];
+
+  beforeAll(() => {
+    vi.stubEnv('GEOIP_DB_PATH', dbPath);
+    vi.stubEnv('GEOIP_PRECISION', 'city');
+
+    getDb();
+    const agent = insertUserAgent({ browser: 'Chrome' });
+    const pageview = (sessionId: string, ip: string, timestamp: number) =>
+      insertPageview({
+        siteId: 'default',
+        sessionId,
+        pageUrl: '/',
+        timestamp,
+        userAgent: 'test',
+        location: lookupLocation(ip)
+      }, ip, agent);
+
+    pageview('s1', '81.2.69.1', now - 6000);
+    pageview('s1', '81.2.69.1', now - 5000);
+    pageview('s2', '81.2.69.2', now - 4000);
+    pageview('s3', '81.2.70.1', now - 3000);
+    pageview('s4', '175.16.199.1', now - 2000);
+    // Sessions are located by their landing pageview
+    pageview('s5', '10.0.0.1', now - 1000);
+    pageview('s5', '81.2.70.1', now - 500);
+
+    vi.unstubAllEnvs();
+  });
+
+  it('should count sessions per country, region and city', () => {
+    expect(getLocationStats('default', ...range)).toEqual({
+      byCountry: [
+        { country: 'DE', count: 3 },
+        { country: 'NZ', count: 1 }
+      ],
+      byRegion: [
+        { country: 'DE', region: 'Bavaria', count: 2 },
+        { country: 'DE', region: 'Berlin', count: 1 }
+      ],
+      byCity: [
+        { country: 'DE', region: 'Bavaria', city: 'Munich', count: 2 },
+        { country: 'DE', region: 'Berlin', city: 'Berlin', count: 1 }
+      ],
+      map: [
+        { country: 'DE', count: 3 },
+        { country: 'NZ', count: 1 }
+      ]
+    });
+  });
+
+  it('should report the same locations from the daily rollups', () => {
+    expect(getLocationStats('default', now - 90 * DAY_MS, now + 1000)).toEqual(getLocationStats('default', ...range));
+  });
+});
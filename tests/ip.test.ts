@@ -0,0 +1,81 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { getTrustedProxies, getClientIp, parseIp, truncateIp } from '@/lib/ip';
+
+function clientIp(headers: Record<string, string>, trustedProxies?: string, peer?: string, header?: string) {
+  vi.stubEnv('TRUSTED_PROXIES', trustedProxies || '');
+  vi.stubEnv('TRUSTED_PROXY_HEADER', header || '');
+  return getClientIp(new Headers(headers), peer, getTrustedProxies());
+}
+
+describe('Client IP extraction', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should normalize addresses', () => {
+    expect(parseIp(' 192.0.2.1:4711 ')).toBe('192.0.2.1');
+    expect(parseIp('"[2001:DB8::17]:4711"')).toBe('2001:db8::17');
+    expect(parseIp('::ffff:192.0.2.1')).toBe('192.0.2.1');
+    expect(parseIp('fe80::1%eth0')).toBe('fe80::1');
+    expect(parseIp('unknown')).toBeNull();
+    expect(parseIp('_hidden')).toBeNull();
+  });
+
+  it('should truncate IPv6 addresses to their /64 network', () => {
+    expect(truncateIp('2001:db8:85a3:8d3:1319:8a2e:370:7348')).toBe('2001:db8:85a3:8d3::');
+    expect(truncateIp('2001:db8::1')).toBe('2001:db8::');
+    expect(truncateIp('::1')).toBe('::');
+    expect(truncateIp('64:ff9b::192.0.2.1')).toBe('64:ff9b::');
+    expect(truncateIp('192.0.2.1')).toBe('192.0.2.1');
+  });
+
+  it('should take the address added by the trusted proxy by default', () => {
+    // The client made up the first entry, our proxy appended the real address
+    expect(clientIp({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7' })).toBe('203.0.113.7');
+    expect(clientIp({})).toBe('unknown');
+  });
+
+  it('should count proxy hops', () => {
+    const headers = { 'x-forwarded-for': '1.2.3.4, 203.0.113.7, 10.0.0.2' };
+
+    expect(clientIp(headers, '2')).toBe('203.0.113.7');
+    expect(clientIp(headers, '5')).toBe('1.2.3.4');
+    // Without proxies the headers are ignored and only the peer address counts
+    expect(clientIp(headers, '0')).toBe('unknown');
+    expect(clientIp(headers, '0', '198.51.100.1')).toBe('198.51.100.1');
+  });
+
+  it('should skip addresses of trusted proxy ranges', () => {
+    const trusted = '10.0.0.0/8, 127.0.0.1, fd00::/8';
+
+    expect(clientIp({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7, 10.0.0.2' }, trusted, '127.0.0.1')).toBe('203.0.113.7');
+    expect(clientIp({ 'x-forwarded-for': '203.0.113.7, fd00::5' }, trusted)).toBe('203.0.113.7');
+    expect(clientIp({ 'x-forwarded-for': '10.0.0.3, 10.0.0.2' }, trusted)).toBe('10.0.0.3');
+    // An invalid entry written by a proxy is not skipped
+    expect(clientIp({ 'x-forwarded-for': '1.2.3.4, unknown, 10.0.0.2' }, trusted)).toBe('unknown');
+  });
+
+  it('should read the standard Forwarded header when the proxy writes it', () => {
+    const headers = {
+      forwarded: 'for=1.2.3.4, for="[2001:db8:cafe::17]:4711";proto=https;by=10.0.0.1',
+      'x-forwarded-for': '198.51.100.1'
+    };
+
+    expect(clientIp(headers, '', undefined, 'forwarded')).toBe('2001:db8:cafe::');
+    expect(clientIp(headers, '2', undefined, 'forwarded')).toBe('1.2.3.4');
+    expect(clientIp({ 'x-real-ip': '203.0.113.7' }, '', undefined, 'x-real-ip')).toBe('203.0.113.7');
+  });
+
+  it('should ignore proxy headers that the proxy does not write', () => {
+    // The client sent Forwarded and X-Real-IP, the proxy only appended to X-Forwarded-For
+    const headers = {
+      forwarded: 'for=1.2.3.4',
+      'x-real-ip': '1.2.3.4',
+      'x-forwarded-for': '203.0.113.7'
+    };
+
+    expect(clientIp(headers)).toBe('203.0.113.7');
+    expect(clientIp(headers, '10.0.0.0/8', '10.0.0.2')).toBe('203.0.113.7');
+    expect(clientIp({ forwarded: 'for=1.2.3.4' })).toBe('unknown');
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MIGRATIONS_DIR, loadMigrations, getSchemaVersion, migrate } from '@/lib/db/migrate';
+
+const LATEST_VERSION = loadMigrations().length;
+
+const columnNames = (db: Database.Database, table: string) =>
+  (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(column => column.name);
+
+const objectExists = (db: Database.Database, type: string, name: string) =>
+  !!db.prepare('SELECT name FROM sqlite_master WHERE type = ? AND name = ?').get(type, name);
+
+describe('Schema migrations', () => {
+  let db: Database.Database;
+  let copies: string[] = [];
+
+  // Directory with the first migrations only, to stop an upgrade at a given version
+  const copyMigrations = (version: number) => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lwa-migrations-'));
+    loadMigrations().slice(0, version).forEach(migration => {
+      fs.writeFileSync(path.join(dir, `${migration.name}.sql`), migration.sql);
+    });
+    copies.push(dir);
+    return dir;
+  };
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.pragma('foreign_keys = ON');
+  });
+
+  afterEach(() => {
+    db.close();
+    copies.forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+    copies = [];
+  });
+
+  it('should create the full schema on an empty database', () => {
+    const result = migrate(db);
+
+    expect(result.from).toBe(0);
+    expect(result.to).toBe(LATEST_VERSION);
+    expect(result.applied[0]).toBe('001_initial_schema');
+    expect(db.pragma('user_version', { simple: true })).toBe(LATEST_VERSION);
+    expect(db.pragma('foreign_keys', { simple: true })).toBe(1);
+    expect(db.prepare("SELECT id FROM sites").all()).toEqual([{ id: 'default' }]);
+
+    // Running again is a no-op
+    expect(migrate(db)).toEqual({ from: LATEST_VERSION, to: LATEST_VERSION, applied: [] });
+  });
+
+  it('should upgrade a database created from the original schema.sql', () => {
+    // Databases from before migrations existed have the initial schema and user_version 0
+    db.exec(fs.readFileSync(path.join(MIGRATIONS_DIR, '001_initial_schema.sql'), 'utf8'));
+    db.prepare("INSERT INTO user_agents (browser) VALUES ('Chrome')").run();
+    db.prepare("INSERT INTO pageviews (page_url, timestamp, session_id, user_agent_id) VALUES ('/', ?, 's1', 1)").run(Date.now());
+    db.prepare("INSERT INTO web_vitals (session_id, page_url, timestamp, metric_name, metric_value) VALUES ('s1', '/', ?, 'LCP', 1200)").run(Date.now());
+    db.prepare("INSERT INTO custom_events (session_id, page_url, timestamp, event_name) VALUES ('s1', '/', ?, 'signup')").run(Date.now());
+
+    expect(getSchemaVersion(db)).toBe(1);
+
+    const result = migrate(db);
+    expect(result.from).toBe(1);
+    expect(result.applied).not.toContain('001_initial_schema');
+    expect(db.pragma('user_version', { simple: true })).toBe(LATEST_VERSION);
+
+    // Existing rows are kept and assigned to the default site
+    expect(db.prepare('SELECT site_id as siteId, page_url as pageUrl FROM pageviews').all())
+      .toEqual([{ siteId: 'default', pageUrl: '/' }]);
+    expect(db.prepare('SELECT site_id as siteId, pageview_id as pageviewId, attribution FROM web_vitals').all())
+      .toEqual([{ siteId: 'default', pageviewId: null, attribution: null }]);
+    expect(db.prepare('SELECT site_id as siteId FROM custom_events').all()).toEqual([{ siteId: 'default' }]);
+
+    expect(columnNames(db, 'web_vitals')).toEqual(expect.arrayContaining(['site_id', 'pageview_id', 'attribution']));
+    expect(objectExists(db, 'table', 'daily_vitals')).toBe(true);
+    expect(objectExists(db, 'index', 'idx_web_vitals_site_metric_timestamp')).toBe(true);
+    expect(objectExists(db, 'trigger', 'cleanup_old_data')).toBe(false);
+  });
+
+  it('should upgrade databases created from later versions of schema.sql', () => {
+    // schema.sql received the changes of migrations 2 to 6 before migrations existed
+    const schemaUpTo = (version: number) => {
+      const legacy = new Database(':memory:');
+      loadMigrations().slice(0, version).forEach(migration => legacy.exec(migration.sql));
+      return legacy;
+    };
+
+    for (let version = 2; version <= 6; version++) {
+      const legacy = schemaUpTo(version);
+      expect(legacy.pragma('user_version', { simple: true })).toBe(0);
+      expect(migrate(legacy)).toMatchObject({ from: version, to: LATEST_VERSION });
+      legacy.close();
+    }
+
+    // schema.sql had the attribution column before the index of migration 4
+    const partial = schemaUpTo(3);
+    partial.exec('ALTER TABLE web_vitals ADD COLUMN attribution TEXT');
+    expect(migrate(partial).from).toBe(4);
+    expect(objectExists(partial, 'index', 'idx_web_vitals_site_metric_timestamp')).toBe(true);
+    partial.close();
+  });
+
+  // Every version schema.sql had before migrations existed, and the version it matches
+  it.each([
+    ['v1', 1],
+    ['v2', 2],
+    ['v3', 3],
+    ['v4-attribution', 4],
+    ['v4', 4],
+    ['v5', 5],
+    ['v6', 6]
+  ])('should upgrade a database created from schema.sql %s', (schema, version) => {
+    db.exec(fs.readFileSync(path.join(__dirname, 'fixtures', 'schemas', `${schema}.sql`), 'utf8'));
+    db.prepare("INSERT INTO pageviews (page_url, timestamp, session_id) VALUES ('/', ?, 's1')").run(Date.now());
+    db.prepare("INSERT INTO web_vitals (session_id, page_url, timestamp, metric_name, metric_value) VALUES ('s1', '/', ?, 'LCP', 1200)").run(Date.now());
+
+    expect(getSchemaVersion(db)).toBe(version);
+    expect(migrate(db)).toMatchObject({ from: version, to: LATEST_VERSION });
+
+    expect(db.prepare('SELECT site_id as siteId FROM pageviews').all()).toEqual([{ siteId: 'default' }]);
+    expect(db.prepare('SELECT site_id as siteId, pageview_id as pageviewId FROM web_vitals').all())
+      .toEqual([{ siteId: 'default', pageviewId: null }]);
+    expect(columnNames(db, 'web_vitals')).toEqual(expect.arrayContaining(['attribution']));
+    expect(objectExists(db, 'index', 'idx_web_vitals_site_metric_timestamp')).toBe(true);
+    expect(objectExists(db, 'table', 'daily_sessions')).toBe(true);
+    expect(objectExists(db, 'trigger', 'cleanup_old_data')).toBe(false);
+    expect(db.pragma('foreign_key_check')).toEqual([]);
+  });
+
+  it('should backfill referrer hosts, channels and referrer rollups', () => {
+    db.exec(fs.readFileSync(path.join(MIGRATIONS_DIR, '001_initial_schema.sql'), 'utf8'));
+    const insert = db.prepare("INSERT INTO pageviews (page_url, timestamp, session_id, referrer) VALUES ('/', ?, 's1', ?)");
+    insert.run(Date.now(), 'https://www.news.example.com:443/story?id=1');
+    insert.run(Date.now(), null);
+
+    // Stop before the referrer migration to seed a raw referrer rollup and the site domain
+    migrate(db, { dir: copyMigrations(7) });
+    db.prepare("UPDATE sites SET domain = 'mysite.com' WHERE id = 'default'").run();
+    insert.run(Date.now(), 'https://mysite.com/pricing');
+    db.prepare(`
+      INSERT INTO daily_referrers (site_id, date, referrer, count) VALUES
+        ('default', '2024-01-01', 'https://news.example.com/a', 2),
+        ('default', '2024-01-01', 'http://news.example.com/b?x=1', 3),
+        ('default', '2024-01-01', 'https://www.mysite.com/', 4),
+        ('default', '2024-01-01', '', 5)
+    `).run();
+
+    migrate(db);
+
+    expect(db.prepare('SELECT referrer_source as source, channel FROM pageviews ORDER BY id').all()).toEqual([
+      { source: 'news.example.com', channel: 'Referral' },
+      { source: null, channel: 'Direct' },
+      { source: null, channel: null }
+    ]);
+    expect(db.prepare('SELECT referrer, count FROM daily_referrers ORDER BY referrer').all()).toEqual([
+      { referrer: '', count: 5 },
+      { referrer: 'news.example.com', count: 5 }
+    ]);
+    expect(db.prepare('SELECT channel, count FROM daily_channels ORDER BY channel').all()).toEqual([
+      { channel: 'Direct', count: 5 },
+      { channel: 'Referral', count: 5 }
+    ]);
+  });
+
+  it('should backfill normalized page paths and regroup page rollups', () => {
+    migrate(db, { dir: copyMigrations(8) });
+    const insert = db.prepare("INSERT INTO pageviews (page_url, timestamp, session_id, user_agent_id) VALUES (?, ?, 's1', NULL)");
+    insert.run('/Blog/A/?ref=x#comments', Date.now());
+    insert.run('/#/Settings/?tab=1', Date.now());
+    insert.run('/', Date.now());
+    db.prepare(`
+      INSERT INTO daily_pages (site_id, date, page_url, count) VALUES
+        ('default', '2024-01-01', '/blog/a?ref=1', 2),
+        ('default', '2024-01-01', '/Blog/A', 3)
+    `).run();
+
+    migrate(db);
+
+    expect(db.prepare('SELECT page_path as pagePath, page_route as pageRoute FROM pageviews ORDER BY id').all()).toEqual([
+      { pagePath: '/blog/a', pageRoute: null },
+      { pagePath: '/#/settings', pageRoute: null },
+      { pagePath: '/', pageRoute: null }
+    ]);
+    expect(db.prepare('SELECT page_url as pageUrl, route, count FROM daily_pages').all()).toEqual([
+      { pageUrl: '/blog/a', route: null, count: 5 }
+    ]);
+  });
+
+  it('should leave the database untouched in a dry run', () => {
+    db.exec(fs.readFileSync(path.join(MIGRATIONS_DIR, '001_initial_schema.sql'), 'utf8'));
+
+    const result = migrate(db, { dryRun: true });
+
+    expect(result).toEqual({
+      from: 1,
+      to: LATEST_VERSION,
+      applied: loadMigrations().slice(1).map(migration => migration.name)
+    });
+    expect(db.pragma('user_version', { simple: true })).toBe(0);
+    expect(objectExists(db, 'table', 'sites')).toBe(false);
+    expect(objectExists(db, 'trigger', 'cleanup_old_data')).toBe(true);
+  });
+
+  describe('with a failing migration', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lwa-migrations-'));
+      fs.writeFileSync(path.join(dir, '001_first.sql'), 'CREATE TABLE first (id INTEGER PRIMARY KEY);');
+      fs.writeFileSync(path.join(dir, '002_broken.sql'), 'CREATE TABLE second (id INTEGER PRIMARY KEY);\nNOT VALID SQL;');
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should roll back the failing migration and keep earlier ones', () => {
+      expect(() => migrate(db, { dir })).toThrow();
+
+      expect(db.pragma('user_version', { simple: true })).toBe(1);
+      expect(objectExists(db, 'table', 'first')).toBe(true);
+      expect(objectExists(db, 'table', 'second')).toBe(false);
+      expect(db.pragma('foreign_keys', { simple: true })).toBe(1);
+    });
+
+    it('should reject migrations that are out of sequence', () => {
+      fs.renameSync(path.join(dir, '002_broken.sql'), path.join(dir, '003_broken.sql'));
+
+      expect(() => loadMigrations(dir)).toThrow('out of sequence');
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+
+// Use a real in-memory database with route patterns configured
+vi.hoisted(() => {
+  process.env.DB_PATH = ':memory:';
+  process.env.PAGE_ROUTES = '/product/[id],/docs/[...slug]';
+});
+
+import { getDb, insertUserAgent, insertPageview, getPageviewStats, getRoutePageStats } from '@/lib/db';
+import { getPageUrlConfig, normalizePageUrl, classifyPageUrl, normalizeStoredPages } from '@/lib/db/pages';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Page URL normalization', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should strip query strings, fragments and trailing slashes and lowercase by default', () => {
+    const config = getPageUrlConfig();
+
+    expect(normalizePageUrl('/Blog/Post/?ref=x&utm_source=news#comments', config)).toBe('/blog/post');
+    expect(normalizePageUrl('/', config)).toBe('/');
+    expect(normalizePageUrl('https://example.com/About/', config)).toBe('/about');
+    // Hash routes are part of the page
+    expect(normalizePageUrl('/#/Settings/?tab=1', config)).toBe('/#/settings');
+  });
+
+  it('should keep allowlisted query parameters', () => {
+    vi.stubEnv('PAGE_QUERY_PARAMS', 'page, q');
+    const config = getPageUrlConfig();
+
+    expect(normalizePageUrl('/search?utm_source=x&q=Shoes&page=2', config)).toBe('/search?q=Shoes&page=2');
+    expect(normalizePageUrl('/search?utm_source=x', config)).toBe('/search');
+  });
+
+  it('should honor disabled settings', () => {
+    vi.stubEnv('PAGE_QUERY_PARAMS', '*');
+    vi.stubEnv('PAGE_LOWERCASE', 'false');
+    vi.stubEnv('PAGE_STRIP_TRAILING_SLASH', 'false');
+
+    expect(normalizePageUrl('/Blog/?ref=x', getPageUrlConfig())).toBe('/Blog/?ref=x');
+  });
+
+  it('should match route patterns', () => {
+    const config = getPageUrlConfig();
+
+    expect(classifyPageUrl('/product/123?color=red', config)).toEqual({ path: '/product/123', route: '/product/[id]' });
+    expect(classifyPageUrl('/Docs/guides/setup/', config)).toEqual({ path: '/docs/guides/setup', route: '/docs/[...slug]' });
+    expect(classifyPageUrl('/product/123/reviews', config)).toEqual({ path: '/product/123/reviews', route: null });
+    expect(classifyPageUrl('/docs', config)).toEqual({ path: '/docs', route: null });
+  });
+});
+
+describe('Page statistics', () => {
+  const now = Date.now();
+  const range: [number, number] = [now - DAY_MS, now + 1000];
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  beforeAll(() => {
+    getDb();
+    const agent = insertUserAgent({ browser: 'Chrome' });
+    const pageview = (sessionId: string, pageUrl: string, timestamp: number) =>
+      insertPageview({ siteId: 'default', sessionId, pageUrl, timestamp, userAgent: 'test' }, '10.0.0.1', agent);
+
+    pageview('s1', '/blog/a?ref=x', now - 6000);
+    pageview('s1', '/blog/a', now - 5000);
+    pageview('s1', '/Blog/A/', now - 4000);
+    pageview('s2', '/product/1', now - 3000);
+    pageview('s2', '/product/2?color=red', now - 2000);
+    pageview('s3', '/product/1', now - 1000);
+    pageview('s3', '/product/1?color=blue', now - 500);
+  });
+
+  it('should group pages on their normalized path or route pattern', () => {
+    expect(getPageviewStats('default', ...range).byPage).toEqual([
+      { page: '/product/[id]', count: 4, isRoute: true },
+      { page: '/blog/a', count: 3, isRoute: false }
+    ]);
+
+    const stored = getDb().prepare("SELECT page_url as pageUrl, page_path as pagePath FROM pageviews WHERE session_id = 's1' ORDER BY id").all();
+    expect(stored).toEqual([
+      { pageUrl: '/blog/a?ref=x', pagePath: '/blog/a' },
+      { pageUrl: '/blog/a', pagePath: '/blog/a' },
+      { pageUrl: '/Blog/A/', pagePath: '/blog/a' }
+    ]);
+  });
+
+  it('should drill down into the pages of a route pattern', () => {
+    expect(getRoutePageStats('default', '/product/[id]', ...range)).toEqual([
+      { page: '/product/1', count: 3 },
+      { page: '/product/2', count: 1 }
+    ]);
+    expect(getRoutePageStats('default', '/docs/[...slug]', ...range)).toEqual([]);
+  });
+
+  it('should report the same pages from the daily rollups', () => {
+    const longRange: [number, number] = [now - 90 * DAY_MS, now + 1000];
+
+    expect(getPageviewStats('default', ...longRange).byPage).toEqual(getPageviewStats('default', ...range).byPage);
+    expect(getRoutePageStats('default', '/product/[id]', ...longRange)).toEqual(getRoutePageStats('default', '/product/[id]', ...range));
+  });
+
+  it('should re-apply changed settings to stored pages', () => {
+    vi.stubEnv('PAGE_ROUTES', '/blog/[slug]');
+
+    const result = normalizeStoredPages(getDb(), getPageUrlConfig(), { batchSize: 2 });
+
+    // The three blog pageviews gain a route, the four product pageviews lose theirs
+    expect(result.pageviews).toBe(7);
+    expect(getRoutePageStats('default', '/blog/[slug]', now - 90 * DAY_MS, now + 1000)).toEqual([{ page: '/blog/a', count: 3 }]);
+    expect(getRoutePageStats('default', '/product/[id]', now - 90 * DAY_MS, now + 1000)).toEqual([]);
+  });
+});
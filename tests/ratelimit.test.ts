@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+// Use a real in-memory database for the SQLite store
+vi.hoisted(() => {
+  process.env.DB_PATH = ':memory:';
+  process.env.RATE_LIMIT = '3';
+  process.env.RATE_LIMIT_SITES = 'blog=5';
+  process.env.RATE_LIMIT_STORE = 'sqlite';
+});
+
+import { getDb } from '@/lib/db';
+import {
+  getRateLimitConfig,
+  getRateLimitRule,
+  getClientRateLimitRule,
+  takeToken,
+  checkRateLimit,
+  getRateLimitHeaders
+} from '@/lib/ratelimit';
+
+describe('Rate limit settings', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should use the most specific limit', () => {
+    vi.stubEnv('RATE_LIMIT', '100');
+    vi.stubEnv('RATE_LIMIT_WINDOW_SECONDS', '30');
+    vi.stubEnv('RATE_LIMIT_STORE', '');
+    vi.stubEnv('RATE_LIMIT_EVENTS', '20');
+    vi.stubEnv('RATE_LIMIT_SITES', 'blog=300, shop:events=50, broken=x');
+    const config = getRateLimitConfig();
+
+    expect(config.store).toBe('memory');
+    expect(getRateLimitRule('track', 'default', config)).toEqual({ limit: 100, windowMs: 30000 });
+    expect(getRateLimitRule('events', 'default', config)).toEqual({ limit: 20, windowMs: 30000 });
+    expect(getRateLimitRule('events', 'blog', config).limit).toBe(300);
+    expect(getRateLimitRule('events', 'shop', config).limit).toBe(50);
+    expect(getRateLimitRule('track', 'shop', config).limit).toBe(100);
+    expect(getRateLimitRule('track', 'broken', config).limit).toBe(100);
+
+    // A client's bucket holds the highest limit of any site
+    expect(getClientRateLimitRule('track', config).limit).toBe(300);
+    vi.stubEnv('RATE_LIMIT_SITES', 'shop:events=50');
+    expect(getClientRateLimitRule('events', getRateLimitConfig()).limit).toBe(50);
+    expect(getClientRateLimitRule('track', getRateLimitConfig()).limit).toBe(100);
+  });
+});
+
+describe('Token bucket', () => {
+  const rule = { limit: 2, windowMs: 1000 };
+
+  it('should allow bursts up to the limit and refill over the window', () => {
+    let step = takeToken(undefined, rule, 0);
+    expect(step.result).toEqual({ allowed: true, limit: 2, remaining: 1, resetMs: 500, retryAfterMs: 0 });
+
+    step = takeToken(step.bucket, rule, 0);
+    expect(step.result.remaining).toBe(0);
+
+    step = takeToken(step.bucket, rule, 100);
+    expect(step.result).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: 400 });
+
+    // Rejected requests do not use up the refilled share of a token
+    step = takeToken(step.bucket, rule, 500);
+    expect(step.result).toMatchObject({ allowed: true, remaining: 0 });
+
+    // Idle buckets refill up to the limit only
+    step = takeToken(step.bucket, rule, 10000);
+    expect(step.result).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it('should describe the limit in response headers', () => {
+    const { bucket } = takeToken({ tokens: 0.5, updatedAt: 0 }, rule, 0);
+    expect(getRateLimitHeaders(takeToken(bucket, rule, 0).result)).toEqual({
+      'X-RateLimit-Limit': '2',
+      'X-RateLimit-Remaining': '0',
+      'X-RateLimit-Reset': '1',
+      'Retry-After': '1'
+    });
+  });
+});
+
+describe('SQLite rate limit store', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should share buckets through the database', () => {
+    vi.spyOn(Date, 'now').mockImplementation(() => 1748935795115);
+
+    const results = [1, 2, 3, 4].map(() => checkRateLimit('track', 'default', '10.0.0.1').allowed);
+    expect(results).toEqual([true, true, true, false]);
+
+    // Other clients and routes have their own buckets
+    expect(checkRateLimit('track', 'default', '10.0.0.2').allowed).toBe(true);
+    expect(checkRateLimit('events', 'default', '10.0.0.1').allowed).toBe(true);
+
+    // Naming other sites does not add to a client's budget: its bucket holds
+    // the 5 requests of blog, default has a bucket of 3 on top
+    expect([1, 2].map(() => checkRateLimit('track', 'blog', '10.0.0.1').allowed)).toEqual([true, false]);
+    expect(checkRateLimit('track', 'unknown', '10.0.0.1').allowed).toBe(false);
+
+    expect(getDb().prepare('SELECT tokens FROM rate_limits WHERE key = ?').get('track:site=default:10.0.0.1')).toEqual({ tokens: 0 });
+    expect(getDb().prepare('SELECT tokens FROM rate_limits WHERE key = ?').get('track:10.0.0.1')).toEqual({ tokens: 0 });
+  });
+
+  it('should remove idle buckets', () => {
+    vi.spyOn(Date, 'now').mockImplementation(() => 1748935795115 + 2 * 60000);
+
+    expect(checkRateLimit('track', 'default', '10.0.0.1').remaining).toBe(2);
+    expect(getDb().prepare('SELECT key FROM rate_limits ORDER BY key').all())
+      .toEqual([{ key: 'track:10.0.0.1' }, { key: 'track:site=default:10.0.0.1' }]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+
+// Use a real in-memory database so the rebuild queries are exercised
+vi.hoisted(() => {
+  process.env.DB_PATH = ':memory:';
+});
+
+import { getDb, insertUserAgent, insertPageview, insertWebVitals } from '@/lib/db';
+import { getRetentionConfig, purgeExpiredData } from '@/lib/db/retention';
+import { getFirstCompleteDay, rebuildRollups } from '@/lib/db/rebuild';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Noon, so the 30 day retention cutoff falls in the middle of 2025-05-16
+const now = Date.UTC(2025, 5, 15, 12);
+
+const dailyPages = (date: string) =>
+  getDb().prepare('SELECT page_url as pageUrl, count FROM daily_pages WHERE date = ? ORDER BY page_url').all(date);
+const dailySessions = (date: string) =>
+  getDb().prepare('SELECT sessions, pageviews FROM daily_sessions WHERE date = ?').get(date);
+
+describe('Rollup rebuild', () => {
+  let agent: number;
+  const pageview = (sessionId: string, pageUrl: string, timestamp: number) =>
+    insertPageview({ siteId: 'default', sessionId, pageUrl, timestamp, userAgent: 'test' }, '10.0.0.1', agent);
+
+  beforeAll(() => {
+    agent = insertUserAgent({ browser: 'Chrome', os: 'Linux', deviceType: 'desktop' });
+
+    // A day 60 days ago, purged apart from one web vital recorded late
+    for (let i = 0; i < 50; i++) {
+      pageview(`old-${i}`, '/', now - 60 * DAY_MS);
+      pageview(`old-${i}`, '/pricing', now - 60 * DAY_MS + 1000);
+    }
+
+    // The day of the retention cutoff, whose morning is purged
+    pageview('cutoff-a', '/', now - 30 * DAY_MS - 6 * HOUR_MS);
+    pageview('cutoff-b', '/', now - 30 * DAY_MS + 6 * HOUR_MS);
+
+    // A day raw data fully covers
+    pageview('recent', '/', now - DAY_MS);
+
+    purgeExpiredData(getDb(), getRetentionConfig(), { now });
+    insertWebVitals([{ name: 'LCP', value: 1800, rating: 'good' }], 'old-0', '/', 'default', undefined, now - 60 * DAY_MS);
+  });
+
+  it('should find the first day after the retention cutoff', () => {
+    expect(getFirstCompleteDay(30, now)).toBe('2025-05-17');
+    expect(getFirstCompleteDay(30, Date.UTC(2025, 5, 15))).toBe('2025-05-16');
+    expect(getFirstCompleteDay(0, now)).toBeNull();
+  });
+
+  it('should only rebuild the days raw data fully covers', () => {
+    // Rollups that drifted from raw data
+    getDb().prepare("UPDATE daily_pages SET count = 5 WHERE date = '2025-06-14'").run();
+
+    const report = rebuildRollups(getDb(), getRetentionConfig(), { now });
+    expect(report).toEqual([
+      { table: 'pageviews', firstDay: '2025-05-17', days: 1 },
+      { table: 'web_vitals', firstDay: '2025-05-17', days: 0 },
+      { table: 'custom_events', firstDay: '2025-05-17', days: 0 }
+    ]);
+
+    expect(dailyPages('2025-06-14')).toEqual([{ pageUrl: '/', count: 1 }]);
+
+    // Purged and partially purged days keep their rollups
+    expect(dailyPages('2025-04-16')).toEqual([{ pageUrl: '/', count: 50 }, { pageUrl: '/pricing', count: 50 }]);
+    expect(dailySessions('2025-04-16')).toEqual({ sessions: 50, pageviews: 100 });
+    expect(dailyPages('2025-05-16')).toEqual([{ pageUrl: '/', count: 2 }]);
+    expect(dailySessions('2025-05-16')).toEqual({ sessions: 2, pageviews: 2 });
+  });
+
+  it('should rebuild listed days whose raw rows were deleted', () => {
+    getDb().prepare("DELETE FROM pageviews WHERE session_id = 'recent'").run();
+
+    const report = rebuildRollups(getDb(), getRetentionConfig(), {
+      now,
+      days: [{ siteId: 'default', date: '2025-06-14' }, { siteId: 'default', date: '2025-05-16' }]
+    });
+    expect(report[0]).toEqual({ table: 'pageviews', firstDay: '2025-05-17', days: 1 });
+
+    expect(dailyPages('2025-06-14')).toEqual([]);
+    expect(dailySessions('2025-06-14')).toBeUndefined();
+    expect(dailyPages('2025-05-16')).toEqual([{ pageUrl: '/', count: 2 }]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Use a real in-memory database so stored sources and channels are exercised
+vi.hoisted(() => {
+  process.env.DB_PATH = ':memory:';
+});
+
+import { getDb, insertUserAgent, insertPageview, getReferrerStats } from '@/lib/db';
+import { getReferrerHost, classifyVisit, findReferrerSource, resetReferrerSources } from '@/lib/referrers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Referrer normalization', () => {
+  it('should reduce referrers to their host', () => {
+    expect(getReferrerHost('https://www.Example.com:8080/blog/post?id=1#top')).toBe('example.com');
+    expect(getReferrerHost('android-app://com.google.android.gm/')).toBe('com.google.android.gm');
+    expect(getReferrerHost('news.example.com')).toBe('news.example.com');
+    expect(getReferrerHost('')).toBeNull();
+    expect(getReferrerHost('https://')).toBeNull();
+  });
+
+  it('should map known hosts to friendly names', () => {
+    expect(findReferrerSource('google.co.uk')).toMatchObject({ name: 'Google', channel: 'Organic Search' });
+    expect(findReferrerSource('mail.google.com')).toMatchObject({ name: 'Gmail', channel: 'Email' });
+    expect(findReferrerSource('l.facebook.com')).toMatchObject({ name: 'Facebook', channel: 'Social' });
+    expect(findReferrerSource('notgoogle.com')).toBeUndefined();
+  });
+});
+
+describe('Channel classification', () => {
+  const visit = (referrer: string | undefined, pageUrl = '/', isLanding = true) =>
+    classifyVisit({ referrer, pageUrl, hostname: 'www.mysite.com', isLanding });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetReferrerSources();
+  });
+
+  it('should classify referrers by source', () => {
+    expect(visit(undefined)).toEqual({ source: null, channel: 'Direct' });
+    expect(visit('https://www.google.com/')).toEqual({ source: 'Google', channel: 'Organic Search' });
+    expect(visit('https://t.co/abc')).toEqual({ source: 'Twitter', channel: 'Social' });
+    expect(visit('https://outlook.live.com/mail/0/')).toEqual({ source: 'Outlook', channel: 'Email' });
+    expect(visit('https://blog.example.org/a-post')).toEqual({ source: 'blog.example.org', channel: 'Referral' });
+  });
+
+  it('should drop self-referrals', () => {
+    expect(visit('https://mysite.com/pricing', '/signup', false)).toEqual({ source: null, channel: null });
+    // A session that starts from one of our own pages is a direct visit
+    expect(visit('https://mysite.com/pricing', '/signup', true)).toEqual({ source: null, channel: 'Direct' });
+  });
+
+  it('should let UTM parameters and click IDs override the referrer', () => {
+    const utmVisit = (pageUrl: string, utm: Record<string, string>) =>
+      classifyVisit({ referrer: 'https://www.google.com/', pageUrl, isLanding: true }, utm);
+
+    expect(utmVisit('/?gclid=abc', {})).toEqual({ source: 'Google', channel: 'Paid' });
+    expect(utmVisit('/', { source: 'google', medium: 'cpc' })).toEqual({ source: 'Google', channel: 'Paid' });
+    expect(classifyVisit({ pageUrl: '/', isLanding: true }, { source: 'newsletter', medium: 'email' }))
+      .toEqual({ source: 'newsletter', channel: 'Email' });
+    expect(classifyVisit({ pageUrl: '/', isLanding: true }, { source: 'facebook' }))
+      .toEqual({ source: 'Facebook', channel: 'Social' });
+  });
+
+  it('should read additional sources from REFERRER_SOURCES_FILE', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lwa-sources-'));
+    const file = path.join(dir, 'sources.json');
+    fs.writeFileSync(file, JSON.stringify([
+      { domain: 'partner.example.org', name: 'Partner', channel: 'Paid' },
+      { domain: 'invalid.example.org', name: 'Invalid', channel: 'Carrier Pigeon' }
+    ]));
+    vi.stubEnv('REFERRER_SOURCES_FILE', file);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      expect(visit('https://partner.example.org/')).toEqual({ source: 'Partner', channel: 'Paid' });
+      expect(visit('https://invalid.example.org/')).toEqual({ source: 'invalid.example.org', channel: 'Referral' });
+      expect(visit('https://www.google.com/')).toEqual({ source: 'Google', channel: 'Organic Search' });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Referrer statistics', () => {
+  const now = Date.now();
+
+  beforeAll(() => {
+    getDb();
+    const agent = insertUserAgent({ browser: 'Chrome' });
+    const pageview = (sessionId: string, pageUrl: string, timestamp: number, referrer?: string) =>
+      insertPageview({ siteId: 'default', sessionId, pageUrl, timestamp, referrer, hostname: 'mysite.com', userAgent: 'test' }, '10.0.0.1', agent);
+
+    pageview('s1', '/', now - 5000, 'https://www.google.com/search?q=analytics');
+    pageview('s1', '/pricing', now - 4000, 'https://mysite.com/');
+    pageview('s1', '/signup', now - 3000, 'https://mysite.com/pricing');
+    pageview('s2', '/', now - 2000, 'https://www.google.de/');
+    pageview('s3', '/blog', now - 1000, 'https://blog.example.org/post/1?ref=feed');
+    pageview('s4', '/blog', now - 500, 'https://blog.example.org/post/2');
+    pageview('s5', '/', now - 100);
+    pageview('s6', '/', now - 50, 'https://google.com/');
+  });
+
+  it('should group visits by source and channel without internal navigations', () => {
+    const stats = getReferrerStats('default', now - DAY_MS, now + 1000);
+
+    expect(stats.byReferrer).toEqual([
+      { referrer: 'Google', count: 3 },
+      { referrer: 'blog.example.org', count: 2 },
+      { referrer: 'Direct', count: 1 }
+    ]);
+    expect(stats.byChannel).toEqual([
+      { channel: 'Organic Search', count: 3 },
+      { channel: 'Referral', count: 2 },
+      { channel: 'Direct', count: 1 }
+    ]);
+  });
+
+  it('should report the same statistics from the daily rollups', () => {
+    const recent = getReferrerStats('default', now - DAY_MS, now + 1000);
+
+    expect(getReferrerStats('default', now - 90 * DAY_MS, now + 1000)).toEqual(recent);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+// Use a real in-memory database so the chunked deletes are exercised
+vi.hoisted(() => {
+  process.env.DB_PATH = ':memory:';
+});
+
+import { getDb, insertUserAgent, insertPageview, insertCustomEvent } from '@/lib/db';
+import { getRetentionConfig, purgeExpiredData, formatRetentionReport } from '@/lib/db/retention';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const count = (table: string) =>
+  (getDb().prepare(`SELECT COUNT(*) as count FROM ${table}`).get() as { count: number }).count;
+
+describe('Data retention', () => {
+  const now = Date.now();
+
+  beforeEach(() => {
+    const db = getDb();
+    ['pageviews', 'custom_events', 'user_agents', 'daily_pages', 'daily_referrers', 'daily_devices',
+      'daily_sessions', 'daily_events'].forEach(table => db.exec(`DELETE FROM ${table}`));
+
+    const oldAgent = insertUserAgent({ browser: 'Old Browser' });
+    const agent = insertUserAgent({ browser: 'Chrome' });
+
+    // 25 expired pageviews from a browser nobody uses anymore, 5 recent ones
+    for (let i = 0; i < 25; i++) {
+      insertPageview({ siteId: 'default', sessionId: `old-${i}`, pageUrl: '/', timestamp: now - 40 * DAY_MS, userAgent: '' }, '10.0.0.1', oldAgent);
+    }
+    for (let i = 0; i < 5; i++) {
+      insertPageview({ siteId: 'default', sessionId: `new-${i}`, pageUrl: '/', timestamp: now - DAY_MS, userAgent: '' }, '10.0.0.1', agent);
+    }
+
+    insertCustomEvent({ siteId: 'default', sessionId: 'old-0', pageUrl: '/', timestamp: now - 40 * DAY_MS, eventName: 'signup' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should delete expired rows in chunks and report them', () => {
+    const config = { ...getRetentionConfig(), batchSize: 10 };
+    const report = purgeExpiredData(getDb(), config, { now });
+
+    expect(count('pageviews')).toBe(5);
+    expect(count('custom_events')).toBe(0);
+    expect(count('user_agents')).toBe(1);
+    // Rollups are kept forever by default
+    expect(count('daily_events')).toBe(1);
+
+    expect(report).toContainEqual({
+      table: 'pageviews',
+      retentionDays: 30,
+      cutoff: new Date(now - 30 * DAY_MS).toISOString(),
+      deleted: 25
+    });
+    expect(report).toContainEqual({ table: 'user_agents', retentionDays: 0, cutoff: null, deleted: 1 });
+    expect(report).toContainEqual({ table: 'daily_pages', retentionDays: 0, cutoff: null, deleted: 0 });
+
+    const text = formatRetentionReport(report);
+    expect(text.split('\n')[0]).toMatch(/^Table\s+Retention\s+Cutoff\s+Deleted$/);
+    expect(text).toMatch(/pageviews\s+30 days\s+\S+\s+25/);
+  });
+
+  it('should only count rows in a dry run', () => {
+    const report = purgeExpiredData(getDb(), getRetentionConfig(), { dryRun: true, now });
+
+    expect(report.find(entry => entry.table === 'pageviews')!.deleted).toBe(25);
+    expect(count('pageviews')).toBe(30);
+    expect(count('user_agents')).toBe(2);
+  });
+
+  it('should read per-table retention periods from the environment', () => {
+    vi.stubEnv('DATA_RETENTION_DAYS', '60');
+    vi.stubEnv('CUSTOM_EVENTS_RETENTION_DAYS', '7');
+    vi.stubEnv('ROLLUPS_RETENTION_DAYS', '14');
+    vi.stubEnv('RETENTION_BATCH_SIZE', 'not-a-number');
+
+    const config = getRetentionConfig();
+    expect(config).toMatchObject({ pageviews: 60, webVitals: 60, customEvents: 7, rollups: 14, batchSize: 1000 });
+
+    purgeExpiredData(getDb(), config, { now });
+    expect(count('pageviews')).toBe(30);
+    expect(count('custom_events')).toBe(0);
+    expect(count('daily_events')).toBe(0);
+    expect(count('daily_pages')).toBe(1);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+
+// Use a real in-memory database so the rollup upserts and queries are exercised
+vi.hoisted(() => {
+  process.env.DB_PATH = ':memory:';
+});
+
+import {
+  getDb,
+  insertUserAgent,
+  insertPageview,
+  insertWebVitals,
+  insertCustomEvent,
+  getPageviewStats,
+  getSessionStats,
+  getReferrerStats,
+  getDeviceStats,
+  getWebVitalStats,
+  getCustomEventStats
+} from '@/lib/db';
+import { getHistogramBucket } from '@/lib/db/rollups';
+import { getRetentionConfig, purgeExpiredData } from '@/lib/db/retention';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Daily rollups', () => {
+  const now = Date.now();
+  // Older than the raw retention window, so only the rollups can answer it
+  const longRange: [number, number] = [now - 90 * DAY_MS, now + 1000];
+  const recentRange: [number, number] = [now - 2 * DAY_MS, now + 1000];
+
+  const pageview = (sessionId: string, pageUrl: string, timestamp: number, referrer?: string, ip = '10.0.0.1') =>
+    insertPageview({ siteId: 'default', sessionId, pageUrl, timestamp, referrer, userAgent: 'test' }, ip, chrome);
+
+  let chrome: number;
+
+  beforeAll(() => {
+    getDb();
+    chrome = insertUserAgent({ browser: 'Chrome', os: 'Linux', deviceType: 'desktop' });
+
+    // A three page session and a bounce from another visitor
+    pageview('session-a', '/', now - 3000, 'https://search.example.com/');
+    pageview('session-a', '/pricing', now - 2000);
+    pageview('session-a', '/signup', now - 1000);
+    pageview('session-b', '/', now - 500, undefined, '10.0.0.2');
+
+    // An old pageview whose raw row is purged by the default 30 day retention
+    pageview('session-old', '/archive', now - 60 * DAY_MS, 'https://news.example.com/');
+    purgeExpiredData(getDb(), getRetentionConfig());
+
+    insertWebVitals([
+      { name: 'LCP', value: 1234 },
+      { name: 'LCP', value: 2500 },
+      { name: 'LCP', value: 4100 },
+      { name: 'CLS', value: 0.1 }
+    ], 'session-a', '/');
+
+    insertCustomEvent({ siteId: 'default', sessionId: 'session-a', pageUrl: '/signup', timestamp: now, eventName: 'signup' });
+  });
+
+  it('should keep history after raw rows are purged', () => {
+    const rawOld = getDb().prepare('SELECT COUNT(*) as count FROM pageviews WHERE session_id = ?').get('session-old') as { count: number };
+    expect(rawOld.count).toBe(0);
+
+    const stats = getPageviewStats('default', ...longRange);
+    expect(stats.total).toBe(5);
+    expect(stats.byDay[0]).toEqual({ date: new Date(now - 60 * DAY_MS).toISOString().slice(0, 10), count: 1 });
+    expect(stats.byPage[0]).toEqual({ page: '/', count: 2, isRoute: false });
+    expect(stats.byPage).toContainEqual({ page: '/archive', count: 1, isRoute: false });
+  });
+
+  it('should derive session statistics from the rollups', () => {
+    expect(getPageviewStats('default', ...recentRange).total).toBe(4);
+
+    expect(getSessionStats('default', ...longRange)).toEqual({
+      uniqueSessions: 3,
+      uniqueVisitors: 3,
+      bounceRate: 2 / 3,
+      pagesPerSession: 5 / 3,
+      avgSessionDuration: 2000 / 3
+    });
+
+    expect(getSessionStats('default', ...recentRange)).toEqual({
+      uniqueSessions: 2,
+      uniqueVisitors: 2,
+      bounceRate: 0.5,
+      pagesPerSession: 2,
+      avgSessionDuration: 1000
+    });
+  });
+
+  it('should roll up referrers, devices and events', () => {
+    const { byReferrer, byChannel } = getReferrerStats('default', ...longRange);
+    expect(byReferrer[0]).toEqual({ referrer: 'Direct', count: 3 });
+    expect(byReferrer).toContainEqual({ referrer: 'news.example.com', count: 1 });
+    expect(byReferrer).toContainEqual({ referrer: 'search.example.com', count: 1 });
+    expect(byChannel).toEqual([{ channel: 'Direct', count: 3 }, { channel: 'Referral', count: 2 }]);
+
+    const devices = getDeviceStats('default', ...longRange);
+    expect(devices.byBrowser).toEqual([{ browser: 'Chrome', count: 5 }]);
+    expect(devices.byDeviceType).toEqual([{ deviceType: 'desktop', count: 5 }]);
+
+    expect(getCustomEventStats('default', ...longRange).byEvent).toEqual([{ eventName: 'signup', count: 1 }]);
+  });
+
+  it('should compute web vital percentiles from histogram buckets', () => {
+    const { byMetric } = getWebVitalStats('default', ...longRange);
+    const lcp = byMetric.find(metric => metric.name === 'LCP')!;
+
+    // Nearest-rank values are reported as the upper bound of their 10 ms bucket
+    expect(lcp.median).toBe(2500);
+    expect(lcp.p75).toBe(4100);
+    expect(lcp.average).toBeCloseTo((1234 + 2500 + 4100) / 3);
+    expect(lcp.rating).toBe('good');
+
+    // Threshold values stay in the bucket that keeps their rating
+    const cls = byMetric.find(metric => metric.name === 'CLS')!;
+    expect(cls.median).toBe(0.1);
+    expect(cls.rating).toBe('good');
+    expect(getHistogramBucket('LCP', 2500)).toBe(250);
+    expect(getHistogramBucket('LCP', 2500.1)).toBe(251);
+  });
+
+  it('should find visitors and conversions by index while recording', () => {
+    const plan = (sql: string) => (getDb().prepare(`EXPLAIN QUERY PLAN ${sql}`).all() as { detail: string }[])
+      .map(step => step.detail)
+      .join('\n');
+
+    expect(plan(`
+      SELECT 1 FROM pageviews
+      WHERE site_id = 'default' AND ip_hash = 'hash' AND user_agent_id IS 1 AND timestamp >= 0 AND timestamp < 1
+    `)).toContain('INDEX idx_pageviews_site_ip_hash_timestamp (site_id=? AND ip_hash=? AND timestamp>? AND timestamp<?)');
+    expect(plan("SELECT 1 FROM custom_events WHERE site_id = 'default' AND session_id = 'session-a' AND event_name IN ('signup')"))
+      .toContain('INDEX idx_custom_events_site_session (site_id=? AND session_id=?)');
+  });
+});
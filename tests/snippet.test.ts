@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { JSDOM } from 'jsdom';
+
+// The tracking snippet, with the web-vitals import left to each test
+const source = readFileSync(path.join(__dirname, '../public/analytics.js'), 'utf8')
+  .replace("import('web-vitals/attribution')", 'importWebVitals()');
+
+const START = 1748935795115;
+const HOUR_MS = 60 * 60 * 1000;
+const RETRY_KEY = 'lwa_retry_queue';
+
+interface SnippetOptions {
+  online?: boolean;
+  status?: number;
+  beaconQueued?: boolean;
+  queued?: unknown[];
+  retryQueue?: unknown[];
+}
+
+// The global API, a queue of commands until the snippet has loaded
+type Lwa = (...command: unknown[]) => void;
+interface LwaWindow {
+  lwa: unknown[] | Lwa;
+}
+
+/**
+ * Run the snippet on a fresh page
+ */
+function loadSnippet(options: SnippetOptions = {}) {
+  const { window } = new JSDOM('<!DOCTYPE html><html><body></body></html>', { url: 'https://example.com/pricing' });
+  const page = { online: options.online !== false, status: options.status || 200 };
+
+  Object.defineProperty(window.document, 'readyState', { value: 'complete' });
+  Object.defineProperty(window.navigator, 'onLine', { get: () => page.online });
+  const sendBeacon = vi.fn((url: string, blob: Blob) => options.beaconQueued !== false);
+  Object.defineProperty(window.navigator, 'sendBeacon', { value: sendBeacon });
+  const fetch = vi.fn((url: string, init: { body: string }) => Promise.resolve({ status: page.status }));
+
+  const lwaWindow = window as unknown as LwaWindow;
+  if (options.retryQueue) {
+    window.localStorage.setItem(RETRY_KEY, JSON.stringify(options.retryQueue));
+  }
+  if (options.queued) {
+    lwaWindow.lwa = options.queued;
+  }
+
+  new Function(
+    'window', 'document', 'navigator', 'localStorage', 'location', 'history', 'fetch', 'importWebVitals',
+    source
+  )(
+    window, window.document, window.navigator, window.localStorage, window.location, window.history, fetch,
+    () => new Promise(() => {})
+  );
+
+  return {
+    window,
+    page,
+    fetch,
+    sendBeacon,
+    lwa: lwaWindow.lwa as Lwa,
+    // Batches posted so far
+    sent: () => fetch.mock.calls.map(([, init]) => JSON.parse(init.body)),
+    // Batches waiting for a retry
+    stored: () => JSON.parse(window.localStorage.getItem(RETRY_KEY) || '[]')
+  };
+}
+
+describe('Tracking snippet', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: START });
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should keep batches while offline and send them when the connection is back', async () => {
+    const snippet = loadSnippet({ online: false });
+    await vi.advanceTimersByTimeAsync(5000);
+
+    // Nothing is sent, the pageview waits in localStorage
+    expect(snippet.fetch).not.toHaveBeenCalled();
+    expect(snippet.stored()).toMatchObject([{
+      url: 'https://example.com/api/collect',
+      attempts: 0,
+      retryAt: START + 5000,
+      data: { items: [{ type: 'pageview', pageUrl: '/pricing' }] }
+    }]);
+
+    snippet.page.online = true;
+    snippet.window.dispatchEvent(new snippet.window.Event('online'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(snippet.sent()).toMatchObject([{ sentAt: START + 5000, items: [{ type: 'pageview' }] }]);
+    expect(snippet.stored()).toEqual([]);
+  });
+
+  it('should send batches stored by an earlier page once they are due', async () => {
+    const batch = {
+      url: 'https://example.com/api/collect',
+      data: { sentAt: START - 1000, items: [{ type: 'event', eventName: 'signup', timestamp: START - 1000 }] },
+      attempts: 2,
+      retryAt: START + 2000
+    };
+    const snippet = loadSnippet({ retryQueue: [batch] });
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(snippet.fetch).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(snippet.sent()).toEqual([{ ...batch.data, sentAt: START + 2000 }]);
+    expect(snippet.stored()).toEqual([]);
+  });
+
+  it('should back off exponentially while the server fails', async () => {
+    const snippet = loadSnippet({ status: 500 });
+    await vi.advanceTimersByTimeAsync(5000);
+
+    const delays = [];
+    for (let attempts = 0; attempts < 9; attempts++) {
+      const [batch] = snippet.stored();
+      expect(batch.attempts).toBe(attempts);
+      delays.push(batch.retryAt - Date.now());
+      await vi.advanceTimersByTimeAsync(batch.retryAt - Date.now());
+    }
+
+    expect(delays).toEqual([5000, 10000, 20000, 40000, 80000, 160000, 320000, 600000, 600000]);
+    expect(snippet.fetch).toHaveBeenCalledTimes(10);
+  });
+
+  it('should post batches with fetch so that server errors are retried', async () => {
+    const snippet = loadSnippet({ status: 503 });
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(snippet.sendBeacon).not.toHaveBeenCalled();
+    expect(snippet.sent()).toMatchObject([{ items: [{ type: 'pageview' }] }]);
+    expect(snippet.fetch.mock.calls[0][1]).toMatchObject({ keepalive: true });
+    expect(snippet.stored()).toMatchObject([{ attempts: 0, retryAt: START + 10000 }]);
+  });
+
+  it('should send the queue with sendBeacon when the page is left', async () => {
+    const snippet = loadSnippet();
+    snippet.window.dispatchEvent(new snippet.window.Event('pagehide'));
+
+    expect(snippet.fetch).not.toHaveBeenCalled();
+    expect(snippet.sendBeacon).toHaveBeenCalledTimes(1);
+    const [url, blob] = snippet.sendBeacon.mock.calls[0];
+    expect(url).toBe('https://example.com/api/collect');
+    expect(JSON.parse(await blob.text())).toMatchObject({ items: [{ type: 'pageview' }] });
+
+    // Nothing is left for the timer
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(snippet.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should post the batch with fetch when sendBeacon cannot queue it', async () => {
+    const snippet = loadSnippet({ beaconQueued: false, status: 500 });
+    snippet.window.dispatchEvent(new snippet.window.Event('pagehide'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(snippet.sendBeacon).toHaveBeenCalledTimes(1);
+    expect(snippet.sent()).toMatchObject([{ items: [{ type: 'pageview' }] }]);
+    expect(snippet.stored()).toHaveLength(1);
+  });
+
+  it('should not retry batches the server rejected', async () => {
+    const snippet = loadSnippet({ status: 400 });
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(snippet.fetch).toHaveBeenCalledTimes(1);
+    expect(snippet.stored()).toEqual([]);
+  });
+
+  it('should drop items the server would not date correctly', async () => {
+    const items = [30, 20, 2].map(hours => ({ type: 'event', eventName: hours + 'h', timestamp: START - hours * HOUR_MS }));
+    const batch = { url: 'https://example.com/api/collect', data: { items }, attempts: 0, retryAt: START };
+
+    // Keeping items for two days is capped at the server's limit of one
+    let snippet = loadSnippet({ online: false, retryQueue: [batch], queued: [['init', { retryMaxAge: 2880 }]] });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(snippet.stored()[0].data.items.map((item: { eventName: string }) => item.eventName)).toEqual(['20h', '2h']);
+
+    snippet = loadSnippet({ online: false, retryQueue: [batch], queued: [['init', { retryMaxAge: 60 }]] });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(snippet.stored()).toMatchObject([{ data: { items: [{ type: 'pageview' }] } }]);
+  });
+
+  it('should apply queued settings before the first pageview and replay queued events after it', async () => {
+    const snippet = loadSnippet({
+      queued: [
+        ['event', 'signup', { plan: 'pro' }],
+        ['init', { host: 'https://stats.example.org/analytics', siteId: 'blog', webVitals: false }]
+      ]
+    });
+    snippet.lwa('event', 'upgrade');
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(snippet.fetch).toHaveBeenCalledTimes(1);
+    expect(snippet.fetch.mock.calls[0][0]).toBe('https://stats.example.org/analytics/api/collect');
+    const [batch] = snippet.sent();
+    expect(batch.siteId).toBe('blog');
+    expect(batch.items.map((item: { type: string; eventName?: string }) => item.eventName || item.type))
+      .toEqual(['pageview', 'signup', 'upgrade']);
+    expect(batch.items[1].eventData).toEqual({ plan: 'pro' });
+  });
+});
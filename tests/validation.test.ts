@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LIMITS,
+  readJsonBody,
+  validatePageview,
+  validateVitals,
+  validateEvent,
+  validateCollectPayload,
+  validateCollectItem,
+  invalidPayload
+} from '@/lib/validation';
+
+const NOW = 1748935795115;
+
+// Fields and codes of a failed validation
+function failures(result: { value: unknown } | { errors: Array<{ field: string; code: string }> }) {
+  return 'errors' in result ? result.errors.map(({ field, code }) => `${field}:${code}`) : [];
+}
+
+describe('Payload validation', () => {
+  const beacon = { siteId: 'default', sessionId: 'session-a', pageUrl: '/pricing' };
+
+  it('should accept well-formed beacons', () => {
+    expect(validatePageview({ ...beacon, referrer: '', timestamp: NOW - 1000, webdriver: false }, NOW))
+      .toEqual({ value: { ...beacon, referrer: '', timestamp: NOW - 1000, webdriver: false } });
+    expect(failures(validateEvent({ ...beacon, eventName: 'signup', eventData: { plan: 'pro' } }, NOW))).toEqual([]);
+  });
+
+  it('should list every failing field', () => {
+    expect(failures(validatePageview({
+      siteId: 'Blog!',
+      sessionId: 42,
+      pageUrl: '/' + 'a'.repeat(LIMITS.url),
+      hostname: ['example.com'],
+      webdriver: 'yes',
+      webVitals: 'LCP'
+    }, NOW))).toEqual([
+      'siteId:invalid_value',
+      'sessionId:invalid_type',
+      'pageUrl:too_long',
+      'hostname:invalid_type',
+      'webdriver:invalid_type',
+      'webVitals:invalid_type'
+    ]);
+    expect(failures(validateEvent({}, NOW))).toEqual(['sessionId:required', 'pageUrl:required', 'eventName:required']);
+  });
+
+  it('should reject made-up timestamps', () => {
+    expect(failures(validatePageview({ ...beacon, timestamp: '2025-06-03' }, NOW))).toEqual(['timestamp:invalid_type']);
+    expect(failures(validatePageview({ ...beacon, timestamp: 1000 }, NOW))).toEqual(['timestamp:out_of_range']);
+    expect(failures(validatePageview({ ...beacon, timestamp: NOW + 2 * 24 * 60 * 60 * 1000 }, NOW))).toEqual(['timestamp:out_of_range']);
+  });
+
+  it('should check web vital names and ranges', () => {
+    expect(failures(validateVitals({
+      ...beacon,
+      webVitals: [
+        { name: 'LCP', value: 2500, rating: 'good', attribution: 'main > img' },
+        { name: 'FPS', value: 60 },
+        { name: 'CLS', value: 12 },
+        { name: 'INP', value: -5, rating: 'great' },
+        { name: 'TTFB', value: 100, attribution: 'x'.repeat(LIMITS.attribution + 1) }
+      ]
+    }, NOW))).toEqual([
+      'webVitals[1].name:invalid_value',
+      'webVitals[2].value:out_of_range',
+      'webVitals[3].value:out_of_range',
+      'webVitals[3].rating:invalid_value',
+      'webVitals[4].attribution:too_long'
+    ]);
+    expect(failures(validateVitals({ ...beacon, webVitals: [] }, NOW))).toEqual(['webVitals:required']);
+  });
+
+  it('should limit the depth and size of event data', () => {
+    const event = { ...beacon, eventName: 'signup' };
+
+    expect(failures(validateEvent({ ...event, eventData: { a: { b: { c: { d: { e: 1 } } } } } }, NOW))).toEqual([]);
+    expect(failures(validateEvent({ ...event, eventData: { a: { b: { c: { d: { e: [1] } } } } } }, NOW)))
+      .toEqual(['eventData:too_deep']);
+    expect(failures(validateEvent({ ...event, eventData: { text: 'x'.repeat(LIMITS.eventDataBytes) } }, NOW)))
+      .toEqual(['eventData:too_large']);
+    expect(failures(validateEvent({ ...event, eventData: ['signup'] }, NOW))).toEqual(['eventData:invalid_type']);
+
+    // A body of brackets only is rejected without walking all of it
+    const deep = JSON.parse('['.repeat(10000) + ']'.repeat(10000));
+    expect(failures(validateEvent({ ...event, eventData: { deep } }, NOW))).toEqual(['eventData:too_deep']);
+  });
+
+  it('should check batches and their items', () => {
+    expect(failures(validateCollectPayload({ items: [] }, NOW))).toEqual(['items:required']);
+    expect(failures(validateCollectPayload({ items: Array(LIMITS.batchItems + 1).fill({}) }, NOW))).toEqual(['items:too_large']);
+
+    const item = { type: 'engagement', sessionId: 'session-a', pageUrl: '/', engagedMs: 1000 };
+    expect(failures(validateCollectItem(item, 0, NOW, NOW))).toEqual([]);
+    expect(failures(validateCollectItem({ ...item, engagedMs: 0 }, 1, NOW, NOW))).toEqual(['items[1].engagedMs:out_of_range']);
+    expect(failures(validateCollectItem({ ...item, engagedMs: LIMITS.itemAgeMs + 1 }, 1, NOW, NOW)))
+      .toEqual(['items[1].engagedMs:out_of_range']);
+    // Items are stamped by the clock that stamped the batch
+    expect(failures(validateCollectItem({ ...item, timestamp: NOW + 1 }, 2, NOW, NOW))).toEqual(['items[2].timestamp:out_of_range']);
+    expect(failures(validateCollectItem({ type: 'vital', sessionId: 'session-a', pageUrl: '/', name: 'LCP' }, 3, NOW, NOW)))
+      .toEqual(['items[3].value:required']);
+  });
+});
+
+describe('Request bodies', () => {
+  const request = (body: string, headers: Record<string, string> = {}) =>
+    new Request('https://example.com/api/track', { method: 'POST', body, headers });
+
+  it('should read JSON objects', async () => {
+    expect(await readJsonBody(request('{"pageUrl":"/"}'))).toEqual({ value: { pageUrl: '/' } });
+    expect(failures(await readJsonBody(request('{"pageUrl":')))).toEqual(['body:invalid_json']);
+    expect(failures(await readJsonBody(request('["/"]')))).toEqual(['body:invalid_type']);
+  });
+
+  it('should refuse bodies over the size limit', async () => {
+    const body = JSON.stringify({ pageUrl: '/', padding: 'x'.repeat(LIMITS.bodyBytes) });
+
+    expect(failures(await readJsonBody(request(body)))).toEqual(['body:too_large']);
+    expect(failures(await readJsonBody(request('{}', { 'content-length': String(LIMITS.bodyBytes + 1) }))))
+      .toEqual(['body:too_large']);
+  });
+
+  it('should answer with the failing fields', async () => {
+    const response = invalidPayload([{ field: 'pageUrl', code: 'required', message: 'pageUrl is required' }], { 'X-RateLimit-Limit': '100' });
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('100');
+    expect(await response.json()).toEqual({
+      success: false,
+      error: 'Invalid payload',
+      errors: [{ field: 'pageUrl', code: 'required', message: 'pageUrl is required' }]
+    });
+
+    const tooLarge = invalidPayload([{ field: 'body', code: 'too_large', message: 'body must be at most 65536 bytes' }]);
+    expect(tooLarge.status).toBe(413);
+    expect((await tooLarge.json()).error).toBe('Payload too large');
+  });
+});
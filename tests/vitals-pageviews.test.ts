@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+
+// Use a real in-memory database so the cleanup queries are exercised
+vi.hoisted(() => {
+  process.env.DB_PATH = ':memory:';
+});
+
+import { getDb, insertUserAgent, insertPageview, insertWebVitals } from '@/lib/db';
+import { removeVitalsPageviews } from '@/lib/db/vitals-pageviews';
+
+const now = Date.UTC(2025, 5, 15, 12);
+
+const pageviews = () =>
+  getDb().prepare('SELECT id, session_id as sessionId FROM pageviews ORDER BY id').all();
+const vitals = () =>
+  getDb().prepare('SELECT session_id as sessionId, pageview_id as pageviewId FROM web_vitals ORDER BY id').all();
+
+describe('Vitals pageviews cleanup', () => {
+  let landing: number;
+  let recent: number;
+
+  beforeAll(() => {
+    const agent = insertUserAgent({ browser: 'Chrome' });
+    const pageview = (sessionId: string, timestamp: number) =>
+      insertPageview({ siteId: 'default', sessionId, pageUrl: '/', timestamp, userAgent: 'test' }, '10.0.0.1', agent);
+    const vital = (sessionId: string, timestamp: number) =>
+      insertWebVitals([{ name: 'LCP', value: 1800, rating: 'good' }], sessionId, '/', 'default', undefined, timestamp);
+
+    // /api/track recorded a pageview alongside every web vital
+    landing = pageview('legacy', now - 5000);
+    pageview('legacy', now);
+    vital('legacy', now);
+
+    // Web vitals posted to /api/track until the upgrade
+    getDb().prepare('UPDATE legacy_web_vitals SET max_id = (SELECT MAX(id) FROM web_vitals)').run();
+
+    // A newer web vital of a pageview that is stored, but not linked
+    recent = pageview('recent', now + 1000);
+    vital('recent', now + 1500);
+  });
+
+  it('should only report duplicates in a dry run', () => {
+    expect(removeVitalsPageviews(getDb(), { dryRun: true })).toEqual({
+      recorded: true,
+      deleted: 1,
+      linked: 0,
+      days: [{ siteId: 'default', date: '2025-06-15' }]
+    });
+    expect(pageviews()).toHaveLength(3);
+  });
+
+  it('should delete the duplicates of web vitals posted before the upgrade and link the vitals', () => {
+    expect(removeVitalsPageviews(getDb())).toEqual({
+      recorded: true,
+      deleted: 1,
+      linked: 1,
+      days: [{ siteId: 'default', date: '2025-06-15' }]
+    });
+
+    expect(pageviews()).toEqual([{ id: landing, sessionId: 'legacy' }, { id: recent, sessionId: 'recent' }]);
+    expect(vitals()).toEqual([
+      { sessionId: 'legacy', pageviewId: landing },
+      { sessionId: 'recent', pageviewId: null }
+    ]);
+
+    // Running it again finds nothing
+    expect(removeVitalsPageviews(getDb())).toMatchObject({ deleted: 0, linked: 0 });
+  });
+
+  it('should not clean up databases whose legacy web vitals were not recorded', () => {
+    getDb().exec('DROP TABLE legacy_web_vitals');
+    expect(removeVitalsPageviews(getDb())).toEqual({ recorded: false, deleted: 0, linked: 0, days: [] });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import * as db from '@/lib/db';
+
+// Keep rate limit buckets in memory, the database is mocked
+vi.hoisted(() => {
+  process.env.RATE_LIMIT_STORE = 'memory';
+});
+
+// Mock database functions
+vi.mock('@/lib/db', () => ({
+  bufferWrite: vi.fn(async (write: () => unknown) => write()),
+  writeOnce: vi.fn((siteId: string, beaconId: string | undefined, write: () => unknown) => ({ id: write(), duplicate: false })),
+  insertWebVitals: vi.fn(),
+  insertPageview: vi.fn(),
+  findPageviewId: vi.fn(() => 77),
+  getSite: vi.fn(() => ({ id: 'default', name: 'Default', createdAt: 0 })),
+  DEFAULT_SITE_ID: 'default'
+}));
+
+describe('Vitals API Route', () => {
+  let POST: (req: NextRequest) => Promise<Response>;
+
+  beforeEach(async () => {
+    // Import the POST function inside the test to avoid hoisting issues
+    const route = await import('@/app/api/vitals/route');
+    POST = route.POST;
+
+    vi.clearAllMocks();
+    // Reset Date.now to return a consistent value for tests
+    vi.spyOn(Date, 'now').mockImplementation(() => 1748935795115);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createRequest(body: Record<string, unknown>) {
+    const mockHeaders = new Headers();
+    mockHeaders.set('user-agent', 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36');
+    mockHeaders.set('x-forwarded-for', '192.168.1.1');
+
+    return new NextRequest('https://example.com/api/vitals', {
+      method: 'POST',
+      headers: mockHeaders,
+      body: JSON.stringify(body)
+    });
+  }
+
+  it('should store web vitals against the pageview they were measured on', async () => {
+    const response = await POST(createRequest({
+      sessionId: 'test-session-id',
+      pageUrl: '/test-page',
+      webVitals: [{ name: 'LCP', value: 2500, rating: 'good' }]
+    }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, pageviewId: 77, count: 1, duplicate: false });
+
+    expect(db.findPageviewId).toHaveBeenCalledWith('default', 'test-session-id', '/test-page');
+    expect(db.insertWebVitals).toHaveBeenCalledWith(
+      [{ name: 'LCP', value: 2500, rating: 'good' }],
+      'test-session-id',
+      '/test-page',
+      'default',
+      77
+    );
+  });
+
+  it('should never record a pageview', async () => {
+    await POST(createRequest({
+      sessionId: 'test-session-id',
+      pageUrl: '/test-page',
+      webVitals: [{ name: 'CLS', value: 0.05, rating: 'good' }]
+    }));
+
+    expect(db.insertPageview).not.toHaveBeenCalled();
+  });
+
+  it('should reject payloads without valid web vitals', async () => {
+    const response = await POST(createRequest({
+      sessionId: 'test-session-id',
+      pageUrl: '/test-page',
+      webVitals: [{ name: 'LCP', value: 'invalid' }]
+    }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: 'Invalid payload',
+      errors: [{ field: 'webVitals[0].value', code: 'invalid_type', message: 'webVitals[0].value must be a number' }]
+    });
+    expect(db.insertWebVitals).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests without required fields', async () => {
+    const response = await POST(createRequest({
+      pageUrl: '/test-page',
+      webVitals: []
+    }));
+
+    expect(response.status).toBe(400);
+    expect(db.insertWebVitals).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+
+// Use a real in-memory database so the SQL percentile queries are exercised
+vi.hoisted(() => {
+  process.env.DB_PATH = ':memory:';
+});
+
+import { getDb, insertWebVitals, getWebVitalStats, getWebVitalReport } from '@/lib/db';
+import { getWebVitalRating } from '@/lib/utils';
+import { WebVitalMetric } from '@/lib/types';
+
+/**
+ * Reference nearest-rank percentile over an unsorted list
+ */
+function nearestRank(values: number[], percentile: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.ceil((percentile / 100) * sorted.length) - 1;
+  return sorted[Math.max(0, Math.min(sorted.length - 1, index))];
+}
+
+/**
+ * Deterministic pseudo-random values around a metric's thresholds
+ */
+function sampleValues(count: number, scale: number, seed: number): number[] {
+  const values: number[] = [];
+  let state = seed;
+  for (let i = 0; i < count; i++) {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    values.push(Math.round((state / 2147483648) * scale * 1000) / 1000);
+  }
+  return values;
+}
+
+describe('Web vital percentiles', () => {
+  const lcpHome = sampleValues(501, 6000, 1);
+  const lcpPricing = sampleValues(37, 3000, 2);
+  const cls = sampleValues(250, 0.4, 3);
+
+  const toMetrics = (name: WebVitalMetric['name'], values: number[]) =>
+    values.map(value => ({ name, value }));
+
+  beforeAll(() => {
+    getDb();
+    insertWebVitals(toMetrics('LCP', lcpHome), 'session-a', '/', 'default');
+    insertWebVitals(toMetrics('LCP', lcpPricing), 'session-b', '/pricing', 'default');
+    insertWebVitals(toMetrics('CLS', cls), 'session-a', '/', 'default');
+  });
+
+  // Recent enough to be answered from raw rows rather than the daily rollups
+  const range: [number, number] = [Date.now() - 60 * 60 * 1000, Date.now() + 1000];
+
+  it('should match nearest-rank percentiles computed in memory', () => {
+    const { byMetric } = getWebVitalStats('default', ...range);
+    const lcp = byMetric.find(metric => metric.name === 'LCP')!;
+    const allLcp = [...lcpHome, ...lcpPricing];
+
+    expect(lcp.median).toBe(nearestRank(allLcp, 50));
+    expect(lcp.p75).toBe(nearestRank(allLcp, 75));
+    expect(lcp.p95).toBe(nearestRank(allLcp, 95));
+    expect(lcp.average).toBeCloseTo(allLcp.reduce((sum, value) => sum + value, 0) / allLcp.length);
+    expect(lcp.rating).toBe(getWebVitalRating('LCP', nearestRank(allLcp, 50)));
+
+    const clsStats = byMetric.find(metric => metric.name === 'CLS')!;
+    expect(clsStats.median).toBe(nearestRank(cls, 50));
+    expect(clsStats.rating).toBe(getWebVitalRating('CLS', nearestRank(cls, 50)));
+  });
+
+  it('should compute p75 per page for the breakdown report', () => {
+    const { byPage } = getWebVitalReport('default', ...range, { metric: 'LCP' });
+
+    expect(byPage).toEqual([
+      expect.objectContaining({ pageUrl: '/', p75: nearestRank(lcpHome, 75), count: lcpHome.length }),
+      expect.objectContaining({ pageUrl: '/pricing', p75: nearestRank(lcpPricing, 75), count: lcpPricing.length })
+    ]);
+  });
+});